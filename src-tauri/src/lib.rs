@@ -1,6 +1,16 @@
 use std::collections::HashMap;
+use std::io::Write;
+use std::path::{Path, PathBuf};
 use std::process::Command;
+use std::sync::{Mutex, OnceLock};
+use aes_gcm::aead::{Aead, AeadCore, KeyInit, OsRng};
+use aes_gcm::{Aes256Gcm, Key, Nonce};
+use base64::{engine::general_purpose::STANDARD as BASE64, Engine as _};
 use serde::{Deserialize, Serialize};
+use sha2::{Digest, Sha256};
+use tauri::menu::{CheckMenuItem, Menu, MenuEvent, MenuItem, PredefinedMenuItem, Submenu};
+use tauri::tray::TrayIconBuilder;
+use tauri::{Emitter, Manager};
 
 #[derive(Debug, Serialize, Deserialize)]
 pub struct CommandOutput {
@@ -455,25 +465,101 @@ async fn check_azure_auth_status() -> Result<serde_json::Value, String> {
     }))
 }
 
+// TLS settings for endpoints with private or self-signed certificates
+#[derive(Debug, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TlsOptions {
+    pub ca_cert: Option<String>,
+    pub insecure_skip_verify: Option<bool>,
+}
+
+fn build_http_client(tls: Option<&TlsOptions>) -> Result<reqwest::Client, String> {
+    let mut builder = reqwest::Client::builder();
+    
+    if let Some(tls) = tls {
+        if let Some(pem) = tls.ca_cert.as_deref().filter(|pem| !pem.trim().is_empty()) {
+            let certificate = reqwest::Certificate::from_pem(pem.as_bytes())
+                .map_err(|e| format!("Invalid CA certificate: {}", e))?;
+            builder = builder.add_root_certificate(certificate);
+        }
+        if tls.insecure_skip_verify.unwrap_or(false) {
+            builder = builder.danger_accept_invalid_certs(true);
+        }
+    }
+    
+    builder
+        .build()
+        .map_err(|e| format!("Failed to build HTTP client: {}", e))
+}
+
+// Response of http_request. Non-2xx statuses are returned, not raised, so the
+// caller keeps the server's error message.
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct HttpResponse {
+    pub status: u16,
+    pub status_text: String,
+    pub headers: HashMap<String, String>,
+    pub body: String,
+    // Parsed body when it is JSON
+    pub json: Option<serde_json::Value>,
+}
+
+// Raised when no response was received at all
+#[derive(Debug, Serialize)]
+pub struct HttpRequestError {
+    // invalid_request, tls, timeout, connect or request
+    pub kind: String,
+    pub message: String,
+}
+
+impl HttpRequestError {
+    fn new(kind: &str, message: impl Into<String>) -> Self {
+        HttpRequestError {
+            kind: kind.to_string(),
+            message: message.into(),
+        }
+    }
+}
+
+fn send_error(e: reqwest::Error) -> HttpRequestError {
+    if e.is_timeout() {
+        HttpRequestError::new("timeout", format!("Request timed out: {}", e))
+    } else if e.is_connect() {
+        HttpRequestError::new("connect", format!("Connection failed: {}", e))
+    } else if e.is_builder() {
+        HttpRequestError::new("invalid_request", format!("Invalid request: {}", e))
+    } else {
+        HttpRequestError::new("request", format!("Request failed: {}", e))
+    }
+}
+
 #[tauri::command]
 async fn http_request(
     url: String, 
     method: Option<String>, 
     headers: HashMap<String, String>, 
-    body: Option<String>
-) -> Result<serde_json::Value, String> {
-    let client = reqwest::Client::new();
-    let method = method.unwrap_or_else(|| "GET".to_string());
+    body: Option<String>,
+    tls: Option<TlsOptions>,
+    timeout_ms: Option<u64>
+) -> Result<HttpResponse, HttpRequestError> {
+    let client = build_http_client(tls.as_ref()).map_err(|e| HttpRequestError::new("tls", e))?;
+    let method = method.unwrap_or_else(|| "GET".to_string()).to_uppercase();
     
-    let mut request = match method.to_uppercase().as_str() {
+    let mut request = match method.as_str() {
         "GET" => client.get(&url),
         "POST" => client.post(&url),
         "PUT" => client.put(&url),
         "DELETE" => client.delete(&url),
         "PATCH" => client.patch(&url),
-        _ => return Err(format!("Unsupported HTTP method: {}", method)),
+        "HEAD" => client.head(&url),
+        _ => return Err(HttpRequestError::new("invalid_request", format!("Unsupported HTTP method: {}", method))),
     };
     
+    if let Some(timeout_ms) = timeout_ms {
+        request = request.timeout(std::time::Duration::from_millis(timeout_ms));
+    }
+    
     // Add headers
     for (key, value) in headers {
         request = request.header(&key, &value);
@@ -481,27 +567,848 @@ async fn http_request(
     
     // Add body for POST/PUT/PATCH requests
     if let Some(body_data) = body {
-        if ["POST", "PUT", "PATCH"].contains(&method.to_uppercase().as_str()) {
+        if ["POST", "PUT", "PATCH"].contains(&method.as_str()) {
             request = request.body(body_data);
         }
     }
     
-    let response = request
-        .send()
-        .await
-        .map_err(|e| format!("Request failed: {}", e))?;
+    let response = request.send().await.map_err(send_error)?;
     
     let status = response.status();
-    if !status.is_success() {
-        return Err(format!("HTTP error: {}", status));
+    let mut response_headers: HashMap<String, String> = HashMap::new();
+    for (name, value) in response.headers() {
+        let value = String::from_utf8_lossy(value.as_bytes()).to_string();
+        response_headers
+            .entry(name.as_str().to_string())
+            .and_modify(|existing| {
+                existing.push_str(", ");
+                existing.push_str(&value);
+            })
+            .or_insert(value);
     }
     
-    let json: serde_json::Value = response
-        .json()
+    let body = response.text().await.map_err(|e| {
+        if e.is_timeout() {
+            HttpRequestError::new("timeout", format!("Timed out reading the response: {}", e))
+        } else {
+            HttpRequestError::new("request", format!("Failed to read the response: {}", e))
+        }
+    })?;
+    // Empty bodies (204, DELETE) and plain-text errors simply have no JSON
+    let json = serde_json::from_str(&body).ok();
+    
+    Ok(HttpResponse {
+        status: status.as_u16(),
+        status_text: status.canonical_reason().unwrap_or("").to_string(),
+        headers: response_headers,
+        body,
+        json,
+    })
+}
+
+// ===== Event streams =====
+// Server-sent event streams (the khook alert stream) read on this side, so a
+// connector's TLS settings apply to them as they do to http_request. The body
+// is passed to the webview as "event-stream" events tagged with the id the
+// webview picked, which lets it listen before the first chunk can arrive.
+
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct EventStreamMessage {
+    id: String,
+    // data, error or end
+    kind: String,
+    data: Option<String>,
+}
+
+// Status and, when it is not 2xx, the body of the response that opened a stream
+#[derive(Debug, Serialize)]
+pub struct EventStreamOpened {
+    pub status: u16,
+    pub body: String,
+}
+
+static EVENT_STREAMS: Mutex<Option<HashMap<String, tauri::async_runtime::JoinHandle<()>>>> = Mutex::new(None);
+
+fn emit_event_stream(app: &tauri::AppHandle, id: &str, kind: &str, data: Option<String>) {
+    let message = EventStreamMessage { id: id.to_string(), kind: kind.to_string(), data };
+    if let Err(e) = app.emit("event-stream", message) {
+        eprintln!("Failed to send an event stream message: {}", e);
+    }
+}
+
+async fn read_event_stream(app: tauri::AppHandle, id: String, mut response: reqwest::Response) {
+    // Chunks may end inside a multi-byte character; keep the tail for the next one
+    let mut pending: Vec<u8> = Vec::new();
+    loop {
+        match response.chunk().await {
+            Ok(Some(bytes)) => {
+                pending.extend_from_slice(&bytes);
+                let valid = match std::str::from_utf8(&pending) {
+                    Ok(text) => text.len(),
+                    Err(e) if e.error_len().is_none() => e.valid_up_to(),
+                    Err(_) => pending.len(),
+                };
+                let text = String::from_utf8_lossy(&pending[..valid]).to_string();
+                pending.drain(..valid);
+                if !text.is_empty() {
+                    emit_event_stream(&app, &id, "data", Some(text));
+                }
+            }
+            Ok(None) => {
+                emit_event_stream(&app, &id, "end", None);
+                break;
+            }
+            Err(e) => {
+                emit_event_stream(&app, &id, "error", Some(format!("The stream failed: {}", e)));
+                break;
+            }
+        }
+    }
+    if let Ok(mut streams) = EVENT_STREAMS.lock() {
+        streams.get_or_insert_with(HashMap::new).remove(&id);
+    }
+}
+
+// Opens the stream; a 2xx response is then read in the background until
+// it ends or event_stream_close is called
+#[tauri::command]
+async fn event_stream_open(
+    app: tauri::AppHandle,
+    id: String,
+    url: String,
+    headers: HashMap<String, String>,
+    tls: Option<TlsOptions>
+) -> Result<EventStreamOpened, HttpRequestError> {
+    let client = build_http_client(tls.as_ref()).map_err(|e| HttpRequestError::new("tls", e))?;
+    let mut request = client.get(&url);
+    for (key, value) in headers {
+        request = request.header(&key, &value);
+    }
+
+    let response = request.send().await.map_err(send_error)?;
+    let status = response.status().as_u16();
+    if !response.status().is_success() {
+        let body = response.text().await.unwrap_or_default();
+        return Ok(EventStreamOpened { status, body });
+    }
+
+    let handle = tauri::async_runtime::spawn(read_event_stream(app, id.clone(), response));
+    let mut streams = EVENT_STREAMS.lock().map_err(|_| HttpRequestError::new("request", "Event stream registry poisoned"))?;
+    streams.get_or_insert_with(HashMap::new).insert(id, handle);
+    Ok(EventStreamOpened { status, body: String::new() })
+}
+
+#[tauri::command]
+fn event_stream_close(id: String) {
+    if let Ok(mut streams) = EVENT_STREAMS.lock() {
+        if let Some(handle) = streams.get_or_insert_with(HashMap::new).remove(&id) {
+            handle.abort();
+        }
+    }
+}
+
+// ===== Mock webhook =====
+// A local endpoint for testing notification channels without posting to
+// Slack or PagerDuty. It answers every request with 200 and keeps the most
+// recent ones so the app can show what a channel would have sent.
+
+const MOCK_WEBHOOK_MAX_REQUESTS: usize = 50;
+const MOCK_WEBHOOK_MAX_BYTES: usize = 1024 * 1024;
+// A client that stops sending is dropped after this long
+const MOCK_WEBHOOK_READ_TIMEOUT: std::time::Duration = std::time::Duration::from_secs(10);
+
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct MockWebhookRequest {
+    method: String,
+    path: String,
+    headers: HashMap<String, String>,
+    body: String,
+    received_at: u64,
+}
+
+static MOCK_WEBHOOK_URL: tokio::sync::OnceCell<String> = tokio::sync::OnceCell::const_new();
+static MOCK_WEBHOOK_REQUESTS: Mutex<Vec<MockWebhookRequest>> = Mutex::new(Vec::new());
+
+async fn handle_mock_webhook(mut stream: tokio::net::TcpStream) {
+    use tokio::io::{AsyncReadExt, AsyncWriteExt};
+
+    let mut buffer = Vec::new();
+    let mut chunk = [0u8; 8192];
+    let deadline = tokio::time::Instant::now() + MOCK_WEBHOOK_READ_TIMEOUT;
+    // Read up to the end of the headers, then the Content-Length body
+    let header_end = loop {
+        match tokio::time::timeout_at(deadline, stream.read(&mut chunk)).await {
+            Ok(Ok(0)) | Ok(Err(_)) | Err(_) => return,
+            Ok(Ok(n)) => buffer.extend_from_slice(&chunk[..n]),
+        }
+        if let Some(position) = buffer.windows(4).position(|window| window == b"\r\n\r\n") {
+            break position + 4;
+        }
+        if buffer.len() > MOCK_WEBHOOK_MAX_BYTES {
+            return;
+        }
+    };
+
+    let head = String::from_utf8_lossy(&buffer[..header_end]).to_string();
+    let mut lines = head.split("\r\n");
+    let mut request_line = lines.next().unwrap_or("").split_whitespace();
+    let method = request_line.next().unwrap_or("").to_string();
+    let path = request_line.next().unwrap_or("").to_string();
+    let mut headers = HashMap::new();
+    for line in lines {
+        if let Some((name, value)) = line.split_once(':') {
+            headers.insert(name.trim().to_lowercase(), value.trim().to_string());
+        }
+    }
+
+    let content_length = headers
+        .get("content-length")
+        .and_then(|value| value.parse::<usize>().ok())
+        .unwrap_or(0)
+        .min(MOCK_WEBHOOK_MAX_BYTES);
+    while buffer.len() < header_end + content_length {
+        match tokio::time::timeout_at(deadline, stream.read(&mut chunk)).await {
+            Ok(Ok(0)) | Ok(Err(_)) | Err(_) => break,
+            Ok(Ok(n)) => buffer.extend_from_slice(&chunk[..n]),
+        }
+    }
+    let body_end = buffer.len().min(header_end + content_length);
+    let body = String::from_utf8_lossy(&buffer[header_end..body_end]).to_string();
+    let received_at = std::time::SystemTime::now()
+        .duration_since(std::time::UNIX_EPOCH)
+        .map(|duration| duration.as_millis() as u64)
+        .unwrap_or(0);
+
+    {
+        let mut requests = MOCK_WEBHOOK_REQUESTS.lock().unwrap_or_else(|e| e.into_inner());
+        requests.insert(0, MockWebhookRequest { method, path, headers, body, received_at });
+        requests.truncate(MOCK_WEBHOOK_MAX_REQUESTS);
+    }
+
+    let reply = "{\"ok\":true}";
+    let response = format!(
+        "HTTP/1.1 200 OK\r\nContent-Type: application/json\r\nContent-Length: {}\r\nConnection: close\r\n\r\n{}",
+        reply.len(),
+        reply
+    );
+    let _ = stream.write_all(response.as_bytes()).await;
+    let _ = stream.shutdown().await;
+}
+
+// Starts the mock endpoint on a free loopback port the first time; returns its URL
+#[tauri::command]
+async fn mock_webhook_start() -> Result<String, String> {
+    MOCK_WEBHOOK_URL
+        .get_or_try_init(|| async {
+            let listener = tokio::net::TcpListener::bind("127.0.0.1:0")
+                .await
+                .map_err(|e| format!("Failed to start the mock webhook: {}", e))?;
+            let port = listener.local_addr().map_err(|e| e.to_string())?.port();
+            tauri::async_runtime::spawn(async move {
+                loop {
+                    match listener.accept().await {
+                        Ok((stream, _)) => {
+                            tauri::async_runtime::spawn(handle_mock_webhook(stream));
+                        }
+                        Err(e) => {
+                            // e.g. out of file descriptors; back off rather than spin
+                            eprintln!("Mock webhook failed to accept a connection: {}", e);
+                            tokio::time::sleep(std::time::Duration::from_millis(100)).await;
+                        }
+                    }
+                }
+            });
+            Ok::<String, String>(format!("http://127.0.0.1:{}/webhook", port))
+        })
         .await
-        .map_err(|e| format!("Failed to parse JSON: {}", e))?;
+        .cloned()
+}
+
+// Requests the mock endpoint received, newest first
+#[tauri::command]
+fn mock_webhook_requests() -> Vec<MockWebhookRequest> {
+    MOCK_WEBHOOK_REQUESTS
+        .lock()
+        .map(|requests| requests.clone())
+        .unwrap_or_default()
+}
+
+// ===== Tray =====
+// The tray menu mirrors the alert stream: the web side pushes the firing
+// count, recent critical alerts and connectors through `update_tray`, and
+// menu picks come back to it as `tray-action` events.
+
+const TRAY_ID: &str = "main";
+
+#[derive(Debug, Default, Deserialize)]
+struct TrayAlert {
+    id: String,
+    label: String,
+}
+
+#[derive(Debug, Default, Deserialize)]
+struct TrayConnector {
+    id: String,
+    name: String,
+    active: bool,
+    connected: bool,
+}
+
+#[derive(Debug, Default, Deserialize)]
+struct TrayState {
+    firing: usize,
+    critical: Vec<TrayAlert>,
+    connectors: Vec<TrayConnector>,
+}
+
+#[derive(Debug, Clone, Serialize)]
+struct TrayAction {
+    action: &'static str,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    id: Option<String>,
+}
+
+fn build_tray_menu(app: &tauri::AppHandle, state: &TrayState) -> tauri::Result<Menu<tauri::Wry>> {
+    let menu = Menu::new(app)?;
+
+    let firing = match state.firing {
+        0 => "No alerts firing".to_string(),
+        1 => "1 alert firing".to_string(),
+        count => format!("{} alerts firing", count),
+    };
+    menu.append(&MenuItem::with_id(app, "firing", firing, false, None::<&str>)?)?;
+
+    if !state.critical.is_empty() {
+        menu.append(&PredefinedMenuItem::separator(app)?)?;
+        menu.append(&MenuItem::with_id(app, "critical", "Recent Critical Alerts", false, None::<&str>)?)?;
+        for alert in &state.critical {
+            let submenu = Submenu::with_id(app, format!("alert:{}", alert.id), &alert.label, true)?;
+            submenu.append(&MenuItem::with_id(app, format!("open:{}", alert.id), "Open in Dashboard", true, None::<&str>)?)?;
+            submenu.append(&MenuItem::with_id(app, format!("silence:{}", alert.id), "Silence for 1 Hour", true, None::<&str>)?)?;
+            menu.append(&submenu)?;
+        }
+    }
+
+    menu.append(&PredefinedMenuItem::separator(app)?)?;
+    let status = match state.connectors.iter().find(|connector| connector.active) {
+        Some(connector) if connector.connected => format!("{}: Connected", connector.name),
+        Some(connector) => format!("{}: Disconnected", connector.name),
+        None => "No connector selected".to_string(),
+    };
+    menu.append(&MenuItem::with_id(app, "connector-status", status, false, None::<&str>)?)?;
+    if !state.connectors.is_empty() {
+        let switcher = Submenu::with_id(app, "switch-connector", "Switch Connector", true)?;
+        for connector in &state.connectors {
+            switcher.append(&CheckMenuItem::with_id(
+                app,
+                format!("connector:{}", connector.id),
+                &connector.name,
+                true,
+                connector.active,
+                None::<&str>,
+            )?)?;
+        }
+        menu.append(&switcher)?;
+    }
+
+    menu.append(&PredefinedMenuItem::separator(app)?)?;
+    menu.append(&MenuItem::with_id(app, "open-dashboard", "Open Alert Dashboard", true, None::<&str>)?)?;
+    menu.append(&MenuItem::with_id(app, "quit", "Quit SRE IDE", true, None::<&str>)?)?;
+    Ok(menu)
+}
+
+fn show_main_window(app: &tauri::AppHandle) {
+    if let Some(window) = app.get_webview_window("main") {
+        let _ = window.unminimize();
+        let _ = window.show();
+        let _ = window.set_focus();
+    }
+}
+
+fn handle_tray_menu_event(app: &tauri::AppHandle, event: MenuEvent) {
+    let id = event.id().as_ref();
+    let action = match id {
+        "quit" => {
+            app.exit(0);
+            return;
+        }
+        "open-dashboard" => TrayAction { action: "open-dashboard", id: None },
+        _ => match id.split_once(':') {
+            Some(("open", alert)) => TrayAction { action: "open-alert", id: Some(alert.to_string()) },
+            Some(("silence", alert)) => TrayAction { action: "silence", id: Some(alert.to_string()) },
+            Some(("connector", connector)) => TrayAction { action: "switch-connector", id: Some(connector.to_string()) },
+            _ => return,
+        },
+    };
+    if action.action != "silence" {
+        show_main_window(app);
+    }
+    if let Err(e) = app.emit("tray-action", action) {
+        eprintln!("Failed to send the tray action: {}", e);
+    }
+}
+
+// Rebuilds the tray menu and title from the latest alert state
+#[tauri::command]
+fn update_tray(app: tauri::AppHandle, state: TrayState) -> Result<(), String> {
+    let Some(tray) = app.tray_by_id(TRAY_ID) else {
+        return Ok(());
+    };
+    let menu = build_tray_menu(&app, &state).map_err(|e| e.to_string())?;
+    tray.set_menu(Some(menu)).map_err(|e| e.to_string())?;
+    let tooltip = if state.firing > 0 {
+        format!("SRE IDE: {} firing", state.firing)
+    } else {
+        "SRE IDE".to_string()
+    };
+    tray.set_tooltip(Some(tooltip)).map_err(|e| e.to_string())?;
+    // The count next to the icon, where the platform shows one (macOS, Linux)
+    let title = (state.firing > 0).then(|| state.firing.to_string());
+    tray.set_title(title).map_err(|e| e.to_string())?;
+    Ok(())
+}
+
+// ===== Secrets =====
+// Tokens and passwords live in the OS keychain (macOS Keychain, Windows
+// Credential Manager, Secret Service on Linux). When no keychain is reachable,
+// e.g. on a headless Linux box, they fall back to an AES-256-GCM encrypted file
+// in the app config directory. SRE_IDE_SECRET_BACKEND=file forces the fallback
+// and SRE_IDE_SECRET_KEY supplies its key instead of the generated key file.
+
+const SECRET_SERVICE: &str = "com.denistu.sre-ide";
+const SECRET_FILE: &str = "secrets.enc.json";
+const SECRET_KEY_FILE: &str = "secrets.key";
+const NONCE_LEN: usize = 12;
+
+#[derive(Debug, Clone, Copy, PartialEq)]
+enum SecretBackend {
+    Keychain,
+    EncryptedFile,
+}
+
+static SECRET_BACKEND: OnceLock<SecretBackend> = OnceLock::new();
+// Serializes read-modify-write cycles on the encrypted file
+static SECRET_FILE_LOCK: Mutex<()> = Mutex::new(());
+
+fn secret_backend() -> SecretBackend {
+    *SECRET_BACKEND.get_or_init(|| {
+        if std::env::var("SRE_IDE_SECRET_BACKEND").map(|v| v == "file").unwrap_or(false) {
+            return SecretBackend::EncryptedFile;
+        }
+        // Probe the keychain once; a missing entry still proves it is reachable
+        match keyring::Entry::new(SECRET_SERVICE, "__probe__").and_then(|entry| entry.get_password()) {
+            Ok(_) | Err(keyring::Error::NoEntry) => SecretBackend::Keychain,
+            Err(_) => SecretBackend::EncryptedFile,
+        }
+    })
+}
+
+fn app_config_file(app: &tauri::AppHandle, name: &str) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_config_dir()
+        .map_err(|e| format!("Failed to resolve config directory: {}", e))?;
+    std::fs::create_dir_all(&dir)
+        .map_err(|e| format!("Failed to create config directory: {}", e))?;
+    Ok(dir.join(name))
+}
+
+// Write a file readable only by the current user
+fn write_private_file(path: &Path, contents: &[u8]) -> Result<(), String> {
+    let mut options = std::fs::OpenOptions::new();
+    options.write(true).create(true).truncate(true);
+    #[cfg(unix)]
+    {
+        use std::os::unix::fs::OpenOptionsExt;
+        options.mode(0o600);
+    }
+    
+    let mut file = options
+        .open(path)
+        .map_err(|e| format!("Failed to open {}: {}", path.display(), e))?;
+    file.write_all(contents)
+        .map_err(|e| format!("Failed to write {}: {}", path.display(), e))
+}
+
+fn keychain_entry(key: &str) -> Result<keyring::Entry, String> {
+    keyring::Entry::new(SECRET_SERVICE, key).map_err(|e| format!("Keychain error: {}", e))
+}
+
+fn secret_file_key(app: &tauri::AppHandle) -> Result<Key<Aes256Gcm>, String> {
+    if let Ok(passphrase) = std::env::var("SRE_IDE_SECRET_KEY") {
+        let digest = Sha256::digest(passphrase.as_bytes());
+        return Ok(Key::<Aes256Gcm>::from_slice(&digest).clone());
+    }
+    
+    let path = app_config_file(app, SECRET_KEY_FILE)?;
+    if path.exists() {
+        let bytes = std::fs::read(&path)
+            .map_err(|e| format!("Failed to read secret key: {}", e))?;
+        if bytes.len() != 32 {
+            return Err("Secret key file is corrupt".to_string());
+        }
+        return Ok(Key::<Aes256Gcm>::from_slice(&bytes).clone());
+    }
+    
+    let key = Aes256Gcm::generate_key(OsRng);
+    write_private_file(&path, key.as_slice())?;
+    Ok(key)
+}
+
+// Encrypted file layout: { "<key>": base64(nonce || ciphertext) }
+fn read_secret_file(app: &tauri::AppHandle) -> Result<HashMap<String, String>, String> {
+    let path = app_config_file(app, SECRET_FILE)?;
+    if !path.exists() {
+        return Ok(HashMap::new());
+    }
     
-    Ok(json)
+    let data = std::fs::read_to_string(&path)
+        .map_err(|e| format!("Failed to read secret store: {}", e))?;
+    serde_json::from_str(&data)
+        .map_err(|e| format!("Failed to parse secret store: {}", e))
+}
+
+fn write_secret_file(app: &tauri::AppHandle, entries: &HashMap<String, String>) -> Result<(), String> {
+    let path = app_config_file(app, SECRET_FILE)?;
+    let data = serde_json::to_string(entries)
+        .map_err(|e| format!("Failed to serialize secret store: {}", e))?;
+    write_private_file(&path, data.as_bytes())
+}
+
+fn encrypt_secret(key: &Key<Aes256Gcm>, plaintext: &str) -> Result<String, String> {
+    let cipher = Aes256Gcm::new(key);
+    let nonce = Aes256Gcm::generate_nonce(&mut OsRng);
+    let ciphertext = cipher
+        .encrypt(&nonce, plaintext.as_bytes())
+        .map_err(|_| "Failed to encrypt secret".to_string())?;
+    
+    let mut payload = nonce.to_vec();
+    payload.extend_from_slice(&ciphertext);
+    Ok(BASE64.encode(payload))
+}
+
+fn decrypt_secret(key: &Key<Aes256Gcm>, encoded: &str) -> Result<String, String> {
+    let payload = BASE64
+        .decode(encoded)
+        .map_err(|e| format!("Corrupt secret: {}", e))?;
+    if payload.len() < NONCE_LEN {
+        return Err("Corrupt secret: payload too short".to_string());
+    }
+    
+    let (nonce, ciphertext) = payload.split_at(NONCE_LEN);
+    let plaintext = Aes256Gcm::new(key)
+        .decrypt(Nonce::from_slice(nonce), ciphertext)
+        .map_err(|_| "Failed to decrypt secret (was the key changed?)".to_string())?;
+    String::from_utf8(plaintext).map_err(|e| format!("Corrupt secret: {}", e))
+}
+
+fn read_secret(app: &tauri::AppHandle, key: &str) -> Result<Option<String>, String> {
+    match secret_backend() {
+        SecretBackend::Keychain => match keychain_entry(key)?.get_password() {
+            Ok(value) => Ok(Some(value)),
+            Err(keyring::Error::NoEntry) => Ok(None),
+            Err(e) => Err(format!("Keychain error: {}", e)),
+        },
+        SecretBackend::EncryptedFile => {
+            let _guard = SECRET_FILE_LOCK.lock().map_err(|_| "Secret store lock poisoned".to_string())?;
+            match read_secret_file(app)?.get(key) {
+                Some(encoded) => decrypt_secret(&secret_file_key(app)?, encoded).map(Some),
+                None => Ok(None),
+            }
+        }
+    }
+}
+
+fn write_secret(app: &tauri::AppHandle, key: String, value: &str) -> Result<(), String> {
+    match secret_backend() {
+        SecretBackend::Keychain => keychain_entry(&key)?
+            .set_password(value)
+            .map_err(|e| format!("Keychain error: {}", e)),
+        SecretBackend::EncryptedFile => {
+            let _guard = SECRET_FILE_LOCK.lock().map_err(|_| "Secret store lock poisoned".to_string())?;
+            let mut entries = read_secret_file(app)?;
+            entries.insert(key, encrypt_secret(&secret_file_key(app)?, value)?);
+            write_secret_file(app, &entries)
+        }
+    }
+}
+
+fn remove_secret(app: &tauri::AppHandle, key: &str) -> Result<(), String> {
+    match secret_backend() {
+        SecretBackend::Keychain => match keychain_entry(key)?.delete_credential() {
+            Ok(()) | Err(keyring::Error::NoEntry) => Ok(()),
+            Err(e) => Err(format!("Keychain error: {}", e)),
+        },
+        SecretBackend::EncryptedFile => {
+            let _guard = SECRET_FILE_LOCK.lock().map_err(|_| "Secret store lock poisoned".to_string())?;
+            let mut entries = read_secret_file(app)?;
+            if entries.remove(key).is_some() {
+                write_secret_file(app, &entries)?;
+            }
+            Ok(())
+        }
+    }
+}
+
+// Keychain calls and file I/O block, so the commands run them on the blocking
+// pool instead of the main thread
+async fn run_blocking<T, F>(task: F) -> Result<T, String>
+where
+    T: Send + 'static,
+    F: FnOnce() -> Result<T, String> + Send + 'static,
+{
+    tauri::async_runtime::spawn_blocking(task)
+        .await
+        .map_err(|e| format!("Secret store task failed: {}", e))?
+}
+
+#[tauri::command]
+async fn secret_get(app: tauri::AppHandle, key: String) -> Result<Option<String>, String> {
+    run_blocking(move || read_secret(&app, &key)).await
+}
+
+#[tauri::command]
+async fn secret_set(app: tauri::AppHandle, key: String, value: String) -> Result<(), String> {
+    run_blocking(move || write_secret(&app, key, &value)).await
+}
+
+#[tauri::command]
+async fn secret_delete(app: tauri::AppHandle, key: String) -> Result<(), String> {
+    run_blocking(move || remove_secret(&app, &key)).await
+}
+
+// Which backend is holding secrets, shown in the settings UI. The first call
+// probes the keychain, so it also stays off the main thread.
+#[tauri::command]
+async fn secret_backend_name() -> Result<String, String> {
+    run_blocking(|| {
+        Ok(match secret_backend() {
+            SecretBackend::Keychain => "keychain".to_string(),
+            SecretBackend::EncryptedFile => "encrypted-file".to_string(),
+        })
+    })
+    .await
+}
+
+// ===== Kubeconfig credentials =====
+// Reads the bearer token (or basic credentials) a kubeconfig context would
+// send, so a connector can authenticate as the same user as kubectl.
+
+#[derive(Debug, Deserialize)]
+struct Kubeconfig {
+    #[serde(rename = "current-context")]
+    current_context: Option<String>,
+    #[serde(default)]
+    contexts: Vec<NamedKubeContext>,
+    #[serde(default)]
+    users: Vec<NamedKubeUser>,
+}
+
+#[derive(Debug, Deserialize)]
+struct NamedKubeContext {
+    name: String,
+    context: KubeContext,
+}
+
+#[derive(Debug, Deserialize)]
+struct KubeContext {
+    user: String,
+}
+
+#[derive(Debug, Deserialize)]
+struct NamedKubeUser {
+    name: String,
+    #[serde(default)]
+    user: KubeUser,
+}
+
+#[derive(Debug, Default, Deserialize)]
+struct KubeUser {
+    token: Option<String>,
+    #[serde(rename = "tokenFile")]
+    token_file: Option<String>,
+    username: Option<String>,
+    password: Option<String>,
+    exec: Option<KubeExec>,
+    #[serde(rename = "client-certificate")]
+    client_certificate: Option<String>,
+    #[serde(rename = "client-certificate-data")]
+    client_certificate_data: Option<String>,
+}
+
+#[derive(Debug, Deserialize)]
+struct KubeExec {
+    command: String,
+    #[serde(default)]
+    args: Vec<String>,
+    #[serde(default)]
+    env: Option<Vec<KubeExecEnv>>,
+    #[serde(rename = "apiVersion")]
+    api_version: Option<String>,
+}
+
+#[derive(Debug, Deserialize)]
+struct KubeExecEnv {
+    name: String,
+    value: String,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct KubeconfigContexts {
+    pub current_context: Option<String>,
+    pub contexts: Vec<String>,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct KubeconfigCredentials {
+    pub context: String,
+    pub user: String,
+    pub token: Option<String>,
+    pub username: Option<String>,
+    pub password: Option<String>,
+    // RFC 3339 expiry reported by exec credential plugins
+    pub expires_at: Option<String>,
+}
+
+fn home_dir() -> Result<PathBuf, String> {
+    std::env::var("HOME")
+        .or_else(|_| std::env::var("USERPROFILE"))
+        .map(PathBuf::from)
+        .map_err(|_| "Could not determine the home directory".to_string())
+}
+
+// Explicit path, else the first $KUBECONFIG entry, else ~/.kube/config
+fn kubeconfig_path(path: Option<String>) -> Result<PathBuf, String> {
+    if let Some(path) = path.filter(|p| !p.trim().is_empty()) {
+        return match path.strip_prefix("~/") {
+            Some(rest) => Ok(home_dir()?.join(rest)),
+            None => Ok(PathBuf::from(path)),
+        };
+    }
+    if let Ok(value) = std::env::var("KUBECONFIG") {
+        if let Some(first) = std::env::split_paths(&value).find(|p| !p.as_os_str().is_empty()) {
+            return Ok(first);
+        }
+    }
+    Ok(home_dir()?.join(".kube").join("config"))
+}
+
+fn read_kubeconfig(path: &Path) -> Result<Kubeconfig, String> {
+    let contents = std::fs::read_to_string(path)
+        .map_err(|e| format!("Failed to read kubeconfig {}: {}", path.display(), e))?;
+    serde_yaml::from_str(&contents)
+        .map_err(|e| format!("Failed to parse kubeconfig {}: {}", path.display(), e))
+}
+
+// Run a client-go exec credential plugin (aws, gke-gcloud-auth-plugin, kubelogin, ...)
+fn run_exec_plugin(exec: &KubeExec) -> Result<(String, Option<String>), String> {
+    let api_version = exec
+        .api_version
+        .clone()
+        .unwrap_or_else(|| "client.authentication.k8s.io/v1beta1".to_string());
+    let exec_info = serde_json::json!({
+        "apiVersion": api_version,
+        "kind": "ExecCredential",
+        "spec": { "interactive": false }
+    });
+
+    let mut command = Command::new(&exec.command);
+    command.args(&exec.args).env("KUBERNETES_EXEC_INFO", exec_info.to_string());
+    for var in exec.env.iter().flatten() {
+        command.env(&var.name, &var.value);
+    }
+
+    let output = command
+        .output()
+        .map_err(|e| format!("Failed to run credential plugin {}: {}", exec.command, e))?;
+    if !output.status.success() {
+        return Err(format!(
+            "Credential plugin {} failed: {}",
+            exec.command,
+            String::from_utf8_lossy(&output.stderr).trim()
+        ));
+    }
+
+    let credential: serde_json::Value = serde_json::from_slice(&output.stdout)
+        .map_err(|e| format!("Credential plugin {} returned invalid JSON: {}", exec.command, e))?;
+    let status = &credential["status"];
+    let token = status["token"]
+        .as_str()
+        .ok_or_else(|| format!("Credential plugin {} did not return a token", exec.command))?;
+    let expires_at = status["expirationTimestamp"].as_str().map(|s| s.to_string());
+    Ok((token.to_string(), expires_at))
+}
+
+#[tauri::command]
+fn kubeconfig_contexts(path: Option<String>) -> Result<KubeconfigContexts, String> {
+    let config = read_kubeconfig(&kubeconfig_path(path)?)?;
+    Ok(KubeconfigContexts {
+        current_context: config.current_context,
+        contexts: config.contexts.into_iter().map(|c| c.name).collect(),
+    })
+}
+
+#[tauri::command]
+async fn kubeconfig_credentials(
+    path: Option<String>,
+    context: Option<String>,
+) -> Result<KubeconfigCredentials, String> {
+    let config_path = kubeconfig_path(path)?;
+    let config = read_kubeconfig(&config_path)?;
+
+    let context_name = context
+        .filter(|c| !c.trim().is_empty())
+        .or(config.current_context.clone())
+        .ok_or_else(|| "No context given and the kubeconfig has no current-context".to_string())?;
+    let context = config
+        .contexts
+        .iter()
+        .find(|c| c.name == context_name)
+        .ok_or_else(|| format!("Context {} not found in {}", context_name, config_path.display()))?;
+    let user_name = context.context.user.clone();
+    let user = config
+        .users
+        .iter()
+        .find(|u| u.name == user_name)
+        .map(|u| &u.user)
+        .ok_or_else(|| format!("User {} not found in {}", user_name, config_path.display()))?;
+
+    let mut credentials = KubeconfigCredentials {
+        context: context_name.clone(),
+        user: user_name.clone(),
+        token: None,
+        username: None,
+        password: None,
+        expires_at: None,
+    };
+
+    if let Some(token) = &user.token {
+        credentials.token = Some(token.clone());
+    } else if let Some(token_file) = &user.token_file {
+        let token = std::fs::read_to_string(token_file)
+            .map_err(|e| format!("Failed to read token file {}: {}", token_file, e))?;
+        credentials.token = Some(token.trim().to_string());
+    } else if let Some(exec) = &user.exec {
+        let (token, expires_at) = run_exec_plugin(exec)?;
+        credentials.token = Some(token);
+        credentials.expires_at = expires_at;
+    } else if user.username.is_some() && user.password.is_some() {
+        credentials.username = user.username.clone();
+        credentials.password = user.password.clone();
+    } else if user.client_certificate.is_some() || user.client_certificate_data.is_some() {
+        return Err(format!(
+            "User {} authenticates with a client certificate, which cannot be forwarded as a token",
+            user_name
+        ));
+    } else {
+        return Err(format!("User {} has no token or credentials", user_name));
+    }
+
+    Ok(credentials)
 }
 
 #[tauri::command]
@@ -630,6 +1537,7 @@ pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_shell::init())
+        .plugin(tauri_plugin_notification::init())
         .invoke_handler(tauri::generate_handler![
             greet, 
             http_request,
@@ -637,8 +1545,32 @@ pub fn run() {
             run_ruchy_repl,
             check_tool_availability,
             check_azure_auth_status,
-            test_azure_cli
+            test_azure_cli,
+            secret_get,
+            secret_set,
+            secret_delete,
+            secret_backend_name,
+            kubeconfig_contexts,
+            kubeconfig_credentials,
+            event_stream_open,
+            event_stream_close,
+            mock_webhook_start,
+            mock_webhook_requests,
+            update_tray
         ])
+        .setup(|app| {
+            let handle = app.handle();
+            let menu = build_tray_menu(handle, &TrayState::default())?;
+            let mut tray = TrayIconBuilder::with_id(TRAY_ID)
+                .menu(&menu)
+                .tooltip("SRE IDE")
+                .on_menu_event(handle_tray_menu_event);
+            if let Some(icon) = app.default_window_icon() {
+                tray = tray.icon(icon.clone());
+            }
+            tray.build(app)?;
+            Ok(())
+        })
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { Sidebar } from './components/Sidebar'
 import { Header } from './components/Header'
 import { CloudTools } from './components/CloudTools'
@@ -6,12 +6,29 @@ import { EnhancedChat } from './components/EnhancedChat'
 import { Investigation } from './components/Investigation'
 import ToolServerManager from './components/ToolServerManager'
 import SessionAnalytics from './components/SessionAnalytics'
+import SessionBrowser from './components/SessionBrowser'
 import MemoryManager from './components/MemoryManager'
 import AlertDashboard from './components/AlertDashboard'
 import HookManager from './components/HookManager'
-import { getConfig, type KAgentConfig } from './config'
-import { KagentAPI } from './lib/kagent'
-import type { KagentAgent, KagentSession, ChatMessage } from './lib/kagent'
+import ConnectorAuthFields from './components/ConnectorAuthFields'
+import DeviceLoginDialog from './components/DeviceLoginDialog'
+import RequestInspector from './components/RequestInspector'
+import AlertToasts from './components/AlertToasts'
+import TraySync from './components/TraySync'
+import { AlertProvider } from './contexts'
+import { loadConfig, defaultKhookConfig, type KAgentConfig, type KhookConfig } from './config'
+import { KagentAPI, applyToolEvent, parseSessionAgent } from './lib/kagent'
+import { describeError } from './lib/errors'
+import {
+  exportConnectors,
+  loadActiveConnectorId,
+  loadConnectors,
+  parseConnectorImport,
+  saveActiveConnectorId,
+  saveConnectors
+} from './lib/connectorStore'
+import { getSecretBackend, type SecretBackend } from './lib/secrets'
+import type { Alert, KagentAgent, KagentSession, ChatMessage } from './lib/kagent'
 import './App.css'
 
 // UI Icons
@@ -22,7 +39,9 @@ import {
   Terminal, 
   XCircle, 
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  Download,
+  Upload
 } from 'lucide-react'
 
 // Connection status tracking
@@ -49,6 +68,9 @@ function App() {
   // Multi-connector management
   const [connectors, setConnectors] = useState<KAgentConnector[]>([])
   const [activeConnector, setActiveConnector] = useState<string | null>(null)
+  const [connectorsLoaded, setConnectorsLoaded] = useState(false)
+  const [secretBackend, setSecretBackend] = useState<SecretBackend>('session')
+  const connectorImportRef = useRef<HTMLInputElement>(null)
   
   // Debug logging
   const [debugInfo, setDebugInfo] = useState<string[]>([])
@@ -58,6 +80,11 @@ function App() {
   const [currentSession, setCurrentSession] = useState<KagentSession | null>(null)
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [isSendingMessage, setIsSendingMessage] = useState(false)
+  const [recentSessions, setRecentSessions] = useState<KagentSession[]>([])
+  const [loadingSessionId, setLoadingSessionId] = useState<string | null>(null)
+  
+  // Abort handle for the reply that is currently streaming
+  const streamAbortRef = useRef<AbortController | null>(null)
   
   // Chat history management - store chat sessions for each agent
   const [agentChatSessions, setAgentChatSessions] = useState<{
@@ -68,6 +95,13 @@ function App() {
     }
   }>({})
   
+  // Alert waiting for the Investigation tab to start its investigation
+  const [alertToInvestigate, setAlertToInvestigate] = useState<Alert | null>(null)
+  const clearAlertToInvestigate = useCallback(() => setAlertToInvestigate(null), [])
+  // Alert the dashboard should open in its detail drawer, picked from the tray
+  const [alertToOpen, setAlertToOpen] = useState<string | null>(null)
+  const clearAlertToOpen = useCallback(() => setAlertToOpen(null), [])
+  
   // Add connector modal state
   const [showAddConnector, setShowAddConnector] = useState(false)
   const [newConnectorName, setNewConnectorName] = useState('')
@@ -77,12 +111,29 @@ function App() {
     protocol: 'http',
     timeout: 30000,
     retries: 3,
-    environment: 'local'
+    environment: 'local',
+    khook: { ...defaultKhookConfig }
   })
   
+  // Connector whose OIDC device login is in progress
+  const [signInConnectorId, setSignInConnectorId] = useState<string | null>(null)
+  const signInConnector = connectors.find(c => c.id === signInConnectorId)
+  
+  // Update the khook endpoint of the connector being added
+  const updateNewConnectorKhook = (updates: Partial<KhookConfig>) => {
+    setNewConnectorConfig(prev => ({
+      ...prev,
+      khook: { ...defaultKhookConfig, ...prev.khook, ...updates }
+    }))
+  }
+  
   // Current connector and API instance
   const currentConnector = connectors.find(c => c.id === activeConnector)
-  const currentConnectorAPI = currentConnector ? new KagentAPI(currentConnector.config) : null
+  const currentConnectorConfig = currentConnector?.config
+  const currentConnectorAPI = useMemo(
+    () => currentConnectorConfig ? new KagentAPI(currentConnectorConfig) : null,
+    [currentConnectorConfig]
+  )
   
   console.log('App: Connector state', { 
     activeTab,
@@ -115,22 +166,41 @@ function App() {
     lastChecked: new Date().toLocaleTimeString()
   }
 
-  // Initialize default connector on mount
+  // Restore saved connectors on mount and reconnect the last active one
   useEffect(() => {
-    console.log('App: Initializing default connector')
-    const defaultConnector: KAgentConnector = {
-      id: 'default',
-      name: 'Default KAgent',
-      config: getConfig(),
-      status: { connected: false, lastChecked: 'Never' },
-      agents: [],
-      isActive: true
+    let cancelled = false
+    
+    const restore = async () => {
+      const stored = await loadConnectors()
+      const restored: KAgentConnector[] = stored.length > 0
+        ? stored.map(connector => ({
+            ...connector,
+            status: { connected: false, lastChecked: 'Never' },
+            agents: [],
+            isActive: false
+          }))
+        : [{
+            id: 'default',
+            name: 'Default KAgent',
+            config: await loadConfig(),
+            status: { connected: false, lastChecked: 'Never' },
+            agents: [],
+            isActive: true
+          }]
+      if (cancelled) return
+      
+      const savedActiveId = loadActiveConnectorId()
+      const active = restored.find(c => c.id === savedActiveId) || restored[0]
+      
+      setConnectors(restored.map(c => ({ ...c, isActive: c.id === active.id })))
+      setActiveConnector(active.id)
+      setConnectorsLoaded(true)
+      connectToConnector(active)
     }
-    console.log('App: Setting connectors and activeConnector', { defaultConnector })
-    setConnectors([defaultConnector])
-    setActiveConnector('default')
-    console.log('App: Calling connectToConnector')
-    connectToConnector(defaultConnector)
+    
+    restore()
+    
+    return () => { cancelled = true }
   }, [])
 
   // Debug logging utility
@@ -139,6 +209,30 @@ function App() {
     setDebugInfo(prev => [`[${timestamp}] ${message}`, ...prev.slice(0, 199)]) // Increased to 200 messages
   }, [])
 
+  // Persist connector definitions whenever they change (not on status updates)
+  const connectorDefinitions = JSON.stringify(connectors.map(({ id, name, config }) => ({ id, name, config })))
+  useEffect(() => {
+    if (!connectorsLoaded) return
+    saveConnectors(JSON.parse(connectorDefinitions)).catch(error => {
+      console.error('Failed to save connectors:', error)
+      addDebugInfo(`❌ Failed to save connectors: ${error}`)
+    })
+  }, [connectorsLoaded, connectorDefinitions, addDebugInfo])
+
+  // Show where credentials end up in the connector form
+  useEffect(() => {
+    getSecretBackend()
+      .then(setSecretBackend)
+      .catch(error => console.warn('Failed to query secret backend:', error))
+  }, [])
+
+  // Remember the active connector for the next launch
+  useEffect(() => {
+    if (connectorsLoaded) {
+      saveActiveConnectorId(activeConnector)
+    }
+  }, [connectorsLoaded, activeConnector])
+
   // Memory management - limit chat sessions to prevent memory issues
   const cleanupOldChatSessions = useCallback(() => {
     setAgentChatSessions(prev => {
@@ -242,12 +336,23 @@ function App() {
       protocol: 'http',
       timeout: 30000,
       retries: 3,
-      environment: 'local'
+      environment: 'local',
+      khook: { ...defaultKhookConfig }
     })
     
     addDebugInfo(`➕ Added new connector: ${newConnector.name}`)
   }
 
+  // Finish an OIDC sign-in, adopting the signed-in identity if none is set
+  const handleSignedIn = (connector: KAgentConnector, identity?: string) => {
+    const config = connector.config.userId || !identity ? connector.config : { ...connector.config, userId: identity }
+    const updated = { ...connector, config }
+    setConnectors(prev => prev.map(c => c.id === connector.id ? { ...c, config } : c))
+    setSignInConnectorId(null)
+    addDebugInfo(`🔑 Signed in to ${connector.name}${identity ? ` as ${identity}` : ''}`)
+    connectToConnector(updated)
+  }
+
   // Remove a connector
   const removeConnector = (connectorId: string) => {
     setConnectors(prev => prev.filter(c => c.id !== connectorId))
@@ -258,8 +363,45 @@ function App() {
     addDebugInfo(`🗑️ Removed connector: ${connectors.find(c => c.id === connectorId)?.name}`)
   }
 
-  // Start a chat session with an agent (without switching tabs)
-  const startChatWithAgentSilent = async (agent: KagentAgent) => {
+  // Download connector definitions (without credentials) as a JSON file
+  const handleExportConnectors = () => {
+    const blob = new Blob([exportConnectors(connectors)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `sre-ide-connectors-${new Date().toISOString().slice(0, 10)}.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+    addDebugInfo(`📤 Exported ${connectors.length} connectors`)
+  }
+
+  // Add connectors from a shared JSON file
+  const handleImportConnectors = async (file: File) => {
+    try {
+      const imported = parseConnectorImport(await file.text())
+      const newConnectors: KAgentConnector[] = imported.map((connector, index) => ({
+        id: `connector-${Date.now()}-${index}`,
+        name: connectors.some(c => c.name === connector.name) ? `${connector.name} (imported)` : connector.name,
+        config: connector.config,
+        status: { connected: false, lastChecked: 'Never' },
+        agents: [],
+        isActive: false
+      }))
+      setConnectors(prev => [...prev, ...newConnectors])
+      addDebugInfo(`📥 Imported ${newConnectors.length} connectors from ${file.name}`)
+      newConnectors.forEach(connector => connectToConnector(connector))
+    } catch (error) {
+      console.error('Failed to import connectors:', error)
+      addDebugInfo(`❌ Failed to import connectors: ${error instanceof Error ? error.message : error}`)
+      alert(`Failed to import connectors: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  // Start a chat session with an agent (without switching tabs), optionally
+  // sending a first message into it
+  const startChatWithAgentSilent = async (agent: KagentAgent, initialMessage?: string) => {
     if (!currentConnectorAPI) {
       addDebugInfo('❌ No active connector available')
       return
@@ -271,10 +413,12 @@ function App() {
       
       // Check if we already have a chat session for this agent
       const existingSession = agentChatSessions[agent.name]
+      let session: KagentSession
       
       if (existingSession) {
         // Restore existing session
         addDebugInfo(`🔄 Restoring existing chat session for ${agent.name}`)
+        session = existingSession.session
         setCurrentSession(existingSession.session)
         setChatMessages(existingSession.messages)
         addDebugInfo(`✅ Restored chat session with ${existingSession.messages.length} messages`)
@@ -283,7 +427,7 @@ function App() {
         const sessionName = `Chat with ${agent.name} - ${new Date().toLocaleString()}`
         addDebugInfo(`Creating new session: ${sessionName}`)
         
-        const session = await currentConnectorAPI.createSessionWithName(agent.name, sessionName)
+        session = await currentConnectorAPI.createSessionWithName(agent.name, sessionName)
         addDebugInfo(`Session created: ${session?.id || 'No ID'}`)
         setCurrentSession(session)
         
@@ -303,6 +447,10 @@ function App() {
         
         addDebugInfo(`✅ New chat session created: ${session.id}`)
       }
+      
+      if (initialMessage) {
+        await sendChatMessage(session, agent, initialMessage)
+      }
       // Don't switch tabs - keep current tab active
     } catch (error) {
       console.error('Failed to start chat:', error)
@@ -319,21 +467,125 @@ function App() {
     }
   }
 
+  // Work out which agent a stored session belongs to
+  const findAgentForSession = (session: KagentSession): KagentAgent | undefined => {
+    const { namespace, name } = parseSessionAgent(session)
+    return allAgents.find(a => a.name === name && a.namespace === namespace)
+  }
+
+  // Reopen a past session and restore its transcript from the server
+  const resumeSession = async (session: KagentSession) => {
+    if (!currentConnectorAPI) {
+      addDebugInfo('❌ No active connector available')
+      return
+    }
+    
+    const agent = findAgentForSession(session)
+    if (!agent) {
+      addDebugInfo(`❌ Agent for session ${session.name || session.id} is not available on this connector`)
+      return
+    }
+    
+    setLoadingSessionId(session.id)
+    try {
+      addDebugInfo(`🔄 Loading history for session ${session.name || session.id}`)
+      const messages = await currentConnectorAPI.getSessionMessages(session.id)
+      setSelectedAgent(agent)
+      setCurrentSession(session)
+      setChatMessages(messages)
+      setAgentChatSessions(prev => ({
+        ...prev,
+        [agent.name]: {
+          session,
+          messages,
+          lastActive: new Date().toISOString()
+        }
+      }))
+      setActiveTab('chat')
+      addDebugInfo(`✅ Restored ${messages.length} messages from session ${session.id}`)
+    } catch (error) {
+      console.error('Failed to load session history:', error)
+      addDebugInfo(`❌ Failed to load session history: ${error}`)
+    } finally {
+      setLoadingSessionId(null)
+    }
+  }
+
+  // Refresh the past sessions shown in the chat picker
+  useEffect(() => {
+    if (activeTab !== 'chat' || currentSession || !currentConnectorAPI) return
+    
+    let cancelled = false
+    currentConnectorAPI.getSessions().then(sessions => {
+      if (cancelled) return
+      setRecentSessions([...sessions]
+        .sort((a, b) => (b.last_update_time || '').localeCompare(a.last_update_time || ''))
+        .slice(0, 10))
+    }).catch(error => {
+      addDebugInfo(`❌ Failed to load recent sessions: ${error}`)
+    })
+    return () => { cancelled = true }
+  }, [activeTab, currentSession, currentConnectorAPI, addDebugInfo])
+
+  // Keep the active chat in sync when a session is renamed in the browser
+  const handleSessionRenamed = (session: KagentSession) => {
+    setCurrentSession(prev => prev?.id === session.id ? session : prev)
+    setAgentChatSessions(prev => Object.fromEntries(Object.entries(prev).map(([agentName, entry]) => [
+      agentName,
+      entry.session?.id === session.id ? { ...entry, session } : entry
+    ])))
+  }
+
+  // Forget a deleted session, closing it if it is the active chat
+  const handleSessionDeleted = (sessionId: string) => {
+    if (currentSession?.id === sessionId) {
+      clearChatSession()
+    }
+    setAgentChatSessions(prev => Object.fromEntries(
+      Object.entries(prev).filter(([, entry]) => entry.session?.id !== sessionId)
+    ))
+    setRecentSessions(prev => prev.filter(s => s.id !== sessionId))
+    addDebugInfo(`🗑️ Deleted session ${sessionId}`)
+  }
+
   // Start a chat session with an agent (and switch to chat tab)
   const startChatWithAgent = async (agent: KagentAgent) => {
     await startChatWithAgentSilent(agent)
     setActiveTab('chat')
   }
 
-  // Send a message to the current chat session
-  const handleSendMessage = async (message: string) => {
-    if (!currentSession || !selectedAgent || !currentConnectorAPI) {
+  // Store a message in the per-agent chat history, replacing an earlier copy
+  const upsertAgentChatMessage = useCallback((agentName: string, message: ChatMessage) => {
+    try {
+      setAgentChatSessions(prev => {
+        const existing = prev[agentName]?.messages || []
+        const messages = existing.some(m => m.id === message.id)
+          ? existing.map(m => m.id === message.id ? message : m)
+          : [...existing, message]
+        return {
+          ...prev,
+          [agentName]: {
+            ...prev[agentName],
+            messages,
+            lastActive: new Date().toISOString()
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Error updating agent chat sessions:', error)
+      addDebugInfo(`❌ Error updating chat history: ${error}`)
+    }
+  }, [addDebugInfo])
+
+  // Send a message to a session and stream the agent reply into the chat
+  const sendChatMessage = async (session: KagentSession, agent: KagentAgent, message: string) => {
+    if (!currentConnectorAPI) {
       addDebugInfo(`❌ Cannot send message: missing session, agent, or API`)
       return
     }
     
     setIsSendingMessage(true)
-    addDebugInfo(`📤 Sending message to ${selectedAgent.name}: ${message.substring(0, 50)}...`)
+    addDebugInfo(`📤 Sending message to ${agent.name}: ${message.substring(0, 50)}...`)
     
     // Add user message immediately for better UX
     const userMessage: ChatMessage = {
@@ -341,74 +593,136 @@ function App() {
       role: 'user',
       content: message,
       timestamp: new Date().toISOString(),
-      sessionId: currentSession.id
+      sessionId: session.id
     }
     setChatMessages(prev => [...prev, userMessage])
+    upsertAgentChatMessage(agent.name, userMessage)
     
-    // Update the stored chat history for this agent with user message
-    if (selectedAgent) {
-      try {
-        setAgentChatSessions(prev => ({
-          ...prev,
-          [selectedAgent.name]: {
-            ...prev[selectedAgent.name],
-            messages: [...(prev[selectedAgent.name]?.messages || []), userMessage],
-            lastActive: new Date().toISOString()
-          }
-        }))
-      } catch (error) {
-        console.error('Error updating agent chat sessions:', error)
-        addDebugInfo(`❌ Error updating chat history: ${error}`)
-      }
+    // Placeholder reply that is filled in as stream events arrive
+    let reply: ChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date().toISOString(),
+      sessionId: session.id,
+      isStreaming: true
     }
+    const publishReply = (updates: Partial<ChatMessage>) => {
+      reply = { ...reply, ...updates }
+      const snapshot = reply
+      setChatMessages(prev => prev.some(m => m.id === snapshot.id)
+        ? prev.map(m => m.id === snapshot.id ? snapshot : m)
+        : [...prev, snapshot])
+    }
+    publishReply({})
+    
+    // Complete agent messages plus the delta text of the one in progress
+    const completedTexts: string[] = []
+    let partialText = ''
+    const currentText = () => [...completedTexts, partialText].filter(Boolean).join('\n\n')
+    
+    const controller = new AbortController()
+    streamAbortRef.current = controller
     
     try {
-      const response = await currentConnectorAPI.sendMessage(currentSession.id, message)
-      
-      // Convert API response to chat message format
-      const chatMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.message || 'No response received',
-        timestamp: response.timestamp || new Date().toISOString(),
-        sessionId: currentSession.id
-      }
-      setChatMessages(prev => [...prev, chatMessage])
-      
-      // Update the stored chat history for this agent
-      if (selectedAgent) {
-        try {
-          setAgentChatSessions(prev => ({
-            ...prev,
-            [selectedAgent.name]: {
-              ...prev[selectedAgent.name],
-              messages: [...(prev[selectedAgent.name]?.messages || []), userMessage, chatMessage],
-              lastActive: new Date().toISOString()
-            }
-          }))
-        } catch (error) {
-          console.error('Error updating agent chat sessions:', error)
-          addDebugInfo(`❌ Error updating chat history: ${error}`)
+      for await (const event of currentConnectorAPI.streamMessage(session.id, message, controller.signal)) {
+        if (event.kind === 'text') {
+          if (event.partial) {
+            partialText += event.text
+          } else {
+            completedTexts.push(event.text)
+            partialText = ''
+          }
+          publishReply({ content: currentText() })
+        } else if (event.kind === 'tool_call' || event.kind === 'tool_result') {
+          publishReply({ toolCalls: applyToolEvent(reply.toolCalls || [], event, new Date().toISOString()) })
+        } else if (event.kind === 'status') {
+          publishReply({ taskState: event.state })
+        } else if (event.kind === 'artifact') {
+          const artifactId = event.artifactId || `artifact-${(reply.artifacts || []).length}`
+          const existing = (reply.artifacts || []).find(a => a.id === artifactId)
+          const artifact = {
+            id: artifactId,
+            name: event.name || existing?.name,
+            text: event.append && existing ? existing.text + event.text : event.text
+          }
+          publishReply({
+            artifacts: existing
+              ? (reply.artifacts || []).map(a => a.id === artifactId ? artifact : a)
+              : [...(reply.artifacts || []), artifact]
+          })
         }
       }
       
+      publishReply({
+        content: currentText() || 'No response received',
+        isStreaming: false
+      })
       addDebugInfo(`✅ Message sent successfully`)
     } catch (error) {
-      console.error('Failed to send message:', error)
-      addDebugInfo(`❌ Failed to send message: ${error}`)
-      
-      // Show error message to user
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error while processing your message. Please try again.',
-        timestamp: new Date().toISOString(),
-        sessionId: currentSession.id
+      if (controller.signal.aborted) {
+        const partial = currentText()
+        publishReply({
+          content: partial ? `${partial}\n\n_Reply cancelled._` : '_Reply cancelled._',
+          isStreaming: false
+        })
+        addDebugInfo(`⏹️ Reply from ${agent.name} cancelled`)
+      } else {
+        const errorInfo = describeError(error)
+        console.error('Failed to send message:', error)
+        addDebugInfo(`❌ Failed to send message (${errorInfo.kind}): ${errorInfo.message}`)
+        
+        // Keep whatever arrived and show the failure with a retry option
+        publishReply({
+          content: currentText(),
+          isStreaming: false,
+          error: errorInfo
+        })
       }
-      setChatMessages(prev => [...prev, errorMessage])
     } finally {
+      streamAbortRef.current = null
       setIsSendingMessage(false)
+      upsertAgentChatMessage(agent.name, reply)
+    }
+  }
+
+  // Send a message to the current chat session
+  const handleSendMessage = async (message: string) => {
+    if (!currentSession || !selectedAgent || !currentConnectorAPI) {
+      addDebugInfo(`❌ Cannot send message: missing session, agent, or API`)
+      return
     }
+    
+    await sendChatMessage(currentSession, selectedAgent, message)
+  }
+
+  // Drop a failed reply and the message that triggered it, then send that message again
+  const handleRetryMessage = async (messageId: string) => {
+    if (!currentSession || !selectedAgent || isSendingMessage) return
+    
+    const index = chatMessages.findIndex(m => m.id === messageId)
+    const userMessage = chatMessages.slice(0, index).reverse().find(m => m.role === 'user')
+    if (index < 0 || !userMessage) return
+    
+    const removedIds = new Set([messageId, userMessage.id])
+    setChatMessages(prev => prev.filter(m => !removedIds.has(m.id)))
+    setAgentChatSessions(prev => prev[selectedAgent.name]
+      ? {
+          ...prev,
+          [selectedAgent.name]: {
+            ...prev[selectedAgent.name],
+            messages: prev[selectedAgent.name].messages.filter(m => !removedIds.has(m.id))
+          }
+        }
+      : prev)
+    addDebugInfo(`🔁 Retrying message to ${selectedAgent.name}`)
+    
+    await sendChatMessage(currentSession, selectedAgent, userMessage.content)
+  }
+
+  // Stop the reply that is currently streaming
+  const handleCancelMessage = () => {
+    streamAbortRef.current?.abort()
   }
 
   // Search functionality placeholder
@@ -453,22 +767,14 @@ function App() {
       const messages = await currentConnectorAPI.getSessionMessages(session.id)
       setChatMessages(messages)
       
-      // If we have an initial message, send it immediately
-      if (initialMessage) {
-        try {
-          await currentConnectorAPI.sendMessage(session.id, initialMessage)
-          // Refresh messages to show the initial message
-          const updatedMessages = await currentConnectorAPI.getSessionMessages(session.id)
-          setChatMessages(updatedMessages)
-          addDebugInfo(`📤 Sent initial alert context message`)
-        } catch (error) {
-          console.error('Failed to send initial message:', error)
-          addDebugInfo(`❌ Failed to send initial message: ${error}`)
-        }
-      }
-      
       addDebugInfo(`✅ Standalone chat session created: ${session.id}`)
       setActiveTab('chat')
+      
+      // If we have an initial message, stream it into the new chat
+      if (initialMessage) {
+        await sendChatMessage(session, agent, initialMessage)
+        addDebugInfo(`📤 Sent initial alert context message`)
+      }
     } catch (error) {
       console.error('Failed to start standalone chat:', error)
       addDebugInfo(`❌ Failed to start standalone chat: ${error}`)
@@ -553,9 +859,30 @@ Please analyze this alert and provide recommendations for resolution. The alert
     }
   }
 
+  // Investigate action on alert notifications
+  const investigateAlert = (alert: Alert) => startChatWithAgentById(alert.agentId, alert)
 
-  return (
+  // Hand an alert to the Investigation tab, which starts the multi-agent
+  // investigation its event type maps to
+  const startAlertInvestigation = (alert: Alert) => {
+    setAlertToInvestigate(alert)
+    setActiveTab('investigate')
+  }
+
+
+  const app = (
     <div className="app-container">
+      <AlertToasts onInvestigate={investigateAlert} />
+      <TraySync
+        connectors={connectors.map(c => ({ id: c.id, name: c.name, active: c.id === activeConnector, connected: c.status.connected }))}
+        kagentApi={currentConnectorAPI}
+        onOpenDashboard={() => setActiveTab('alerts')}
+        onOpenAlert={(alertId) => {
+          setAlertToOpen(alertId)
+          setActiveTab('alerts')
+        }}
+        onSwitchConnector={setActiveConnector}
+      />
       <Sidebar 
         activeTab={activeTab} 
         onTabChange={(tab) => {
@@ -580,13 +907,42 @@ Please analyze this alert and provide recommendations for resolution. The alert
                   <div className="card">
                     <div className="card-header">
                       <h2 className="card-title">KAgent Connectors</h2>
-                      <button
-                        onClick={() => setShowAddConnector(true)}
-                        className="btn btn-primary"
-                      >
-                        <MessageSquare className="icon-sm" />
-                        Add Connector
-                      </button>
+                      <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                        <input
+                          ref={connectorImportRef}
+                          type="file"
+                          accept="application/json,.json"
+                          style={{ display: 'none' }}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) handleImportConnectors(file)
+                            e.target.value = ''
+                          }}
+                        />
+                        <button
+                          onClick={() => connectorImportRef.current?.click()}
+                          className="btn btn-ghost"
+                          title="Import connectors from a JSON file"
+                        >
+                          <Upload className="icon-sm" />
+                          Import
+                        </button>
+                        <button
+                          onClick={handleExportConnectors}
+                          className="btn btn-ghost"
+                          title="Export connectors to a JSON file (tokens and passwords are not included)"
+                        >
+                          <Download className="icon-sm" />
+                          Export
+                        </button>
+                        <button
+                          onClick={() => setShowAddConnector(true)}
+                          className="btn btn-primary"
+                        >
+                          <MessageSquare className="icon-sm" />
+                          Add Connector
+                        </button>
+                      </div>
                     </div>
                     <div className="grid grid-cols-1 gap-3">
                       {connectors.map((connector) => (
@@ -634,7 +990,7 @@ Please analyze this alert and provide recommendations for resolution. The alert
                                 color: 'var(--color-text-muted)',
                                 fontFamily: 'var(--font-family-primary)'
                               }}>
-                                {connector.agents.length} agents • {connector.status.connected ? 'Connected' : 'Disconnected'}
+                                {connector.agents.length} agents • {connector.status.connected ? 'Connected' : 'Disconnected'} • as {connector.config.userId || 'admin@kagent.dev'}
                               </p>
                             </div>
                             <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
@@ -647,6 +1003,15 @@ Please analyze this alert and provide recommendations for resolution. The alert
                                   Activate
                                 </button>
                               )}
+                              {connector.config.auth?.type === 'oidc' && connector.config.auth.oidc && (
+                                <button
+                                  onClick={() => setSignInConnectorId(connector.id)}
+                                  className="btn btn-ghost"
+                                  style={{ fontSize: '0.75rem' }}
+                                >
+                                  Sign in
+                                </button>
+                              )}
                               <button
                                 onClick={() => connectToConnector(connector)}
                                 className="btn btn-ghost"
@@ -885,11 +1250,14 @@ Please analyze this alert and provide recommendations for resolution. The alert
                       selectedAgent={selectedAgent}
                       messages={chatMessages}
                       onSendMessage={handleSendMessage}
+                      onCancelMessage={handleCancelMessage}
+                      onRetryMessage={handleRetryMessage}
                       isSending={isSendingMessage}
                       onDebugInfo={addDebugInfo}
                     />
                   </div>
                 ) : (
+                  <>
                   <div className="card">
                     <div className="card-header">
                       <h2 className="card-title">Start a Chat Session</h2>
@@ -994,6 +1362,51 @@ Please analyze this alert and provide recommendations for resolution. The alert
                       </div>
                     )}
                   </div>
+                  {recentSessions.length > 0 && (
+                    <div className="card" style={{ marginTop: 'var(--spacing-lg)' }}>
+                      <div className="card-header">
+                        <h2 className="card-title">Recent Sessions</h2>
+                      </div>
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                        {recentSessions.map((session) => {
+                          const agent = findAgentForSession(session)
+                          return (
+                            <button
+                              key={session.id}
+                              onClick={() => resumeSession(session)}
+                              disabled={!agent || loadingSessionId !== null}
+                              className="btn btn-ghost"
+                              style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                gap: 'var(--spacing-md)',
+                                padding: 'var(--spacing-sm) var(--spacing-md)',
+                                textAlign: 'left'
+                              }}
+                              title={agent ? 'Resume this session' : 'Agent not available on this connector'}
+                            >
+                              <span style={{ display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+                                <span style={{ fontSize: '0.875rem', color: 'var(--color-text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                  {session.name || session.id}
+                                </span>
+                                <span style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', fontFamily: 'var(--font-family-primary)' }}>
+                                  {agent ? `${agent.namespace}/${agent.name}` : session.agent_ref || session.agent_id || 'unknown agent'}
+                                </span>
+                              </span>
+                              <span style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-text-muted)', flexShrink: 0 }}>
+                                {loadingSessionId === session.id
+                                  ? 'Loading...'
+                                  : session.last_update_time && new Date(session.last_update_time).toLocaleString()}
+                                <Clock style={{ width: '0.75rem', height: '0.75rem' }} />
+                              </span>
+                            </button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+                  </>
                 )}
               </div>
             )}
@@ -1010,6 +1423,19 @@ Please analyze this alert and provide recommendations for resolution. The alert
               </div>
             )}
 
+            {activeTab === 'sessions' && currentConnectorAPI && (
+              <div className="slide-in-right">
+                <SessionBrowser
+                  kagentApi={currentConnectorAPI}
+                  agents={allAgents}
+                  currentSessionId={currentSession?.id}
+                  onResumeSession={resumeSession}
+                  onSessionRenamed={handleSessionRenamed}
+                  onSessionDeleted={handleSessionDeleted}
+                />
+              </div>
+            )}
+
             {activeTab === 'analytics' && currentConnectorAPI && (
               <div className="slide-in-right">
                 <SessionAnalytics kagentApi={currentConnectorAPI} />
@@ -1029,6 +1455,9 @@ Please analyze this alert and provide recommendations for resolution. The alert
                   <AlertDashboard 
                     kagentApi={currentConnectorAPI} 
                     onStartChatWithAgent={startChatWithAgentById}
+                    onInvestigateAlert={startAlertInvestigation}
+                    alertToOpen={alertToOpen}
+                    onAlertOpened={clearAlertToOpen}
                   />
                 </div>
               )
@@ -1077,6 +1506,8 @@ Please analyze this alert and provide recommendations for resolution. The alert
                   onDebugInfo={addDebugInfo}
                   chatMessages={chatMessages}
                   agentChatSessions={agentChatSessions}
+                  alertToInvestigate={alertToInvestigate}
+                  onAlertInvestigationStarted={clearAlertToInvestigate}
                 />
               </div>
             )}
@@ -1185,6 +1616,9 @@ Please analyze this alert and provide recommendations for resolution. The alert
                     )}
                   </div>
                 </div>
+                <div style={{ marginTop: 'var(--spacing-lg)' }}>
+                  <RequestInspector />
+                </div>
               </div>
             )}
 
@@ -1406,6 +1840,15 @@ Please analyze this alert and provide recommendations for resolution. The alert
         </main>
       </div>
 
+      {signInConnector?.config.auth?.oidc && (
+        <DeviceLoginDialog
+          connectorName={signInConnector.name}
+          oidc={signInConnector.config.auth.oidc}
+          onSignedIn={(identity) => handleSignedIn(signInConnector, identity)}
+          onClose={() => setSignInConnectorId(null)}
+        />
+      )}
+
       {showAddConnector && (
         <div className="modal-overlay">
           <div className="modal-content">
@@ -1487,6 +1930,90 @@ Please analyze this alert and provide recommendations for resolution. The alert
                   <option value="production">Production</option>
                 </select>
               </div>
+              <ConnectorAuthFields
+                config={newConnectorConfig}
+                onChange={(updates) => setNewConnectorConfig(prev => ({ ...prev, ...updates }))}
+              />
+              <div className="form-group">
+                <label>CA Certificate (PEM):</label>
+                <textarea
+                  value={newConnectorConfig.tls?.caCert || ''}
+                  onChange={(e) => setNewConnectorConfig(prev => ({
+                    ...prev,
+                    tls: { ...prev.tls, caCert: e.target.value || undefined }
+                  }))}
+                  className="input"
+                  rows={3}
+                  placeholder="-----BEGIN CERTIFICATE----- (optional, desktop app only)"
+                  style={{ fontFamily: 'var(--font-family-primary)', fontSize: '0.75rem' }}
+                />
+              </div>
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                  <input
+                    type="checkbox"
+                    checked={newConnectorConfig.tls?.insecureSkipVerify || false}
+                    onChange={(e) => setNewConnectorConfig(prev => ({
+                      ...prev,
+                      tls: { ...prev.tls, insecureSkipVerify: e.target.checked }
+                    }))}
+                  />
+                  Skip TLS certificate verification (insecure)
+                </label>
+              </div>
+              <p style={{ margin: '0 0 var(--spacing-md)', fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                {secretBackend === 'session'
+                  ? 'Credentials are kept for this browser session only.'
+                  : `Credentials are stored in the ${secretBackend === 'keychain' ? 'OS keychain' : 'encrypted secrets file'}.`}
+              </p>
+              <h3 style={{ fontSize: '0.875rem', fontWeight: '600', margin: 'var(--spacing-md) 0 var(--spacing-sm)' }}>
+                khook Endpoint (hooks and alerts)
+              </h3>
+              <div className="form-group">
+                <label>khook URL:</label>
+                <input
+                  type="text"
+                  value={newConnectorConfig.khook?.url || ''}
+                  onChange={(e) => updateNewConnectorKhook({ url: e.target.value })}
+                  className="input"
+                  placeholder="e.g., https://khook.example.com"
+                />
+              </div>
+              <div className="form-group">
+                <label>khook Token:</label>
+                <input
+                  type="password"
+                  value={newConnectorConfig.khook?.token || ''}
+                  onChange={(e) => updateNewConnectorKhook({ token: e.target.value || undefined })}
+                  className="input"
+                  placeholder="Bearer token (optional)"
+                />
+              </div>
+              <div className="form-group">
+                <label>khook CA Certificate (PEM):</label>
+                <textarea
+                  value={newConnectorConfig.khook?.tls?.caCert || ''}
+                  onChange={(e) => updateNewConnectorKhook({
+                    tls: { ...newConnectorConfig.khook?.tls, caCert: e.target.value || undefined }
+                  })}
+                  className="input"
+                  rows={3}
+                  placeholder="-----BEGIN CERTIFICATE----- (optional, desktop app only)"
+                  style={{ fontFamily: 'var(--font-family-primary)', fontSize: '0.75rem' }}
+                />
+              </div>
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                  <input
+                    type="checkbox"
+                    checked={newConnectorConfig.khook?.tls?.insecureSkipVerify || false}
+                    onChange={(e) => updateNewConnectorKhook({
+                      tls: { ...newConnectorConfig.khook?.tls, insecureSkipVerify: e.target.checked }
+                    })}
+                  />
+                  Skip TLS certificate verification (insecure)
+                </label>
+              </div>
               <button type="submit" className="btn btn-primary">Add Connector</button>
               <button type="button" className="btn btn-ghost" onClick={() => setShowAddConnector(false)}>Cancel</button>
             </form>
@@ -1495,6 +2022,13 @@ Please analyze this alert and provide recommendations for resolution. The alert
       )}
     </div>
   )
+
+  // Alerts stream from the active connector whichever tab is open
+  return (
+    <AlertProvider kagentApi={currentConnectorAPI} onInvestigate={investigateAlert}>
+      {app}
+    </AlertProvider>
+  )
 }
 
 // Helper Components
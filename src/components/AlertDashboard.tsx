@@ -1,6 +1,16 @@
-import { useState, useEffect } from 'react'
-import { KagentAPI, type Alert, type AlertSummary } from '../lib/kagent'
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { KagentAPI, type Alert } from '../lib/kagent'
+import { getEventType, withEventTypes } from '../lib/eventTypes'
 import NotificationSettings from './NotificationSettings'
+import EventTypeIcon from './EventTypeIcon'
+import { ALERT_GROUP_BY_OPTIONS, groupAlerts, workloadName, type AlertGroup, type AlertGroupBy } from '../lib/alertGrouping'
+import { findSilence, getSilences, isSilenced, matchersForAlert, matchersForWorkload, silenceState, subscribeToSilences, withoutSilenced, type SilenceMatcher } from '../lib/silences'
+import SilencesPanel from './SilencesPanel'
+import AlertDetailDrawer from './AlertDetailDrawer'
+import AlertTimeline from './AlertTimeline'
+import { useAlerts } from '../contexts'
+import { alertInWindow, type AlertTimeRange, type TimeWindow } from '../lib/alertHistory'
+import { findAlertInvestigation, getAlertInvestigations, subscribeToAlertInvestigations } from '../lib/alertInvestigations'
 import { 
   Bell, 
   AlertTriangle, 
@@ -16,124 +26,60 @@ import {
   Activity,
   Minus,
   Settings,
-  MessageSquare
+  MessageSquare,
+  ChevronDown,
+  ChevronRight,
+  Layers,
+  BellOff,
+  Users,
+  FileText,
+  History
 } from 'lucide-react'
 
 interface AlertDashboardProps {
   kagentApi: KagentAPI
   onStartChatWithAgent?: (agentId: string, alert?: Alert) => void
+  // Starts the multi-agent investigation for the alert's event type
+  onInvestigateAlert?: (alert: Alert) => void
+  // Alert to show in the detail drawer, e.g. one picked from the tray
+  alertToOpen?: string | null
+  onAlertOpened?: () => void
 }
 
-export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: AlertDashboardProps) {
+export default function AlertDashboard({ kagentApi, onStartChatWithAgent, onInvestigateAlert, alertToOpen, onAlertOpened }: AlertDashboardProps) {
   
-  const [alerts, setAlerts] = useState<Alert[]>([])
-  const [summary, setSummary] = useState<AlertSummary | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  // Alerts and the alert stream live in AlertContext so they keep updating on other tabs
+  const { state: { alerts, summary, isLoading: loading, error, isStreaming }, actions } = useAlerts()
+  const setError = actions.setError
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [filter, setFilter] = useState<'all' | 'firing' | 'resolved'>('all')
   const [severityFilter, setSeverityFilter] = useState<'all' | 'critical' | 'high' | 'medium' | 'low'>('all')
+  const [eventTypeFilter, setEventTypeFilter] = useState<string>('all')
   const [searchTerm, setSearchTerm] = useState('')
   const [showResolved, setShowResolved] = useState(false)
-  const [eventSource, setEventSource] = useState<EventSource | null>(null)
-  const [isStreaming, setIsStreaming] = useState(false)
   const [showNotificationSettings, setShowNotificationSettings] = useState(false)
-
+  const [groupBy, setGroupBy] = useState<AlertGroupBy>(() => 
+    (localStorage.getItem('sre-ide-alert-group-by') as AlertGroupBy | null) || 'workload'
+  )
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
+  const silences = useSyncExternalStore(subscribeToSilences, getSilences)
+  const investigations = useSyncExternalStore(subscribeToAlertInvestigations, getAlertInvestigations)
+  // Alert shown in the detail drawer; looked up by id so it follows the stream
+  const [detailAlertId, setDetailAlertId] = useState<string | null>(null)
+  const detailAlert = detailAlertId ? alerts.find(alert => alert.id === detailAlertId) : undefined
   useEffect(() => {
-    loadData()
-    // Start streaming automatically
-    startStreaming()
-    
-    return () => {
-      if (eventSource) {
-        eventSource.close()
-      }
-    }
-  }, [])
-
-  const loadData = async (isRefresh = false) => {
-    try {
-      if (!isRefresh) {
-        setLoading(true)
-      }
-      setError(null)
-      
-      // Load alerts and summary in parallel with better error handling
-      const [alertsData, summaryData] = await Promise.all([
-        kagentApi.getAlerts().catch((err) => {
-          console.error('AlertDashboard: Failed to load alerts:', err)
-          return []
-        }),
-        kagentApi.getAlertSummary().catch((err) => {
-          console.error('AlertDashboard: Failed to load alert summary:', err)
-          return null
-        })
-      ])
-      
-      
-      setAlerts(alertsData)
-      setSummary(summaryData)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load alert data'
-      setError(errorMessage)
-      console.error('Failed to load alert data:', err)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const startStreaming = async () => {
-    try {
-      if (eventSource) {
-        eventSource.close()
-      }
-
-      const stream = await kagentApi.subscribeToAlerts(
-        (alert) => {
-          setAlerts(prev => {
-            // Update existing alert or add new one
-            const existingIndex = prev.findIndex(a => a.id === alert.id)
-            if (existingIndex >= 0) {
-              const updated = [...prev]
-              updated[existingIndex] = alert
-              return updated
-            } else {
-              return [alert, ...prev]
-            }
-          })
-          
-          // Show browser notification for critical alerts
-          if (alert.severity === 'critical' && alert.status === 'firing') {
-            if (Notification.permission === 'granted') {
-              new Notification(`Critical Alert: ${alert.eventType}`, {
-                body: `${alert.resourceName} in ${alert.namespace}`,
-                icon: '/vite.svg'
-              })
-            }
-          }
-        },
-        (error) => {
-          console.error('Alert stream error:', error)
-          setIsStreaming(false)
-        }
-      )
-
-      setEventSource(stream)
-      setIsStreaming(true)
-    } catch (err) {
-      console.error('Failed to start alert streaming:', err)
-      setIsStreaming(false)
-    }
-  }
-
-  // const stopStreaming = () => {
-  //   if (eventSource) {
-  //     eventSource.close()
-  //     setEventSource(null)
-  //     setIsStreaming(false)
-  //   }
-  // }
-
+    if (!alertToOpen) return
+    setDetailAlertId(alertToOpen)
+    onAlertOpened?.()
+  }, [alertToOpen, onAlertOpened])
+  const [showSilenced, setShowSilenced] = useState(false)
+  // Open silences panel, optionally with a new silence for these matchers
+  const [silencePanel, setSilencePanel] = useState<{ matchers?: SilenceMatcher[] } | null>(null)
+  const [timeRange, setTimeRange] = useState<AlertTimeRange>(() =>
+    (localStorage.getItem('sre-ide-alert-time-range') as AlertTimeRange | null) || '24h'
+  )
+  // Timeline bucket the list is filtered to
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(null)
   const handleStartChatWithAgent = (agentId: string, alert?: Alert) => {
     if (onStartChatWithAgent) {
       onStartChatWithAgent(agentId, alert)
@@ -153,15 +99,23 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
     return agentId
   }
 
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      setActionLoading(alertId)
+      await actions.acknowledgeAlert(alertId)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to acknowledge alert'
+      setError(errorMessage)
+      console.error('Failed to acknowledge alert:', err)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   const handleResolve = async (alertId: string) => {
     try {
       setActionLoading(alertId)
-      await kagentApi.resolveAlert(alertId)
-      setAlerts(prev => prev.map(alert => 
-        alert.id === alertId 
-          ? { ...alert, status: 'resolved' as const }
-          : alert
-      ))
+      await actions.resolveAlert(alertId)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to resolve alert'
       setError(errorMessage)
@@ -172,6 +126,68 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
   }
 
 
+  // Acknowledge or resolve every open alert in a group; alerts that fail keep their status
+  const handleGroupAction = async (group: AlertGroup, action: 'acknowledge' | 'resolve') => {
+    const targets = group.alerts.filter(alert => 
+      action === 'resolve' ? alert.status !== 'resolved' : alert.status === 'firing'
+    )
+
+    setActionLoading(group.key)
+    const results = await Promise.allSettled(targets.map(alert => 
+      action === 'resolve' ? actions.resolveAlert(alert.id) : actions.acknowledgeAlert(alert.id)
+    ))
+
+    const failed = results.filter(result => result.status === 'rejected').length
+    if (failed > 0) {
+      setError(`Failed to ${action} ${failed} of ${targets.length} alerts in ${group.label}`)
+    }
+    setActionLoading(null)
+  }
+
+  // Matchers covering a whole group, for silencing it
+  const groupMatchers = (group: AlertGroup): SilenceMatcher[] => {
+    const first = group.alerts[0]
+    switch (groupBy) {
+      case 'workload':
+        return matchersForWorkload(first.namespace, workloadName(first.resourceName))
+      case 'hook':
+        return [
+          { field: 'namespace', value: first.namespace, isRegex: false },
+          { field: 'hookName', value: first.hookName, isRegex: false }
+        ]
+      case 'namespace':
+        return [{ field: 'namespace', value: first.namespace, isRegex: false }]
+      case 'eventType':
+        return [{ field: 'eventType', value: first.eventType, isRegex: false }]
+      default:
+        return matchersForAlert(first)
+    }
+  }
+
+  const changeTimeRange = (value: AlertTimeRange) => {
+    setTimeRange(value)
+    setTimeWindow(null)
+    localStorage.setItem('sre-ide-alert-time-range', value)
+  }
+
+  const changeGroupBy = (value: AlertGroupBy) => {
+    setGroupBy(value)
+    setExpandedGroups(new Set())
+    localStorage.setItem('sre-ide-alert-group-by', value)
+  }
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -214,15 +230,413 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
   const filteredAlerts = alerts.filter(alert => {
     const matchesFilter = filter === 'all' || alert.status === filter
     const matchesSeverity = severityFilter === 'all' || alert.severity === severityFilter
+    const matchesEventType = eventTypeFilter === 'all' || alert.eventType === eventTypeFilter
     const matchesSearch = searchTerm === '' || 
       alert.resourceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
       alert.namespace.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      alert.eventType.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesResolved = showResolved || alert.status !== 'resolved'
+      alert.eventType.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      getEventType(alert.eventType).label.toLowerCase().includes(searchTerm.toLowerCase())
+    // A picked time bucket shows what was active then, resolved or not
+    const matchesResolved = showResolved || timeWindow !== null || alert.status !== 'resolved'
+    const matchesSilenced = showSilenced || !isSilenced(alert, silences)
+    const matchesTime = !timeWindow || alertInWindow(alert, timeWindow)
     
-    return matchesFilter && matchesSeverity && matchesSearch && matchesResolved
+    return matchesFilter && matchesSeverity && matchesEventType && matchesSearch && matchesResolved && matchesSilenced && matchesTime
   })
 
+  const timelineAlerts = showSilenced ? alerts : alerts.filter(alert => !isSilenced(alert, silences))
+
+  const alertGroups = groupBy === 'none' ? [] : groupAlerts(filteredAlerts, groupBy)
+
+  const silencedCount = alerts.filter(alert => isSilenced(alert, silences)).length
+  const activeSilences = silences.filter(silence => silenceState(silence) === 'active').length
+  // Summary counts leave out silenced alerts
+  const visibleSummary = summary && withoutSilenced(summary, alerts, silences)
+
+  // Counts per event type; khook's summary when it has them, else the loaded alerts
+  const eventTypeCounts: Record<string, number> = visibleSummary && Object.keys(visibleSummary.byEventType).length > 0
+    ? visibleSummary.byEventType
+    : alerts.filter(alert => !isSilenced(alert, silences)).reduce<Record<string, number>>((counts, alert) => {
+        counts[alert.eventType] = (counts[alert.eventType] || 0) + 1
+        return counts
+      }, {})
+  const eventTypeOptions = withEventTypes([...Object.keys(eventTypeCounts), ...alerts.map(alert => alert.eventType)])
+
+  // One alert card, shared by the flat list and expanded groups
+  const renderAlert = (alert: Alert) => {
+    const silence = findSilence(alert, silences)
+    const investigation = findAlertInvestigation(alert, investigations)
+    return (
+      <div
+        key={alert.id}
+        className="card"
+        style={{
+          padding: 'var(--spacing-md)',
+          borderLeft: `4px solid ${
+            alert.severity === 'critical' ? 'var(--color-error)' :
+            alert.severity === 'high' ? 'var(--color-warning)' :
+            alert.severity === 'medium' ? 'var(--color-info)' :
+            'var(--color-success)'
+          }`
+        }}
+      >
+        <div style={{ 
+          display: 'flex', 
+          alignItems: 'flex-start', 
+          justifyContent: 'space-between',
+          marginBottom: 'var(--spacing-sm)'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+            {getSeverityIcon(alert.severity)}
+            {getStatusIcon(alert.status)}
+            <EventTypeIcon eventType={alert.eventType} />
+            <div>
+              <h4 style={{ 
+                fontSize: '0.875rem', 
+                fontWeight: '500', 
+                color: 'var(--color-text-primary)',
+                margin: 0,
+                marginBottom: 'var(--spacing-xs)'
+              }}>
+                {getEventType(alert.eventType).label} - {alert.resourceName}
+              </h4>
+              <p style={{ 
+                fontSize: '0.75rem', 
+                color: 'var(--color-text-muted)',
+                margin: 0
+              }}>
+                {alert.namespace} • {new Date(alert.firstSeen).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+            {silence && (
+              <span
+                title={`Silenced until ${new Date(silence.endsAt).toLocaleString()} by ${silence.createdBy}${silence.comment ? `: ${silence.comment}` : ''}`}
+                style={{ 
+                  display: 'flex', 
+                  alignItems: 'center', 
+                  gap: 'var(--spacing-xs)',
+                  fontSize: '0.75rem', 
+                  color: 'var(--color-text-muted)'
+                }}
+              >
+                <BellOff style={{ width: '0.75rem', height: '0.75rem' }} />
+                Silenced
+              </span>
+            )}
+
+            {investigation && (
+              <span
+                title={`${investigation.investigationName}, started ${new Date(investigation.startedAt).toLocaleString()}`}
+                style={{ 
+                  display: 'flex', 
+                  alignItems: 'center', 
+                  gap: 'var(--spacing-xs)',
+                  fontSize: '0.75rem', 
+                  color: 'var(--color-primary)'
+                }}
+              >
+                <Users style={{ width: '0.75rem', height: '0.75rem' }} />
+                Under investigation
+              </span>
+            )}
+
+            {alert.historyOnly && (
+              <span
+                title="khook no longer reports this alert; shown from local history"
+                style={{ 
+                  display: 'flex', 
+                  alignItems: 'center', 
+                  gap: 'var(--spacing-xs)',
+                  fontSize: '0.75rem', 
+                  color: 'var(--color-text-muted)'
+                }}
+              >
+                <History style={{ width: '0.75rem', height: '0.75rem' }} />
+                History
+              </span>
+            )}
+
+            {alert.remediationStatus && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)' }}>
+                {getRemediationIcon(alert.remediationStatus)}
+                <span style={{ 
+                  fontSize: '0.75rem', 
+                  color: 'var(--color-text-muted)',
+                  textTransform: 'capitalize'
+                }}>
+                  {alert.remediationStatus}
+                </span>
+              </div>
+            )}
+            
+            {alert.status === 'firing' && (
+              <button
+                onClick={() => handleAcknowledge(alert.id)}
+                disabled={actionLoading === alert.id}
+                className="btn btn-ghost"
+                style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+              >
+                Acknowledge
+              </button>
+            )}
+
+            {alert.status !== 'resolved' && (
+              <button
+                onClick={() => handleResolve(alert.id)}
+                disabled={actionLoading === alert.id}
+                className="btn btn-ghost"
+                style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+              >
+                {actionLoading === alert.id ? (
+                  <>
+                    <RefreshCw style={{ 
+                      width: '0.75rem', 
+                      height: '0.75rem',
+                      animation: 'spin 1s linear infinite',
+                      marginRight: 'var(--spacing-xs)'
+                    }} />
+                    Resolving...
+                  </>
+                ) : (
+                  'Resolve'
+                )}
+              </button>
+            )}
+            
+            
+            {!silence && alert.status !== 'resolved' && (
+              <button
+                onClick={() => setSilencePanel({ matchers: matchersForAlert(alert) })}
+                className="btn btn-ghost"
+                style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                title="Silence alerts like this one"
+              >
+                <BellOff style={{ width: '0.75rem', height: '0.75rem' }} />
+              </button>
+            )}
+
+            <button
+              onClick={() => setDetailAlertId(alert.id)}
+              className="btn btn-ghost"
+              style={{ 
+                fontSize: '0.75rem', 
+                padding: 'var(--spacing-xs) var(--spacing-sm)',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-xs)'
+              }}
+              title="Show the remediation task and transcript"
+            >
+              <FileText style={{ width: '0.75rem', height: '0.75rem' }} />
+              Details
+            </button>
+
+            {onInvestigateAlert && !investigation && alert.status !== 'resolved' && (
+              <button
+                onClick={() => onInvestigateAlert(alert)}
+                className="btn btn-ghost"
+                style={{ 
+                  fontSize: '0.75rem', 
+                  padding: 'var(--spacing-xs) var(--spacing-sm)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--spacing-xs)'
+                }}
+                title="Start a multi-agent investigation of this alert"
+              >
+                <Users style={{ width: '0.75rem', height: '0.75rem' }} />
+                Investigate
+              </button>
+            )}
+
+            {/* Chat with Agent button - always visible */}
+            {alert.agentId && (
+              <button
+                onClick={() => handleStartChatWithAgent(alert.agentId, alert)}
+                className="btn btn-ghost"
+                style={{ 
+                  fontSize: '0.75rem', 
+                  padding: 'var(--spacing-xs) var(--spacing-sm)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--spacing-xs)'
+                }}
+                title={`Start chat with ${formatAgentId(alert.agentId)}`}
+              >
+                <MessageSquare style={{ width: '0.75rem', height: '0.75rem' }} />
+                Chat
+              </button>
+            )}
+          </div>
+        </div>
+
+        <p style={{ 
+          fontSize: '0.875rem', 
+          color: 'var(--color-text-secondary)',
+          margin: 0,
+          marginBottom: 'var(--spacing-sm)'
+        }}>
+          {alert.message}
+        </p>
+
+        <div style={{ 
+          display: 'flex', 
+          alignItems: 'center', 
+          gap: 'var(--spacing-md)',
+          fontSize: '0.75rem',
+          color: 'var(--color-text-muted)'
+        }}>
+          <span>
+            Agent: 
+            <button
+              onClick={() => handleStartChatWithAgent(alert.agentId, alert)}
+              style={{
+                background: 'none',
+                border: 'none',
+                color: 'var(--color-primary)',
+                textDecoration: 'underline',
+                cursor: 'pointer',
+                marginLeft: 'var(--spacing-xs)',
+                fontSize: '0.75rem',
+                fontFamily: 'inherit'
+              }}
+              title={`Click to chat with ${formatAgentId(alert.agentId)}`}
+            >
+              {formatAgentId(alert.agentId)}
+            </button>
+          </span>
+          {alert.sessionId && <span>Session: {alert.sessionId.slice(0, 8)}...</span>}
+          {alert.taskId && <span>Task: {alert.taskId.slice(0, 8)}...</span>}
+        </div>
+      </div>
+    )
+  }
+
+  // Collapsible group header with counts, first/last seen and bulk actions
+  const renderGroup = (group: AlertGroup) => {
+    const expanded = expandedGroups.has(group.key)
+    const open = group.alerts.filter(alert => alert.status !== 'resolved').length
+    const busy = actionLoading === group.key
+    return (
+      <div key={group.key} style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+        <div
+          className="card"
+          style={{
+            padding: 'var(--spacing-sm) var(--spacing-md)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--spacing-sm)',
+            borderLeft: `4px solid ${
+              group.severity === 'critical' ? 'var(--color-error)' :
+              group.severity === 'high' ? 'var(--color-warning)' :
+              group.severity === 'medium' ? 'var(--color-info)' :
+              'var(--color-success)'
+            }`
+          }}
+        >
+          <button
+            onClick={() => toggleGroup(group.key)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-sm)',
+              flex: 1,
+              minWidth: 0,
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              color: 'var(--color-text-primary)',
+              textAlign: 'left',
+              padding: 0,
+              fontFamily: 'inherit'
+            }}
+          >
+            {expanded 
+              ? <ChevronDown style={{ width: '1rem', height: '1rem', flexShrink: 0 }} /> 
+              : <ChevronRight style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />}
+            {getSeverityIcon(group.severity)}
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontSize: '0.875rem', fontWeight: '500', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {group.label}
+                <span style={{ 
+                  marginLeft: 'var(--spacing-sm)',
+                  fontSize: '0.75rem',
+                  color: 'var(--color-text-muted)',
+                  background: 'var(--color-bg-tertiary)',
+                  padding: '0 var(--spacing-xs)',
+                  borderRadius: 'var(--radius-sm)'
+                }}>
+                  {group.alerts.length}
+                </span>
+                {group.firing > 0 && (
+                  <span style={{ marginLeft: 'var(--spacing-sm)', fontSize: '0.75rem', color: 'var(--color-error)' }}>
+                    {group.firing} firing
+                  </span>
+                )}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                First seen {new Date(group.firstSeen).toLocaleString()} • Last seen {new Date(group.lastSeen).toLocaleString()}
+              </div>
+            </div>
+          </button>
+
+          {open > 0 && (
+            <button
+              onClick={() => setSilencePanel({ matchers: groupMatchers(group) })}
+              className="btn btn-ghost"
+              style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+              title="Silence this group"
+            >
+              <BellOff style={{ width: '0.75rem', height: '0.75rem' }} />
+            </button>
+          )}
+          {group.firing > 0 && (
+            <button
+              onClick={() => handleGroupAction(group, 'acknowledge')}
+              disabled={busy}
+              className="btn btn-ghost"
+              style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+            >
+              Acknowledge All
+            </button>
+          )}
+          {open > 0 && (
+            <button
+              onClick={() => handleGroupAction(group, 'resolve')}
+              disabled={busy}
+              className="btn btn-ghost"
+              style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+            >
+              {busy ? (
+                <RefreshCw style={{ 
+                  width: '0.75rem', 
+                  height: '0.75rem',
+                  animation: 'spin 1s linear infinite'
+                }} />
+              ) : (
+                'Resolve All'
+              )}
+            </button>
+          )}
+        </div>
+
+        {expanded && (
+          <div style={{ 
+            display: 'flex', 
+            flexDirection: 'column', 
+            gap: 'var(--spacing-sm)',
+            paddingLeft: 'var(--spacing-lg)'
+          }}>
+            {group.alerts.map(renderAlert)}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div style={{ padding: 'var(--spacing-lg)' }}>
@@ -352,6 +766,19 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
               <Settings style={{ width: '1rem', height: '1rem' }} />
               Notifications
             </button>
+            <button
+              onClick={() => setSilencePanel({})}
+              className="btn btn-ghost"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                fontSize: '0.875rem'
+              }}
+            >
+              <BellOff style={{ width: '1rem', height: '1rem' }} />
+              Silences{activeSilences > 0 && ` (${activeSilences})`}
+            </button>
             <div style={{
               display: 'flex',
               alignItems: 'center',
@@ -383,7 +810,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
       )}
 
       {/* Summary Cards */}
-      {summary && (
+      {visibleSummary && (
         <div style={{ 
           display: 'grid', 
           gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', 
@@ -406,7 +833,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
                   color: 'var(--color-text-primary)',
                   margin: 0
                 }}>
-                  {summary.total}
+                  {visibleSummary.total}
                 </p>
               </div>
               <Bell style={{ width: '2rem', height: '2rem', color: 'var(--color-primary)' }} />
@@ -430,7 +857,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
                   color: 'var(--color-error)',
                   margin: 0
                 }}>
-                  {summary.firing}
+                  {visibleSummary.firing}
                 </p>
               </div>
               <Zap style={{ width: '2rem', height: '2rem', color: 'var(--color-error)' }} />
@@ -454,7 +881,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
                   color: 'var(--color-error)',
                   margin: 0
                 }}>
-                  {summary.bySeverity.critical}
+                  {visibleSummary.bySeverity.critical}
                 </p>
               </div>
               <XCircle style={{ width: '2rem', height: '2rem', color: 'var(--color-error)' }} />
@@ -478,7 +905,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
                   color: 'var(--color-success)',
                   margin: 0
                 }}>
-                  {summary.resolved}
+                  {visibleSummary.resolved}
                 </p>
               </div>
               <CheckCircle style={{ width: '2rem', height: '2rem', color: 'var(--color-success)' }} />
@@ -487,6 +914,38 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
         </div>
       )}
 
+      {/* Event Type Breakdown */}
+      {Object.keys(eventTypeCounts).length > 0 && (
+        <div className="card" style={{ padding: 'var(--spacing-md)' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-sm)' }}>
+            {Object.entries(eventTypeCounts)
+              .filter(([, count]) => count > 0)
+              .sort(([, a], [, b]) => b - a)
+              .map(([eventType, count]) => (
+                <button
+                  key={eventType}
+                  onClick={() => setEventTypeFilter(eventTypeFilter === eventType ? 'all' : eventType)}
+                  className={`btn ${eventTypeFilter === eventType ? 'btn-primary' : 'btn-ghost'}`}
+                  style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem' }}
+                >
+                  <EventTypeIcon eventType={eventType} size="0.875rem" />
+                  {getEventType(eventType).label}
+                  <span style={{ fontWeight: '600' }}>{count}</span>
+                </button>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {/* Timeline */}
+      <AlertTimeline
+        alerts={timelineAlerts}
+        range={timeRange}
+        onRangeChange={changeTimeRange}
+        selected={timeWindow}
+        onSelect={setTimeWindow}
+      />
+
       {/* Filters */}
       <div className="card" style={{ padding: 'var(--spacing-md)' }}>
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-md)', alignItems: 'center' }}>
@@ -517,6 +976,35 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
             <option value="low">Low</option>
           </select>
 
+          <select
+            value={eventTypeFilter}
+            onChange={(e) => setEventTypeFilter(e.target.value)}
+            className="input"
+            style={{ fontSize: '0.875rem' }}
+          >
+            <option value="all">All Event Types</option>
+            {eventTypeOptions.map(type => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+            <Layers style={{ width: '1rem', height: '1rem', color: 'var(--color-text-muted)' }} />
+            <select
+              value={groupBy}
+              onChange={(e) => changeGroupBy(e.target.value as AlertGroupBy)}
+              className="input"
+              style={{ fontSize: '0.875rem' }}
+              title="Group alerts by"
+            >
+              {ALERT_GROUP_BY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.value === 'none' ? option.label : `Group by ${option.label}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
             <Search style={{ width: '1rem', height: '1rem', color: 'var(--color-text-muted)' }} />
             <input
@@ -542,6 +1030,22 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
             {showResolved ? <Eye style={{ width: '1rem', height: '1rem' }} /> : <EyeOff style={{ width: '1rem', height: '1rem' }} />}
             {showResolved ? 'Hide Resolved' : 'Show Resolved'}
           </button>
+
+          {silencedCount > 0 && (
+            <button
+              onClick={() => setShowSilenced(!showSilenced)}
+              className={`btn ${showSilenced ? 'btn-primary' : 'btn-ghost'}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                fontSize: '0.875rem'
+              }}
+            >
+              <BellOff style={{ width: '1rem', height: '1rem' }} />
+              {showSilenced ? `Hide Silenced (${silencedCount})` : `Show Silenced (${silencedCount})`}
+            </button>
+          )}
         </div>
       </div>
 
@@ -554,7 +1058,7 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
           marginBottom: 'var(--spacing-md)',
           margin: 0
         }}>
-          Alerts ({filteredAlerts.length})
+          Alerts ({filteredAlerts.length}{groupBy !== 'none' && ` in ${alertGroups.length} groups`})
         </h3>
 
         {filteredAlerts.length === 0 ? (
@@ -581,152 +1085,32 @@ export default function AlertDashboard({ kagentApi, onStartChatWithAgent }: Aler
           </div>
         ) : (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
-            {filteredAlerts.map((alert) => (
-              <div
-                key={alert.id}
-                className="card"
-                style={{
-                  padding: 'var(--spacing-md)',
-                  borderLeft: `4px solid ${
-                    alert.severity === 'critical' ? 'var(--color-error)' :
-                    alert.severity === 'high' ? 'var(--color-warning)' :
-                    alert.severity === 'medium' ? 'var(--color-info)' :
-                    'var(--color-success)'
-                  }`
-                }}
-              >
-                <div style={{ 
-                  display: 'flex', 
-                  alignItems: 'flex-start', 
-                  justifyContent: 'space-between',
-                  marginBottom: 'var(--spacing-sm)'
-                }}>
-                  <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
-                    {getSeverityIcon(alert.severity)}
-                    {getStatusIcon(alert.status)}
-                    <div>
-                      <h4 style={{ 
-                        fontSize: '0.875rem', 
-                        fontWeight: '500', 
-                        color: 'var(--color-text-primary)',
-                        margin: 0,
-                        marginBottom: 'var(--spacing-xs)'
-                      }}>
-                        {alert.eventType} - {alert.resourceName}
-                      </h4>
-                      <p style={{ 
-                        fontSize: '0.75rem', 
-                        color: 'var(--color-text-muted)',
-                        margin: 0
-                      }}>
-                        {alert.namespace} • {new Date(alert.firstSeen).toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
-                    {alert.remediationStatus && (
-                      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)' }}>
-                        {getRemediationIcon(alert.remediationStatus)}
-                        <span style={{ 
-                          fontSize: '0.75rem', 
-                          color: 'var(--color-text-muted)',
-                          textTransform: 'capitalize'
-                        }}>
-                          {alert.remediationStatus}
-                        </span>
-                      </div>
-                    )}
-                    
-                    {alert.status === 'firing' && (
-                      <button
-                        onClick={() => handleResolve(alert.id)}
-                        disabled={actionLoading === alert.id}
-                        className="btn btn-ghost"
-                        style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
-                      >
-                        {actionLoading === alert.id ? (
-                          <>
-                            <RefreshCw style={{ 
-                              width: '0.75rem', 
-                              height: '0.75rem',
-                              animation: 'spin 1s linear infinite',
-                              marginRight: 'var(--spacing-xs)'
-                            }} />
-                            Resolving...
-                          </>
-                        ) : (
-                          'Resolve'
-                        )}
-                      </button>
-                    )}
-                    
-                    
-                    {/* Chat with Agent button - always visible */}
-                    {alert.agentId && (
-                      <button
-                        onClick={() => handleStartChatWithAgent(alert.agentId, alert)}
-                        className="btn btn-ghost"
-                        style={{ 
-                          fontSize: '0.75rem', 
-                          padding: 'var(--spacing-xs) var(--spacing-sm)',
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: 'var(--spacing-xs)'
-                        }}
-                        title={`Start chat with ${formatAgentId(alert.agentId)}`}
-                      >
-                        <MessageSquare style={{ width: '0.75rem', height: '0.75rem' }} />
-                        Chat
-                      </button>
-                    )}
-                  </div>
-                </div>
-
-                <p style={{ 
-                  fontSize: '0.875rem', 
-                  color: 'var(--color-text-secondary)',
-                  margin: 0,
-                  marginBottom: 'var(--spacing-sm)'
-                }}>
-                  {alert.message}
-                </p>
-
-                <div style={{ 
-                  display: 'flex', 
-                  alignItems: 'center', 
-                  gap: 'var(--spacing-md)',
-                  fontSize: '0.75rem',
-                  color: 'var(--color-text-muted)'
-                }}>
-                  <span>
-                    Agent: 
-                    <button
-                      onClick={() => handleStartChatWithAgent(alert.agentId, alert)}
-                      style={{
-                        background: 'none',
-                        border: 'none',
-                        color: 'var(--color-primary)',
-                        textDecoration: 'underline',
-                        cursor: 'pointer',
-                        marginLeft: 'var(--spacing-xs)',
-                        fontSize: '0.75rem',
-                        fontFamily: 'inherit'
-                      }}
-                      title={`Click to chat with ${formatAgentId(alert.agentId)}`}
-                    >
-                      {formatAgentId(alert.agentId)}
-                    </button>
-                  </span>
-                  {alert.sessionId && <span>Session: {alert.sessionId.slice(0, 8)}...</span>}
-                  {alert.taskId && <span>Task: {alert.taskId.slice(0, 8)}...</span>}
-                </div>
-              </div>
-            ))}
+            {groupBy === 'none'
+              ? filteredAlerts.map(renderAlert)
+              : alertGroups.map(renderGroup)}
           </div>
         )}
       </div>
 
+      {/* Silences Panel */}
+      {silencePanel && (
+        <SilencesPanel
+          alerts={alerts}
+          defaultCreator={kagentApi.getUserId()}
+          initialMatchers={silencePanel.matchers}
+          onClose={() => setSilencePanel(null)}
+        />
+      )}
+
+      {/* Alert Detail Drawer */}
+      {detailAlert && (
+        <AlertDetailDrawer
+          alert={detailAlert}
+          kagentApi={kagentApi}
+          onClose={() => setDetailAlertId(null)}
+        />
+      )}
+
       {/* Notification Settings Dialog */}
       {showNotificationSettings && (
         <NotificationSettings
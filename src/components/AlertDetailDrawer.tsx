@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { Activity, Bot, CheckCircle, Clock, Loader2, RefreshCw, User, X, XCircle } from 'lucide-react'
+import type { Alert, ChatMessage, KagentAPI, Task } from '../lib/kagent'
+import { getEventType } from '../lib/eventTypes'
+import { getRemediationHistory, type RemediationTransition } from '../lib/alertHistory'
+import EventTypeIcon from './EventTypeIcon'
+import { ToolCallCard } from './ToolCallCard'
+
+interface AlertDetailDrawerProps {
+  alert: Alert
+  kagentApi: KagentAPI
+  onClose: () => void
+}
+
+const sectionTitleStyle = {
+  margin: '0 0 var(--spacing-sm) 0',
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  color: 'var(--color-text-muted)'
+}
+
+const remediationLabels: Record<RemediationTransition['status'], string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  failed: 'Failed'
+}
+
+const remediationIcon = (status: RemediationTransition['status']) => {
+  switch (status) {
+    case 'in_progress':
+      return <Activity style={{ width: '0.875rem', height: '0.875rem', color: 'var(--color-warning)' }} />
+    case 'completed':
+      return <CheckCircle style={{ width: '0.875rem', height: '0.875rem', color: 'var(--color-success)' }} />
+    case 'failed':
+      return <XCircle style={{ width: '0.875rem', height: '0.875rem', color: 'var(--color-error)' }} />
+    default:
+      return <Clock style={{ width: '0.875rem', height: '0.875rem', color: 'var(--color-text-muted)' }} />
+  }
+}
+
+// A2A reports task status as { state, timestamp }; older servers send a string
+const taskState = (task: Task): string => {
+  const status: unknown = task.status
+  if (typeof status === 'string') return status
+  const state = (status as { state?: unknown } | null)?.state
+  return typeof state === 'string' ? state : 'unknown'
+}
+
+// The kagent task khook started for an alert: what the hook's agent was told,
+// the tools it called on the cluster and how its remediation status moved
+export default function AlertDetailDrawer({ alert, kagentApi, onClose }: AlertDetailDrawerProps) {
+  const [task, setTask] = useState<Task | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloads, setReloads] = useState(0)
+
+  // Refetched as the stream moves the remediation along
+  useEffect(() => {
+    if (!alert.taskId && !alert.sessionId) return
+
+    let cancelled = false
+    const describe = (err: unknown) => (err instanceof Error ? err.message : String(err))
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      // A missing task still leaves the session transcript worth showing
+      const failures: string[] = []
+      let loadedTask: Task | null = null
+      if (alert.taskId) {
+        try {
+          loadedTask = await kagentApi.getTask(alert.taskId)
+        } catch (err) {
+          failures.push(`Failed to load task ${alert.taskId}: ${describe(err)}`)
+        }
+      }
+      let transcript: ChatMessage[] = []
+      const sessionId = alert.sessionId || loadedTask?.sessionId
+      if (sessionId) {
+        try {
+          transcript = await kagentApi.getSessionMessages(sessionId)
+        } catch (err) {
+          failures.push(`Failed to load the transcript of session ${sessionId}: ${describe(err)}`)
+        }
+      }
+      if (cancelled) return
+      setTask(loadedTask)
+      setMessages(transcript)
+      setError(failures.length > 0 ? failures.join('\n') : null)
+      setLoading(false)
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [kagentApi, alert.taskId, alert.sessionId, alert.remediationStatus, reloads])
+
+  const transitions = getRemediationHistory(alert.id)
+  const toolCallCount = messages.reduce((count, message) => count + (message.toolCalls?.length || 0), 0)
+
+  const details: Array<[string, string | undefined]> = [
+    ['Severity', alert.severity],
+    ['Status', alert.status],
+    ['Hook', alert.hookName],
+    ['Agent', alert.agentId],
+    ['First Seen', new Date(alert.firstSeen).toLocaleString()],
+    ['Last Seen', new Date(alert.lastSeen).toLocaleString()],
+    ['Task', alert.taskId],
+    ['Session', alert.sessionId || task?.sessionId]
+  ]
+
+  return (
+    <div className="modal-overlay" style={{ justifyContent: 'flex-end', alignItems: 'stretch' }} onClick={onClose}>
+      <div
+        className="slide-in-right"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: '40rem',
+          maxWidth: '100%',
+          height: '100%',
+          overflowY: 'auto',
+          background: 'var(--color-bg-secondary)',
+          borderLeft: '1px solid var(--color-border-primary)',
+          padding: 'var(--spacing-lg)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--spacing-lg)'
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 'var(--spacing-md)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', minWidth: 0 }}>
+            <EventTypeIcon eventType={alert.eventType} />
+            <div style={{ minWidth: 0 }}>
+              <h3 style={{ margin: 0, fontSize: '1rem', fontWeight: '600', color: 'var(--color-text-primary)' }}>
+                {getEventType(alert.eventType).label} - {alert.resourceName}
+              </h3>
+              <p style={{ margin: 0, fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                {alert.namespace} • {alert.message}
+              </p>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+            {(alert.taskId || alert.sessionId) && (
+              <button
+                onClick={() => setReloads(count => count + 1)}
+                disabled={loading}
+                className="btn btn-ghost"
+                style={{ fontSize: '0.875rem' }}
+                title="Reload the transcript"
+              >
+                <RefreshCw style={{ width: '1rem', height: '1rem', animation: loading ? 'spin 1s linear infinite' : undefined }} />
+              </button>
+            )}
+            <button onClick={onClose} className="btn btn-ghost" style={{ fontSize: '0.875rem' }}>
+              <X style={{ width: '1rem', height: '1rem' }} />
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: 'var(--spacing-sm) var(--spacing-md)' }}>
+          {details.map(([label, value]) => (
+            <div key={label} style={{ minWidth: 0 }}>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>{label}</div>
+              <div style={{
+                fontSize: '0.875rem',
+                color: 'var(--color-text-primary)',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                textTransform: label === 'Severity' || label === 'Status' ? 'capitalize' : undefined
+              }} title={value}>
+                {value || '—'}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 style={sectionTitleStyle}>Remediation</h4>
+          {transitions.length === 0 && !alert.remediationStatus && !task ? (
+            <p style={{ margin: 0, fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
+              khook has not reported a remediation for this alert.
+            </p>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)' }}>
+              {transitions.map((transition, index) => (
+                <div key={index} style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', fontSize: '0.875rem' }}>
+                  {remediationIcon(transition.status)}
+                  <span style={{ color: 'var(--color-text-primary)' }}>{remediationLabels[transition.status]}</span>
+                  <span style={{ color: 'var(--color-text-muted)', fontSize: '0.75rem' }}>
+                    {new Date(transition.at).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+              {transitions.length === 0 && alert.remediationStatus && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', fontSize: '0.875rem' }}>
+                  {remediationIcon(alert.remediationStatus)}
+                  <span style={{ color: 'var(--color-text-primary)' }}>{remediationLabels[alert.remediationStatus]}</span>
+                </div>
+              )}
+              {task && (
+                <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginTop: 'var(--spacing-xs)' }}>
+                  Task {task.id} is {taskState(task)}
+                  {task.metadata?.kagent_usage_metadata?.totalTokenCount !== undefined &&
+                    ` • ${task.metadata.kagent_usage_metadata.totalTokenCount} tokens`}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 style={sectionTitleStyle}>
+            Agent Transcript{toolCallCount > 0 && ` • ${toolCallCount} tool call${toolCallCount === 1 ? '' : 's'}`}
+          </h4>
+
+          {error && (
+            <div className="alert alert-error" style={{ marginBottom: 'var(--spacing-sm)' }}>
+              <span style={{ color: 'var(--color-error)', fontSize: '0.875rem', whiteSpace: 'pre-line' }}>{error}</span>
+            </div>
+          )}
+
+          {!alert.taskId && !alert.sessionId ? (
+            <p style={{ margin: 0, fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
+              khook did not link a kagent task or session to this alert.
+            </p>
+          ) : loading && messages.length === 0 ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', fontSize: '0.875rem', color: 'var(--color-text-secondary)' }}>
+              <Loader2 style={{ width: '1rem', height: '1rem', animation: 'spin 1s linear infinite' }} />
+              Loading the transcript...
+            </div>
+          ) : messages.length === 0 ? (
+            // A failed load is reported above rather than as an empty session
+            error ? null : (
+              <p style={{ margin: 0, fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
+                The session has no messages yet.
+              </p>
+            )
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+              {messages.map(message => (
+                <div key={message.id} className="card" style={{ padding: 'var(--spacing-md)' }}>
+                  <div style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 'var(--spacing-xs)',
+                    fontSize: '0.75rem',
+                    color: 'var(--color-text-muted)',
+                    marginBottom: 'var(--spacing-sm)'
+                  }}>
+                    {message.role === 'user'
+                      ? <User style={{ width: '0.75rem', height: '0.75rem' }} />
+                      : <Bot style={{ width: '0.75rem', height: '0.75rem' }} />}
+                    {message.role === 'user' ? `Prompt from ${alert.hookName}` : alert.agentId}
+                    <span>• {new Date(message.timestamp).toLocaleString()}</span>
+                  </div>
+                  {message.toolCalls?.map(toolCall => (
+                    <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+                  ))}
+                  {message.content && (
+                    <div className="markdown-content" style={{ lineHeight: 1.6, fontSize: '0.875rem' }}>
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                        {message.content}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
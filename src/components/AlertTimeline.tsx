@@ -0,0 +1,153 @@
+import { BarChart3, X } from 'lucide-react'
+import type { Alert } from '../lib/kagent'
+import {
+  ALERT_TIME_RANGES,
+  SEVERITY_LANES,
+  buildTimeline,
+  type AlertTimeRange,
+  type TimeWindow,
+  type TimelineBucket
+} from '../lib/alertHistory'
+
+interface AlertTimelineProps {
+  alerts: Alert[]
+  range: AlertTimeRange
+  onRangeChange: (range: AlertTimeRange) => void
+  // Bucket the alert list is filtered to
+  selected: TimeWindow | null
+  onSelect: (window: TimeWindow | null) => void
+}
+
+const laneColors: Record<Alert['severity'], string> = {
+  critical: 'var(--color-error)',
+  high: 'var(--color-warning)',
+  medium: 'var(--color-info)',
+  low: 'var(--color-success)'
+}
+
+const LANE_LABEL_WIDTH = '4rem'
+
+const formatTime = (time: number, range: AlertTimeRange) => {
+  const date = new Date(time)
+  return range === '7d'
+    ? date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+// Heatmap of active alerts per time bucket, one lane per severity
+export default function AlertTimeline({ alerts, range, onRangeChange, selected, onSelect }: AlertTimelineProps) {
+  const buckets = buildTimeline(alerts, range)
+  const max = Math.max(1, ...buckets.flatMap(bucket => SEVERITY_LANES.map(severity => bucket.counts[severity])))
+  const isSelected = (bucket: TimelineBucket) => selected?.start === bucket.start && selected?.end === bucket.end
+  const ticks = [0, Math.floor(buckets.length / 2), buckets.length - 1]
+
+  const describe = (bucket: TimelineBucket) => [
+    `${formatTime(bucket.start, range)} – ${formatTime(bucket.end, range)}`,
+    ...SEVERITY_LANES.filter(severity => bucket.counts[severity] > 0).map(severity => `${severity}: ${bucket.counts[severity]}`),
+    bucket.total === 0 ? 'No alerts' : 'Click to filter the alert list'
+  ].join('\n')
+
+  return (
+    <div className="card" style={{ padding: 'var(--spacing-md)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 'var(--spacing-sm)' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+          <BarChart3 style={{ width: '1rem', height: '1rem', color: 'var(--color-text-muted)' }} />
+          <span style={{ fontSize: '0.875rem', fontWeight: '500', color: 'var(--color-text-primary)' }}>Timeline</span>
+          {selected && (
+            <button
+              onClick={() => onSelect(null)}
+              className="btn btn-primary"
+              style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+              title="Clear time filter"
+            >
+              {formatTime(selected.start, range)} – {formatTime(selected.end, range)}
+              <X style={{ width: '0.75rem', height: '0.75rem' }} />
+            </button>
+          )}
+        </div>
+        <select
+          value={range}
+          onChange={(e) => onRangeChange(e.target.value as AlertTimeRange)}
+          className="input"
+          style={{ fontSize: '0.875rem' }}
+        >
+          {ALERT_TIME_RANGES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+        <div style={{ width: LANE_LABEL_WIDTH, display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          {SEVERITY_LANES.map(severity => (
+            <div
+              key={severity}
+              style={{
+                height: '1rem',
+                fontSize: '0.75rem',
+                lineHeight: '1rem',
+                color: 'var(--color-text-muted)',
+                textTransform: 'capitalize'
+              }}
+            >
+              {severity}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ flex: 1, display: 'flex', gap: '2px' }}>
+          {buckets.map(bucket => (
+            <button
+              key={bucket.start}
+              onClick={() => onSelect(isSelected(bucket) ? null : { start: bucket.start, end: bucket.end })}
+              disabled={bucket.total === 0}
+              title={describe(bucket)}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '2px',
+                padding: 0,
+                border: 'none',
+                background: 'none',
+                cursor: bucket.total === 0 ? 'default' : 'pointer',
+                outline: isSelected(bucket) ? '2px solid var(--color-primary)' : 'none',
+                borderRadius: 'var(--radius-sm)'
+              }}
+            >
+              {SEVERITY_LANES.map(severity => {
+                const count = bucket.counts[severity]
+                return (
+                  <div
+                    key={severity}
+                    style={{
+                      height: '1rem',
+                      borderRadius: 'var(--radius-sm)',
+                      backgroundColor: count > 0 ? laneColors[severity] : 'var(--color-bg-tertiary)',
+                      // Stronger colour means more alerts were active
+                      opacity: count > 0 ? 0.3 + 0.7 * (count / max) : 1
+                    }}
+                  />
+                )
+              })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginTop: 'var(--spacing-xs)',
+        marginLeft: `calc(${LANE_LABEL_WIDTH} + var(--spacing-sm))`,
+        fontSize: '0.75rem',
+        color: 'var(--color-text-muted)'
+      }}>
+        {ticks.map(index => buckets[index] && (
+          <span key={index}>{formatTime(buckets[index].start, range)}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
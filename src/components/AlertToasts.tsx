@@ -0,0 +1,124 @@
+import { useState, useSyncExternalStore } from 'react'
+import { Bell, MessageSquare, X } from 'lucide-react'
+import type { Alert } from '../lib/kagent'
+import { useAlerts } from '../contexts'
+import { getEventType } from '../lib/eventTypes'
+import { dismissAlertToast, getAlertToasts, subscribeToAlertToasts } from '../lib/alertNotifications'
+
+interface AlertToastsProps {
+  onInvestigate: (alert: Alert) => void
+}
+
+const severityColors: Record<Alert['severity'], string> = {
+  critical: 'var(--color-error)',
+  high: 'var(--color-warning)',
+  medium: 'var(--color-info)',
+  low: 'var(--color-success)'
+}
+
+// In-app cards for notified alerts with the same Acknowledge and
+// Investigate actions as the native notification
+export default function AlertToasts({ onInvestigate }: AlertToastsProps) {
+  const { state, actions } = useAlerts()
+  const toastIds = useSyncExternalStore(subscribeToAlertToasts, getAlertToasts)
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toasts = toastIds
+    .map(id => state.alerts.find(alert => alert.id === id))
+    .filter((alert): alert is Alert => alert !== undefined && alert.status === 'firing')
+
+  if (toasts.length === 0) return null
+
+  const acknowledge = async (alert: Alert) => {
+    setPending(alert.id)
+    setError(null)
+    try {
+      await actions.acknowledgeAlert(alert.id)
+      dismissAlertToast(alert.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const investigate = (alert: Alert) => {
+    dismissAlertToast(alert.id)
+    onInvestigate(alert)
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      right: 'var(--spacing-lg)',
+      bottom: 'var(--spacing-lg)',
+      zIndex: 60,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 'var(--spacing-sm)',
+      width: '22rem'
+    }}>
+      {error && (
+        <div className="alert alert-error" style={{ fontSize: '0.75rem' }}>{error}</div>
+      )}
+      {toasts.map(alert => (
+        <div
+          key={alert.id}
+          className="card"
+          style={{
+            padding: 'var(--spacing-md)',
+            borderLeft: `4px solid ${severityColors[alert.severity]}`,
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)'
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', minWidth: 0 }}>
+              <Bell style={{ width: '1rem', height: '1rem', color: severityColors[alert.severity], flexShrink: 0 }} />
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontSize: '0.875rem', fontWeight: '500', color: 'var(--color-text-primary)' }}>
+                  {getEventType(alert.eventType).label}
+                </div>
+                <div style={{
+                  fontSize: '0.75rem',
+                  color: 'var(--color-text-muted)',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap'
+                }}>
+                  {alert.resourceName} in {alert.namespace}
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={() => dismissAlertToast(alert.id)}
+              className="btn btn-ghost"
+              style={{ padding: 'var(--spacing-xs)' }}
+              title="Dismiss"
+            >
+              <X style={{ width: '0.75rem', height: '0.75rem' }} />
+            </button>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-sm)' }}>
+            <button
+              onClick={() => acknowledge(alert)}
+              className="btn btn-ghost"
+              disabled={pending === alert.id}
+              style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+            >
+              Acknowledge
+            </button>
+            <button
+              onClick={() => investigate(alert)}
+              className="btn btn-primary"
+              style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+            >
+              <MessageSquare style={{ width: '0.75rem', height: '0.75rem' }} />
+              Investigate
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
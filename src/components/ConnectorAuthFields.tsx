@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import type { AuthConfig, AuthType, KAgentConfig } from '../config'
+import { DEFAULT_OIDC_SCOPE, listKubeconfigContexts, resolveAuthType } from '../lib/auth'
+import { isTauri } from '../lib/tauri'
+
+interface ConnectorAuthFieldsProps {
+  config: KAgentConfig
+  onChange: (updates: Partial<KAgentConfig>) => void
+}
+
+const authTypeLabels: Record<AuthType, string> = {
+  none: 'None',
+  bearer: 'Bearer token',
+  basic: 'Basic (username / password)',
+  oidc: 'OIDC device login',
+  kubeconfig: 'Kubeconfig context'
+}
+
+// Authentication and user identity fields of the connector form
+export default function ConnectorAuthFields({ config, onChange }: ConnectorAuthFieldsProps) {
+  const [contexts, setContexts] = useState<string[]>([])
+  const [contextsError, setContextsError] = useState<string | null>(null)
+  const authType = resolveAuthType(config)
+
+  const updateAuth = (updates: Partial<AuthConfig>) => {
+    onChange({ auth: { type: authType, ...config.auth, ...updates } })
+  }
+
+  // Credentials of other auth types are dropped so they are not stored needlessly
+  const changeAuthType = (type: AuthType) => {
+    onChange({
+      auth: { ...config.auth, type },
+      token: type === 'bearer' ? config.token : undefined,
+      username: type === 'basic' ? config.username : undefined,
+      password: type === 'basic' ? config.password : undefined
+    })
+  }
+
+  const loadContexts = async () => {
+    setContextsError(null)
+    try {
+      const result = await listKubeconfigContexts(config.auth?.kubeconfig?.path)
+      setContexts(result.contexts)
+      if (!config.auth?.kubeconfig?.context && result.currentContext) {
+        updateAuth({ kubeconfig: { ...config.auth?.kubeconfig, context: result.currentContext } })
+      }
+    } catch (error) {
+      setContextsError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return (
+    <>
+      <div className="form-group">
+        <label>Authentication:</label>
+        <select
+          value={authType}
+          onChange={(e) => changeAuthType(e.target.value as AuthType)}
+          className="input"
+        >
+          {(Object.keys(authTypeLabels) as AuthType[]).map(type => (
+            <option key={type} value={type} disabled={type === 'kubeconfig' && !isTauri()}>
+              {authTypeLabels[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {authType === 'bearer' && (
+        <div className="form-group">
+          <label>API Token:</label>
+          <input
+            type="password"
+            value={config.token || ''}
+            onChange={(e) => onChange({ token: e.target.value || undefined })}
+            className="input"
+            placeholder="Bearer token"
+          />
+        </div>
+      )}
+
+      {authType === 'basic' && (
+        <>
+          <div className="form-group">
+            <label>Username:</label>
+            <input
+              type="text"
+              value={config.username || ''}
+              onChange={(e) => onChange({ username: e.target.value || undefined })}
+              className="input"
+              autoComplete="off"
+            />
+          </div>
+          <div className="form-group">
+            <label>Password:</label>
+            <input
+              type="password"
+              value={config.password || ''}
+              onChange={(e) => onChange({ password: e.target.value || undefined })}
+              className="input"
+              autoComplete="new-password"
+            />
+          </div>
+        </>
+      )}
+
+      {authType === 'oidc' && (
+        <>
+          <div className="form-group">
+            <label>Issuer URL:</label>
+            <input
+              type="text"
+              value={config.auth?.oidc?.issuerUrl || ''}
+              onChange={(e) => updateAuth({ oidc: { clientId: '', ...config.auth?.oidc, issuerUrl: e.target.value } })}
+              className="input"
+              placeholder="e.g., https://login.example.com/realms/sre"
+            />
+          </div>
+          <div className="form-group">
+            <label>Client ID:</label>
+            <input
+              type="text"
+              value={config.auth?.oidc?.clientId || ''}
+              onChange={(e) => updateAuth({ oidc: { issuerUrl: '', ...config.auth?.oidc, clientId: e.target.value } })}
+              className="input"
+              placeholder="e.g., sre-ide"
+            />
+          </div>
+          <div className="form-group">
+            <label>Scopes:</label>
+            <input
+              type="text"
+              value={config.auth?.oidc?.scope || ''}
+              onChange={(e) => updateAuth({
+                oidc: { issuerUrl: '', clientId: '', ...config.auth?.oidc, scope: e.target.value || undefined }
+              })}
+              className="input"
+              placeholder={DEFAULT_OIDC_SCOPE}
+            />
+          </div>
+          <p style={{ margin: '0 0 var(--spacing-md)', fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+            Sign in from the connector card once the connector is added.
+          </p>
+        </>
+      )}
+
+      {authType === 'kubeconfig' && (
+        <>
+          <div className="form-group">
+            <label>Kubeconfig Path:</label>
+            <input
+              type="text"
+              value={config.auth?.kubeconfig?.path || ''}
+              onChange={(e) => updateAuth({ kubeconfig: { ...config.auth?.kubeconfig, path: e.target.value || undefined } })}
+              className="input"
+              placeholder="$KUBECONFIG or ~/.kube/config"
+            />
+          </div>
+          <div className="form-group">
+            <label>Context:</label>
+            <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+              <input
+                type="text"
+                list="kubeconfig-contexts"
+                value={config.auth?.kubeconfig?.context || ''}
+                onChange={(e) => updateAuth({ kubeconfig: { ...config.auth?.kubeconfig, context: e.target.value || undefined } })}
+                className="input"
+                placeholder="current-context"
+                style={{ flex: 1 }}
+              />
+              <button type="button" className="btn btn-ghost" onClick={loadContexts} title="Load contexts">
+                <RefreshCw size={14} />
+              </button>
+            </div>
+            <datalist id="kubeconfig-contexts">
+              {contexts.map(context => <option key={context} value={context} />)}
+            </datalist>
+            {contextsError && (
+              <div style={{ marginTop: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-error)' }}>
+                {contextsError}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="form-group">
+        <label>User Identity:</label>
+        <input
+          type="text"
+          value={config.userId || ''}
+          onChange={(e) => onChange({ userId: e.target.value || undefined })}
+          className="input"
+          placeholder="e.g., jane@example.com (defaults to admin@kagent.dev)"
+        />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react'
+import { Copy, ExternalLink, Loader2 } from 'lucide-react'
+import type { OidcAuthConfig } from '../config'
+import {
+  completeDeviceLogin,
+  identityFromTokens,
+  startDeviceLogin,
+  type DeviceAuthorization
+} from '../lib/auth'
+import { describeError } from '../lib/errors'
+
+interface DeviceLoginDialogProps {
+  connectorName: string
+  oidc: OidcAuthConfig
+  // Called with the signed-in user's email or username, when the token carries one
+  onSignedIn: (identity?: string) => void
+  onClose: () => void
+}
+
+// OIDC device-code sign-in: shows the user code and waits for approval
+export default function DeviceLoginDialog({ connectorName, oidc, onSignedIn, onClose }: DeviceLoginDialogProps) {
+  const [authorization, setAuthorization] = useState<DeviceAuthorization | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { issuerUrl, clientId, scope } = oidc
+
+  // Restarting the flow on every parent render would invalidate the code, so
+  // the flow reads the latest callback from here
+  const latestOnSignedIn = useRef(onSignedIn)
+  latestOnSignedIn.current = onSignedIn
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const provider: OidcAuthConfig = { issuerUrl, clientId, scope }
+
+    const login = async () => {
+      try {
+        const started = await startDeviceLogin(provider)
+        if (controller.signal.aborted) return
+        setAuthorization(started)
+        const tokens = await completeDeviceLogin(provider, started, controller.signal)
+        latestOnSignedIn.current(identityFromTokens(tokens))
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setError(describeError(error).message)
+        }
+      }
+    }
+
+    login()
+    return () => controller.abort()
+  }, [issuerUrl, clientId, scope])
+
+  const verificationUrl = authorization?.verificationUriComplete || authorization?.verificationUri
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <h2>Sign in to {connectorName}</h2>
+
+        {error ? (
+          <div className="alert alert-error" style={{ marginBottom: 'var(--spacing-md)' }}>
+            {error}
+          </div>
+        ) : !authorization ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', color: 'var(--color-text-secondary)' }}>
+            <Loader2 size={16} className="animate-spin" />
+            Contacting {oidc.issuerUrl}...
+          </div>
+        ) : (
+          <>
+            <p style={{ color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>
+              Open the link below and enter this code to approve the sign-in:
+            </p>
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: 'var(--spacing-sm)',
+              margin: 'var(--spacing-md) 0',
+              fontFamily: 'var(--font-family-primary)',
+              fontSize: '1.5rem',
+              fontWeight: '600',
+              letterSpacing: '0.15em',
+              color: 'var(--color-text-primary)'
+            }}>
+              {authorization.userCode}
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => navigator.clipboard.writeText(authorization.userCode)}
+                title="Copy code"
+              >
+                <Copy size={14} />
+              </button>
+            </div>
+            <a
+              href={verificationUrl}
+              target="_blank"
+              rel="noreferrer"
+              style={{ display: 'inline-flex', alignItems: 'center', gap: 'var(--spacing-xs)', color: 'var(--color-primary)', fontSize: '0.875rem', wordBreak: 'break-all' }}
+            >
+              <ExternalLink size={14} />
+              {verificationUrl}
+            </a>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-md)', fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+              <Loader2 size={12} className="animate-spin" />
+              Waiting for approval...
+            </div>
+          </>
+        )}
+
+        <div style={{ marginTop: 'var(--spacing-lg)' }}>
+          <button type="button" className="btn btn-ghost" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,17 +4,21 @@ import remarkGfm from 'remark-gfm'
 import { 
   Send, AlertTriangle, Shield, Info, 
   Zap, DollarSign, Lock, Loader2,
-  MessageSquare, Clock, Hash
+  MessageSquare, Clock, Hash, Square, FileText, RotateCcw
 } from 'lucide-react'
 import { SecurityScanner } from '../lib/securityScanner'
 import { NDJSONOptimizer } from '../lib/ndjsonOptimizer'
 import type { ChatMessage } from '../lib/kagent'
+import type { KagentErrorKind } from '../lib/errors'
+import { ToolCallCard } from './ToolCallCard'
 
 interface EnhancedChatProps {
   currentSession: any
   selectedAgent: any
   messages: ChatMessage[]
   onSendMessage: (message: string) => Promise<void>
+  onCancelMessage?: () => void
+  onRetryMessage?: (messageId: string) => Promise<void>
   isSending: boolean
   onDebugInfo?: (message: string) => void
 }
@@ -24,6 +28,8 @@ export function EnhancedChat({
   selectedAgent, 
   messages, 
   onSendMessage, 
+  onCancelMessage,
+  onRetryMessage,
   isSending,
   onDebugInfo 
 }: EnhancedChatProps) {
@@ -131,12 +137,14 @@ export function EnhancedChat({
     }
     
     try {
-      // Send the optimized and masked message
-      await onSendMessage(messageToSend)
-      console.log('Message sent successfully')
+      // Clear the input right away - the reply streams in while we wait
       setInputMessage('')
       setShowSensitiveWarning(false)
       setSensitiveFindings(null)
+      
+      // Send the optimized and masked message
+      await onSendMessage(messageToSend)
+      console.log('Message sent successfully')
     } catch (error) {
       console.error('Failed to send message:', error)
       onDebugInfo?.(`Failed to send message: ${error}`)
@@ -302,9 +310,13 @@ export function EnhancedChat({
           </div>
         )}
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble
+            key={message.id}
+            message={message}
+            onRetry={onRetryMessage && !isSending ? () => onRetryMessage(message.id) : undefined}
+          />
         ))}
-        {isSending && (
+        {isSending && !messages.some(m => m.isStreaming) && (
           <div style={{
             display: 'flex',
             alignItems: 'center',
@@ -517,30 +529,52 @@ export function EnhancedChat({
             </div>
           )}
         </div>
-        <button
-          onClick={handleSend}
-          disabled={isSending || !inputMessage.trim()}
-          className="btn btn-primary"
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: 'var(--spacing-sm)',
-            padding: 'var(--spacing-md) var(--spacing-lg)',
-            minWidth: '120px',
-            justifyContent: 'center',
-            fontSize: '0.875rem',
-            fontWeight: '500',
-            borderRadius: 'var(--radius-lg)',
-            transition: 'all 0.2s ease'
-          }}
-        >
-          {isSending ? (
-            <Loader2 style={{ width: '1rem', height: '1rem', animation: 'spin 1s linear infinite' }} />
-          ) : (
-            <Send style={{ width: '1rem', height: '1rem' }} />
-          )}
-          {isSending ? 'Sending...' : 'Send'}
-        </button>
+        {isSending && onCancelMessage ? (
+          <button
+            onClick={onCancelMessage}
+            className="btn btn-error"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-sm)',
+              padding: 'var(--spacing-md) var(--spacing-lg)',
+              minWidth: '120px',
+              justifyContent: 'center',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              borderRadius: 'var(--radius-lg)',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            <Square style={{ width: '1rem', height: '1rem' }} />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={isSending || !inputMessage.trim()}
+            className="btn btn-primary"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-sm)',
+              padding: 'var(--spacing-md) var(--spacing-lg)',
+              minWidth: '120px',
+              justifyContent: 'center',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              borderRadius: 'var(--radius-lg)',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            {isSending ? (
+              <Loader2 style={{ width: '1rem', height: '1rem', animation: 'spin 1s linear infinite' }} />
+            ) : (
+              <Send style={{ width: '1rem', height: '1rem' }} />
+            )}
+            {isSending ? 'Sending...' : 'Send'}
+          </button>
+        )}
       </div>
     </div>
   )
@@ -591,9 +625,20 @@ function StatCard({ icon, label, value, color }: any) {
   )
 }
 
-function MessageBubble({ message }: { message: ChatMessage }) {
+const errorTitles: Record<KagentErrorKind, string> = {
+  network: 'Could not reach KAgent',
+  auth: 'Authentication failed',
+  agent_not_found: 'Agent not found',
+  stream_truncated: 'Reply was interrupted',
+  timeout: 'Agent timed out',
+  http: 'Request failed'
+}
+
+function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: () => void }) {
   const isUser = message.role === 'user'
   const tokens = NDJSONOptimizer.countTokens(message.content)
+  // Skip artifacts that only repeat the streamed answer
+  const artifacts = (message.artifacts || []).filter(a => a.text && !message.content.includes(a.text))
   
   return (
     <div style={{
@@ -616,14 +661,98 @@ function MessageBubble({ message }: { message: ChatMessage }) {
         boxShadow: isUser ? 'var(--shadow-md)' : 'var(--shadow-sm)',
         position: 'relative'
       }}>
-        <div className="markdown-content" style={{ 
-          marginBottom: 'var(--spacing-md)',
-          lineHeight: 1.6
-        }}>
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-            {message.content}
-          </ReactMarkdown>
-        </div>
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div style={{ marginBottom: 'var(--spacing-md)' }}>
+            {message.toolCalls.map((toolCall) => (
+              <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+            ))}
+          </div>
+        )}
+        {message.content ? (
+          <div className="markdown-content" style={{ 
+            marginBottom: 'var(--spacing-md)',
+            lineHeight: 1.6
+          }}>
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+              {message.content}
+            </ReactMarkdown>
+          </div>
+        ) : message.isStreaming && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--spacing-sm)',
+            marginBottom: 'var(--spacing-md)',
+            color: 'var(--color-text-muted)'
+          }}>
+            <Loader2 style={{ 
+              width: '1rem', 
+              height: '1rem', 
+              animation: 'spin 1s linear infinite',
+              color: 'var(--color-primary)'
+            }} />
+            <span style={{ fontSize: '0.875rem', fontWeight: '500' }}>Agent is thinking...</span>
+          </div>
+        )}
+        {artifacts.map((artifact) => (
+          <details key={artifact.id} style={{
+            marginBottom: 'var(--spacing-md)',
+            padding: 'var(--spacing-sm)',
+            background: 'var(--color-bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            border: '1px solid var(--color-border-primary)'
+          }}>
+            <summary style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-xs)',
+              cursor: 'pointer',
+              fontSize: '0.75rem',
+              color: 'var(--color-text-secondary)'
+            }}>
+              <FileText style={{ width: '0.75rem', height: '0.75rem' }} />
+              {artifact.name || 'Artifact'}
+            </summary>
+            <div className="markdown-content" style={{ marginTop: 'var(--spacing-sm)', lineHeight: 1.6 }}>
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                {artifact.text}
+              </ReactMarkdown>
+            </div>
+          </details>
+        ))}
+        {message.error && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'flex-start',
+            gap: 'var(--spacing-sm)',
+            marginBottom: 'var(--spacing-md)',
+            padding: 'var(--spacing-sm) var(--spacing-md)',
+            background: 'var(--color-error)10',
+            border: '1px solid var(--color-error)40',
+            borderRadius: 'var(--radius-md)'
+          }}>
+            <AlertTriangle style={{ width: '1rem', height: '1rem', color: 'var(--color-error)', flexShrink: 0, marginTop: '2px' }} />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--color-error)' }}>
+                {errorTitles[message.error.kind]}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)', wordBreak: 'break-word' }}>
+                {message.error.message}
+              </div>
+            </div>
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="btn btn-ghost"
+                style={{ fontSize: '0.75rem', flexShrink: 0 }}
+                title={message.error.retryable ? 'Send the message again' : 'This error may not be resolved by retrying'}
+              >
+                <RotateCcw style={{ width: '0.75rem', height: '0.75rem' }} />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
         <div style={{
           display: 'flex',
           justifyContent: 'space-between',
@@ -643,6 +772,11 @@ function MessageBubble({ message }: { message: ChatMessage }) {
             <span>
               {new Date(message.timestamp).toLocaleTimeString()}
             </span>
+            {message.isStreaming && (
+              <span style={{ color: 'var(--color-primary)' }}>
+                • {message.taskState ? `streaming (${message.taskState})` : 'streaming'}
+              </span>
+            )}
           </div>
           <div style={{
             display: 'flex',
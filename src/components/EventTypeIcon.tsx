@@ -0,0 +1,48 @@
+import {
+  Activity,
+  Briefcase,
+  Clock,
+  HardDrive,
+  HeartPulse,
+  Package,
+  RefreshCw,
+  Server,
+  XCircle,
+  type LucideIcon
+} from 'lucide-react'
+import { getEventType, type EventTypeIconName, type EventTypeTone } from '../lib/eventTypes'
+
+const icons: Record<EventTypeIconName, LucideIcon> = {
+  restart: RefreshCw,
+  pending: Clock,
+  memory: XCircle,
+  probe: HeartPulse,
+  node: Server,
+  image: Package,
+  storage: HardDrive,
+  job: Briefcase,
+  generic: Activity
+}
+
+const toneColors: Record<EventTypeTone, string> = {
+  error: 'var(--color-error)',
+  warning: 'var(--color-warning)',
+  info: 'var(--color-info)',
+  muted: 'var(--color-text-muted)'
+}
+
+interface EventTypeIconProps {
+  eventType: string
+  size?: string
+}
+
+// Icon for an event type; unknown types get a generic one
+export default function EventTypeIcon({ eventType, size = '1rem' }: EventTypeIconProps) {
+  const definition = getEventType(eventType)
+  const Icon = icons[definition.icon]
+  return (
+    <span title={definition.description || definition.label} style={{ display: 'inline-flex' }}>
+      <Icon style={{ width: size, height: size, color: toneColors[definition.tone] }} />
+    </span>
+  )
+}
@@ -0,0 +1,38 @@
+import type { DiffLine } from '../lib/textDiff'
+
+interface HookDiffViewProps {
+  lines: DiffLine[]
+  maxHeight?: string
+}
+
+const lineColors: Record<DiffLine['type'], { color: string; background: string; prefix: string }> = {
+  add: { color: 'var(--color-success)', background: 'rgba(34, 197, 94, 0.1)', prefix: '+' },
+  remove: { color: 'var(--color-error)', background: 'rgba(239, 68, 68, 0.1)', prefix: '-' },
+  context: { color: 'var(--color-text-secondary)', background: 'transparent', prefix: ' ' }
+}
+
+// Unified line diff of two YAML documents
+export default function HookDiffView({ lines, maxHeight = '24rem' }: HookDiffViewProps) {
+  return (
+    <pre style={{
+      margin: 0,
+      maxHeight,
+      overflow: 'auto',
+      background: 'var(--color-bg-tertiary)',
+      border: '1px solid var(--color-border-primary)',
+      borderRadius: 'var(--radius-md)',
+      fontFamily: 'var(--font-family-primary)',
+      fontSize: '0.75rem',
+      padding: 'var(--spacing-sm) 0'
+    }}>
+      {lines.map((line, index) => {
+        const style = lineColors[line.type]
+        return (
+          <div key={index} style={{ color: style.color, background: style.background, padding: '0 var(--spacing-sm)', whiteSpace: 'pre-wrap' }}>
+            {style.prefix} {line.text}
+          </div>
+        )
+      })}
+    </pre>
+  )
+}
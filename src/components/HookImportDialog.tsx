@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CheckCircle, ChevronDown, ChevronRight, Upload, XCircle } from 'lucide-react'
+import type { Hook, KagentAPI, KagentAgent } from '../lib/kagent'
+import { hookKey, parseHookManifests, planHookImport, type HookImportAction } from '../lib/hookManifests'
+import HookDiffView from './HookDiffView'
+import HookIssueList from './HookIssueList'
+
+interface HookImportDialogProps {
+  kagentApi: KagentAPI
+  existing: Hook[]
+  onClose: () => void
+  onImported: () => void
+}
+
+type ApplyResult = { ok: true } | { ok: false; message: string }
+
+const actionStyles: Record<HookImportAction, { label: string; color: string }> = {
+  create: { label: 'Create', color: 'var(--color-success)' },
+  update: { label: 'Update', color: 'var(--color-warning)' },
+  unchanged: { label: 'Unchanged', color: 'var(--color-text-muted)' },
+  invalid: { label: 'Invalid', color: 'var(--color-error)' }
+}
+
+// Bulk import of Hook manifests with a create/update/unchanged preview
+export default function HookImportDialog({ kagentApi, existing, onClose, onImported }: HookImportDialogProps) {
+  const [text, setText] = useState('')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [agents, setAgents] = useState<KagentAgent[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [results, setResults] = useState<Record<string, ApplyResult>>({})
+  const [applying, setApplying] = useState(false)
+
+  useEffect(() => {
+    kagentApi.getAgents().then(setAgents).catch(() => setAgents([]))
+  }, [kagentApi])
+
+  const plan = useMemo(
+    () => planHookImport(parseHookManifests(text, { agents }), existing),
+    [text, agents, existing]
+  )
+  const pending = plan.filter(entry => entry.hook && (entry.action === 'create' || entry.action === 'update') && !results[hookKey(entry.hook)]?.ok)
+  const counts = plan.reduce<Record<HookImportAction, number>>(
+    (acc, entry) => ({ ...acc, [entry.action]: acc[entry.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  )
+  const applied = Object.values(results).some(result => result.ok)
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setResults({})
+    setText(await file.text())
+  }
+
+  // One at a time so a failure is reported against the hook that caused it.
+  // The dialog stays open when anything failed; successful entries drop out of
+  // the pending list, so applying again only retries the failures.
+  const applyAll = async () => {
+    setApplying(true)
+    let failed = false
+    for (const entry of pending) {
+      const hook = entry.hook!
+      const key = hookKey(hook)
+      try {
+        if (entry.action === 'update') {
+          await kagentApi.updateHook(hook.metadata.name, hook.metadata.namespace, hook)
+        } else {
+          await kagentApi.createHook(hook)
+        }
+        setResults(prev => ({ ...prev, [key]: { ok: true } }))
+      } catch (err) {
+        failed = true
+        setResults(prev => ({ ...prev, [key]: { ok: false, message: err instanceof Error ? err.message : 'Failed to save hook' } }))
+      }
+    }
+    setApplying(false)
+    if (!failed) onImported()
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" style={{ maxWidth: '60rem', width: '100%', maxHeight: '90vh', overflow: 'auto' }}>
+        <div className="card-header">
+          <h3 className="card-title">Import Hooks</h3>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)' }}>
+            <label className="btn btn-ghost" style={{ fontSize: '0.875rem', cursor: 'pointer' }}>
+              <Upload style={{ width: '1rem', height: '1rem' }} />
+              Choose File
+              <input
+                type="file"
+                accept=".yaml,.yml,.json"
+                style={{ display: 'none' }}
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+            </label>
+            <span style={{ fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
+              {fileName || 'YAML (one or more documents, Hook or HookList) or JSON. You can also paste below.'}
+            </span>
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setResults({})
+            }}
+            className="input"
+            rows={8}
+            spellCheck={false}
+            placeholder="apiVersion: kagent.dev/v1alpha2&#10;kind: Hook&#10;..."
+            style={{ fontFamily: 'var(--font-family-primary)', fontSize: '0.75rem', whiteSpace: 'pre' }}
+          />
+
+          {plan.length > 0 && (
+            <>
+              <div style={{ display: 'flex', gap: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                {(Object.keys(actionStyles) as HookImportAction[]).map(action => (
+                  <span key={action} style={{ color: actionStyles[action].color }}>
+                    {counts[action]} {actionStyles[action].label.toLowerCase()}
+                  </span>
+                ))}
+              </div>
+
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)' }}>
+                {plan.map(entry => {
+                  const id = entry.source
+                  const key = entry.hook ? hookKey(entry.hook) : null
+                  const result = key ? results[key] : undefined
+                  const canExpand = entry.action === 'update' || entry.action === 'create' || entry.issues.length > 0
+                  const open = expanded === id
+                  return (
+                    <div key={id} style={{ border: '1px solid var(--color-border-primary)', borderRadius: 'var(--radius-md)' }}>
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(open ? null : id)}
+                        disabled={!canExpand}
+                        style={{
+                          width: '100%',
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 'var(--spacing-sm)',
+                          padding: 'var(--spacing-sm)',
+                          background: 'none',
+                          border: 'none',
+                          cursor: canExpand ? 'pointer' : 'default',
+                          color: 'var(--color-text-primary)',
+                          fontSize: '0.875rem',
+                          textAlign: 'left'
+                        }}
+                      >
+                        {open ? <ChevronDown style={{ width: '1rem', height: '1rem' }} /> : <ChevronRight style={{ width: '1rem', height: '1rem', opacity: canExpand ? 1 : 0.3 }} />}
+                        <span style={{ flex: 1 }}>
+                          {key || 'Unrecognized document'}
+                          <span style={{ color: 'var(--color-text-muted)', fontSize: '0.75rem', marginLeft: 'var(--spacing-sm)' }}>{entry.source}</span>
+                        </span>
+                        {result?.ok && <CheckCircle style={{ width: '1rem', height: '1rem', color: 'var(--color-success)' }} />}
+                        {result && !result.ok && <XCircle style={{ width: '1rem', height: '1rem', color: 'var(--color-error)' }} />}
+                        <span style={{ fontSize: '0.75rem', fontWeight: '500', color: actionStyles[entry.action].color }}>
+                          {actionStyles[entry.action].label}
+                        </span>
+                      </button>
+                      {result && !result.ok && (
+                        <div style={{ padding: '0 var(--spacing-sm) var(--spacing-sm)', fontSize: '0.75rem', color: 'var(--color-error)' }}>
+                          {result.message}
+                        </div>
+                      )}
+                      {open && (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)', padding: '0 var(--spacing-sm) var(--spacing-sm)' }}>
+                          {entry.issues.length > 0 && <HookIssueList issues={entry.issues} />}
+                          {entry.diff.length > 0 && <HookDiffView lines={entry.diff} maxHeight="16rem" />}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)' }}>
+            <button type="button" onClick={applied ? onImported : onClose} className="btn btn-ghost">
+              {applied ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={applyAll}
+              disabled={applying || pending.length === 0}
+              className="btn btn-primary"
+              style={{ opacity: applying || pending.length === 0 ? 0.5 : 1 }}
+            >
+              {applying ? 'Applying...' : `Apply ${pending.length} Change${pending.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
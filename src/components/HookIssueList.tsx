@@ -0,0 +1,40 @@
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
+import type { HookIssue } from '../lib/hookValidation'
+
+interface HookIssueListProps {
+  issues: HookIssue[]
+}
+
+// Validation results for a hook, errors first
+export default function HookIssueList({ issues }: HookIssueListProps) {
+  if (issues.length === 0) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-success)' }}>
+        <CheckCircle style={{ width: '0.875rem', height: '0.875rem' }} />
+        Valid Hook
+      </div>
+    )
+  }
+
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? (a.line ?? 0) - (b.line ?? 0) : a.severity === 'error' ? -1 : 1))
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)' }}>
+      {sorted.map((issue, index) => {
+        const Icon = issue.severity === 'error' ? XCircle : AlertTriangle
+        const color = issue.severity === 'error' ? 'var(--color-error)' : 'var(--color-warning)'
+        return (
+          <div key={index} style={{ display: 'flex', alignItems: 'flex-start', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color }}>
+            <Icon style={{ width: '0.875rem', height: '0.875rem', flexShrink: 0, marginTop: '0.125rem' }} />
+            <span>
+              {issue.line !== undefined && (
+                <span style={{ fontFamily: 'var(--font-family-primary)', color: 'var(--color-text-muted)' }}>line {issue.line}: </span>
+              )}
+              {issue.message}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,5 +1,17 @@
-import React, { useState, useEffect } from 'react'
-import { KagentAPI, type Hook, type EventConfiguration } from '../lib/kagent'
+import React, { useState, useEffect, useMemo } from 'react'
+import { KagentAPI, type Hook, type EventConfiguration, type KagentAgent } from '../lib/kagent'
+import { KagentHttpError } from '../lib/errors'
+import { HOOK_API_VERSION, HOOK_KIND, hasErrors } from '../lib/hookValidation'
+import { hookKey, hookToYaml, hooksToYaml, parseHookYaml } from '../lib/hookManifests'
+import { diffLines, hasChanges, type DiffLine } from '../lib/textDiff'
+import { HOOK_PROMPT_VARIABLES, hookPromptValues, sampleActiveEvent } from '../lib/promptTemplate'
+import { getEventType, listEventTypes, withEventTypes, type EventTypeDefinition } from '../lib/eventTypes'
+import EventTypeIcon from './EventTypeIcon'
+import HookDiffView from './HookDiffView'
+import HookIssueList from './HookIssueList'
+import HookImportDialog from './HookImportDialog'
+import HookSimulateDialog from './HookSimulateDialog'
+import PromptTemplateInput from './PromptTemplateInput'
 import { 
   Plus, 
   Trash2, 
@@ -7,12 +19,11 @@ import {
   Edit, 
   Eye, 
   Copy,
-  XCircle,
-  AlertTriangle,
-  Clock,
   Zap,
-  Activity,
-  FileText
+  FileText,
+  Download,
+  Upload,
+  Play
 } from 'lucide-react'
 
 interface HookManagerProps {
@@ -28,6 +39,10 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false)
   const [editingHook, setEditingHook] = useState<Hook | null>(null)
   const [viewingHook, setViewingHook] = useState<Hook | null>(null)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [simulatingHook, setSimulatingHook] = useState<Hook | null>(null)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [eventTypes, setEventTypes] = useState<EventTypeDefinition[]>(listEventTypes())
 
   useEffect(() => {
     console.log('HookManager: useEffect triggered, calling loadHooks()')
@@ -40,9 +55,14 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
       setLoading(true)
       setError(null)
       console.log('HookManager: About to call kagentApi.getHooks()')
-      const hooksList = await kagentApi.getHooks()
+      // getEventTypes also registers khook's list for labels and icons
+      const [hooksList] = await Promise.all([kagentApi.getHooks(), kagentApi.getEventTypes()])
       console.log('HookManager: Got hooks data', { hooksList })
       setHooks(hooksList)
+      // Drop selections for hooks that no longer exist
+      setSelectedKeys(prev => new Set(hooksList.map(hookKey).filter(key => prev.has(key))))
+      // Types used by existing hooks are offered even when khook does not list them
+      setEventTypes(withEventTypes(hooksList.flatMap(h => h.spec.eventConfigurations.map(c => c.eventType))))
     } catch (err) {
       console.error('HookManager: Failed to load hooks:', err)
       setError(err instanceof Error ? err.message : 'Failed to load hooks')
@@ -75,21 +95,6 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
     }
   }
 
-  const getEventTypeIcon = (eventType: string) => {
-    switch (eventType) {
-      case 'pod-restart':
-        return <RefreshCw style={{ width: '1rem', height: '1rem', color: 'var(--color-warning)' }} />
-      case 'pod-pending':
-        return <Clock style={{ width: '1rem', height: '1rem', color: 'var(--color-info)' }} />
-      case 'oom-kill':
-        return <XCircle style={{ width: '1rem', height: '1rem', color: 'var(--color-error)' }} />
-      case 'probe-failed':
-        return <AlertTriangle style={{ width: '1rem', height: '1rem', color: 'var(--color-warning)' }} />
-      default:
-        return <Activity style={{ width: '1rem', height: '1rem', color: 'var(--color-text-muted)' }} />
-    }
-  }
-
   const getActiveEventsCount = (hook: Hook) => {
     return hook.status?.activeEvents?.length || 0
   }
@@ -98,6 +103,30 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
     navigator.clipboard.writeText(text)
   }
 
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  // Selected hooks, or all of them when nothing is selected
+  const exportHooks = () => {
+    const exported = selectedKeys.size > 0 ? hooks.filter(hook => selectedKeys.has(hookKey(hook))) : hooks
+    const blob = new Blob([hooksToYaml(exported)], { type: 'application/yaml' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = exported.length === 1 ? `${exported[0].metadata.name}.yaml` : 'hooks.yaml'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
   if (loading) {
     return (
       <div style={{
@@ -167,6 +196,33 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
               <RefreshCw style={{ width: '1rem', height: '1rem' }} />
               Refresh
             </button>
+            <button
+              onClick={() => setShowImportDialog(true)}
+              className="btn btn-ghost"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                fontSize: '0.875rem'
+              }}
+            >
+              <Upload style={{ width: '1rem', height: '1rem' }} />
+              Import
+            </button>
+            <button
+              onClick={exportHooks}
+              disabled={hooks.length === 0}
+              className="btn btn-ghost"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                fontSize: '0.875rem'
+              }}
+            >
+              <Download style={{ width: '1rem', height: '1rem' }} />
+              {selectedKeys.size > 0 ? `Export ${selectedKeys.size} Selected` : 'Export All'}
+            </button>
             <button
               onClick={() => setShowCreateDialog(true)}
               className="btn btn-primary"
@@ -266,6 +322,12 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
                 marginBottom: 'var(--spacing-md)'
               }}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.has(hookKey(hook))}
+                    onChange={() => toggleSelected(hookKey(hook))}
+                    title="Select for export"
+                  />
                   <Zap style={{ 
                     width: '1.25rem', 
                     height: '1.25rem', 
@@ -348,9 +410,9 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
                         padding: 'var(--spacing-xs) var(--spacing-sm)'
                       }}
                     >
-                      {getEventTypeIcon(config.eventType)}
+                      <EventTypeIcon eventType={config.eventType} />
                       <span style={{ color: 'var(--color-text-secondary)' }}>
-                        {config.eventType}
+                        {getEventType(config.eventType).label}
                       </span>
                       <span style={{ 
                         color: 'var(--color-text-muted)',
@@ -394,6 +456,14 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
                   <Edit style={{ width: '0.75rem', height: '0.75rem' }} />
                   Edit
                 </button>
+                <button
+                  onClick={() => setSimulatingHook(hook)}
+                  className="btn btn-ghost"
+                  style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                >
+                  <Play style={{ width: '0.75rem', height: '0.75rem' }} />
+                  Simulate
+                </button>
                 <button
                   onClick={() => copyToClipboard(JSON.stringify(hook, null, 2))}
                   className="btn btn-ghost"
@@ -413,6 +483,7 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
         <CreateEditHookDialog
           hook={editingHook}
           kagentApi={kagentApi}
+          eventTypes={eventTypes}
           onClose={() => {
             setShowCreateDialog(false)
             setEditingHook(null)
@@ -425,6 +496,28 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
         />
       )}
 
+      {/* Import Hooks Dialog */}
+      {showImportDialog && (
+        <HookImportDialog
+          kagentApi={kagentApi}
+          existing={hooks}
+          onClose={() => setShowImportDialog(false)}
+          onImported={() => {
+            setShowImportDialog(false)
+            loadHooks()
+          }}
+        />
+      )}
+
+      {/* Simulate Hook Dialog */}
+      {simulatingHook && (
+        <HookSimulateDialog
+          hook={simulatingHook}
+          kagentApi={kagentApi}
+          onClose={() => setSimulatingHook(null)}
+        />
+      )}
+
       {/* View Hook Dialog */}
       {viewingHook && (
         <ViewHookDialog
@@ -437,78 +530,159 @@ export default function HookManager({ kagentApi }: HookManagerProps) {
 }
 
 // Create/Edit Hook Dialog Component
+interface HookFormData {
+  name: string
+  namespace: string
+  eventConfigurations: EventConfiguration[]
+}
+
+function buildHook(formData: HookFormData): Hook {
+  return {
+    apiVersion: HOOK_API_VERSION,
+    kind: HOOK_KIND,
+    metadata: {
+      name: formData.name,
+      namespace: formData.namespace
+    },
+    spec: {
+      eventConfigurations: formData.eventConfigurations
+    }
+  }
+}
+
+// Hand-written YAML may leave fields out or use other scalar types
+function formFromHook(hook: Hook): HookFormData {
+  const text = (value: unknown) => value === undefined || value === null ? '' : String(value)
+  return {
+    name: text(hook.metadata.name),
+    namespace: text(hook.metadata.namespace),
+    eventConfigurations: hook.spec.eventConfigurations.map(config => ({
+      eventType: text(config.eventType),
+      agentId: text(config.agentId),
+      prompt: text(config.prompt)
+    }))
+  }
+}
+
 interface CreateEditHookDialogProps {
   hook?: Hook | null
   kagentApi: KagentAPI
+  eventTypes: EventTypeDefinition[]
   onClose: () => void
   onSuccess: () => void
 }
 
-function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEditHookDialogProps) {
-  const [formData, setFormData] = useState({
-    name: hook?.metadata.name || '',
-    namespace: hook?.metadata.namespace || 'default',
-    eventConfigurations: hook?.spec.eventConfigurations || [
+function CreateEditHookDialog({ hook, kagentApi, eventTypes, onClose, onSuccess }: CreateEditHookDialogProps) {
+  const [formData, setFormData] = useState<HookFormData>(() => hook ? formFromHook(hook) : {
+    name: '',
+    namespace: 'default',
+    eventConfigurations: [
       {
-        eventType: 'pod-restart' as const,
+        eventType: 'pod-restart',
         agentId: '',
         prompt: ''
       }
     ]
   })
+  const [yamlText, setYamlText] = useState(() => hookToYaml(buildHook(formData)))
+  const [agents, setAgents] = useState<KagentAgent[]>([])
+  const [review, setReview] = useState<{ lines: DiffLine[]; exists: boolean } | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  useEffect(() => {
+    // Without agents the unknown-agent check is skipped rather than failing every hook
+    kagentApi.getAgents().then(setAgents).catch(() => setAgents([]))
+  }, [kagentApi])
+
+  const parsed = useMemo(() => parseHookYaml(yamlText, { agents }), [yamlText, agents])
+
+  // Form edits rewrite the YAML pane
+  const editForm = (next: HookFormData) => {
+    setFormData(next)
+    setYamlText(hookToYaml(buildHook(next)))
+  }
+
+  // YAML edits update the form whenever the document still has a Hook's shape
+  const editYaml = (text: string) => {
+    setYamlText(text)
+    const { hook: edited } = parseHookYaml(text)
+    if (edited) {
+      setFormData(formFromHook(edited))
+    }
+  }
+
   const addEventConfiguration = () => {
-    setFormData(prev => ({
-      ...prev,
+    editForm({
+      ...formData,
       eventConfigurations: [
-        ...prev.eventConfigurations,
+        ...formData.eventConfigurations,
         {
-          eventType: 'pod-restart' as const,
+          eventType: 'pod-restart',
           agentId: '',
           prompt: ''
         }
       ]
-    }))
+    })
   }
 
   const removeEventConfiguration = (index: number) => {
-    setFormData(prev => ({
-      ...prev,
-      eventConfigurations: prev.eventConfigurations.filter((_, i) => i !== index)
-    }))
+    editForm({
+      ...formData,
+      eventConfigurations: formData.eventConfigurations.filter((_, i) => i !== index)
+    })
   }
 
   const updateEventConfiguration = (index: number, field: keyof EventConfiguration, value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      eventConfigurations: prev.eventConfigurations.map((config, i) => 
+    editForm({
+      ...formData,
+      eventConfigurations: formData.eventConfigurations.map((config, i) => 
         i === index ? { ...config, [field]: value } : config
       )
-    }))
+    })
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (hasErrors(parsed.issues)) {
+      setError('Fix the validation errors before saving')
+      return
+    }
+    // Updates go to the hook's own name; a rename would need a create and a delete
+    if (hook && (formData.name !== hook.metadata.name || formData.namespace !== hook.metadata.namespace)) {
+      setError(`The name and namespace of ${hook.metadata.namespace}/${hook.metadata.name} cannot be changed. Create a new hook instead.`)
+      return
+    }
+
     setLoading(true)
     setError(null)
 
     try {
-      const hookData: Hook = {
-        apiVersion: 'kagent.dev/v1alpha2',
-        kind: 'Hook',
-        metadata: {
-          name: formData.name,
-          namespace: formData.namespace
-        },
-        spec: {
-          eventConfigurations: formData.eventConfigurations
-        }
-      }
+      // Diff against what the server has now, not what the dialog was opened with
+      const current = await kagentApi.getHook(formData.name, formData.namespace).catch(err => {
+        if (err instanceof KagentHttpError && err.status === 404) return null
+        throw err
+      })
+      setReview({
+        lines: diffLines(current ? hookToYaml(current) : '', hookToYaml(buildHook(formData))),
+        exists: current !== null
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the current hook')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      if (hook) {
-        await kagentApi.updateHook(hook.metadata.name, hook.metadata.namespace, hookData)
+  const applyChanges = async () => {
+    if (!review) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const hookData = buildHook(formData)
+      if (review.exists) {
+        await kagentApi.updateHook(formData.name, formData.namespace, hookData)
       } else {
         await kagentApi.createHook(hookData)
       }
@@ -536,7 +710,7 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
     }}>
       <div className="card" style={{ 
         width: '100%', 
-        maxWidth: '50rem',
+        maxWidth: '90rem',
         maxHeight: '90vh',
         padding: 'var(--spacing-lg)',
         overflow: 'auto'
@@ -551,7 +725,57 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
           {hook ? 'Edit Hook' : 'Create Hook'}
         </h3>
         
+        {review ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-md)' }}>
+            <p style={{ fontSize: '0.875rem', color: 'var(--color-text-secondary)', margin: 0 }}>
+              {review.exists
+                ? `Changes to ${formData.namespace}/${formData.name} compared with the version on the server:`
+                : `${formData.namespace}/${formData.name} does not exist on the server yet and will be created:`}
+            </p>
+            <HookDiffView lines={review.lines} maxHeight="60vh" />
+            {!hasChanges(review.lines) && (
+              <p style={{ fontSize: '0.875rem', color: 'var(--color-text-muted)', margin: 0 }}>
+                The server already has this version; there is nothing to save.
+              </p>
+            )}
+
+            {error && (
+              <div className="alert alert-error">
+                <span style={{ color: 'var(--color-error)', fontSize: '0.875rem' }}>{error}</span>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)' }}>
+              <button
+                type="button"
+                onClick={() => {
+                  setReview(null)
+                  setError(null)
+                }}
+                className="btn btn-ghost"
+              >
+                Back to Editor
+              </button>
+              <button
+                type="button"
+                onClick={applyChanges}
+                disabled={loading || !hasChanges(review.lines)}
+                className="btn btn-primary"
+                style={{ opacity: loading || !hasChanges(review.lines) ? 0.5 : 1 }}
+              >
+                {loading ? 'Saving...' : (review.exists ? 'Update Hook' : 'Create Hook')}
+              </button>
+            </div>
+          </div>
+        ) : (
         <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+          <datalist id="hook-event-types">
+            {eventTypes.map(type => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </datalist>
+          <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: 'var(--spacing-lg)', alignItems: 'start' }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-md)' }}>
             <div>
               <label style={{ 
@@ -566,9 +790,11 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
               <input
                 type="text"
                 value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                onChange={(e) => editForm({ ...formData, name: e.target.value })}
                 className="input"
                 required
+                readOnly={Boolean(hook)}
+                title={hook ? 'Existing hooks cannot be renamed' : undefined}
               />
             </div>
 
@@ -585,9 +811,11 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
               <input
                 type="text"
                 value={formData.namespace}
-                onChange={(e) => setFormData({ ...formData, namespace: e.target.value })}
+                onChange={(e) => editForm({ ...formData, namespace: e.target.value })}
                 className="input"
                 required
+                readOnly={Boolean(hook)}
+                title={hook ? 'Existing hooks cannot be renamed' : undefined}
               />
             </div>
           </div>
@@ -663,17 +891,20 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
                       }}>
                         Event Type
                       </label>
-                      <select
+                      <input
+                        type="text"
+                        list="hook-event-types"
                         value={config.eventType}
-                        onChange={(e) => updateEventConfiguration(index, 'eventType', e.target.value)}
+                        onChange={(e) => updateEventConfiguration(index, 'eventType', e.target.value.trim())}
                         className="input"
+                        placeholder="e.g., pod-restart"
                         required
-                      >
-                        <option value="pod-restart">Pod Restart</option>
-                        <option value="pod-pending">Pod Pending</option>
-                        <option value="oom-kill">OOM Kill</option>
-                        <option value="probe-failed">Probe Failed</option>
-                      </select>
+                      />
+                      {getEventType(config.eventType).description && (
+                        <p style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', margin: 'var(--spacing-xs) 0 0' }}>
+                          {getEventType(config.eventType).description}
+                        </p>
+                      )}
                     </div>
 
                     <div>
@@ -706,13 +937,17 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
                       }}>
                         Prompt Template
                       </label>
-                      <textarea
+                      <PromptTemplateInput
                         value={config.prompt}
-                        onChange={(e) => updateEventConfiguration(index, 'prompt', e.target.value)}
-                        className="input"
+                        onChange={(value) => updateEventConfiguration(index, 'prompt', value)}
+                        variables={HOOK_PROMPT_VARIABLES}
+                        previewValues={hookPromptValues(sampleActiveEvent(config.eventType), {
+                          hookName: formData.name || 'my-hook',
+                          namespace: formData.namespace
+                        })}
+                        previewLabel="Preview with a sample event"
                         rows={4}
                         placeholder="A pod named {{.ResourceName}} has restarted at {{.EventTime}}. Please analyze the restart reason and remediate in a fully autonomous matter..."
-                        required
                       />
                     </div>
                   </div>
@@ -720,6 +955,27 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
               ))}
             </div>
           </div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)', position: 'sticky', top: 0 }}>
+            <label style={{ 
+              fontSize: '0.875rem', 
+              fontWeight: '500', 
+              color: 'var(--color-text-secondary)'
+            }}>
+              YAML
+            </label>
+            <textarea
+              value={yamlText}
+              onChange={(e) => editYaml(e.target.value)}
+              className="input"
+              rows={24}
+              spellCheck={false}
+              style={{ fontFamily: 'var(--font-family-primary)', fontSize: '0.75rem', whiteSpace: 'pre', resize: 'vertical' }}
+            />
+            <HookIssueList issues={parsed.issues} />
+          </div>
+          </div>
 
           {error && (
             <div className="alert alert-error">
@@ -742,14 +998,15 @@ function CreateEditHookDialog({ hook, kagentApi, onClose, onSuccess }: CreateEdi
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || hasErrors(parsed.issues)}
               className="btn btn-primary"
-              style={{ opacity: loading ? 0.5 : 1 }}
+              style={{ opacity: loading || hasErrors(parsed.issues) ? 0.5 : 1 }}
             >
-              {loading ? 'Saving...' : (hook ? 'Update Hook' : 'Create Hook')}
+              {loading ? 'Checking...' : 'Review Changes'}
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { Loader2, Play } from 'lucide-react'
+import type { Hook, KagentAPI, KagentAgent } from '../lib/kagent'
+import { getEventType } from '../lib/eventTypes'
+import { simulateHook, syntheticEvent, type HookSimulationResult } from '../lib/hookSimulation'
+import { HOOK_PROMPT_VARIABLES, renderTemplate } from '../lib/promptTemplate'
+import PromptTemplateInput from './PromptTemplateInput'
+
+interface HookSimulateDialogProps {
+  hook: Hook
+  kagentApi: KagentAPI
+  onClose: () => void
+}
+
+const labelStyle = {
+  display: 'block',
+  fontSize: '0.875rem',
+  fontWeight: '500',
+  color: 'var(--color-text-secondary)',
+  marginBottom: 'var(--spacing-sm)'
+}
+
+// Sends a hook's prompt for a synthetic event to its agent and shows the reply.
+// The prompt can be edited here between runs; the hook itself is not changed.
+export default function HookSimulateDialog({ hook, kagentApi, onClose }: HookSimulateDialogProps) {
+  const configurations = hook.spec.eventConfigurations
+  const [configIndex, setConfigIndex] = useState(0)
+  const [resourceName, setResourceName] = useState('demo-app-7d9f8b6c5-x2k4q')
+  const [namespace, setNamespace] = useState(hook.metadata.namespace)
+  const [prompt, setPrompt] = useState(configurations[0]?.prompt || '')
+  const [agents, setAgents] = useState<KagentAgent[]>([])
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<HookSimulationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    kagentApi.getAgents().then(setAgents).catch(() => setAgents([]))
+  }, [kagentApi])
+
+  const configuration = configurations[configIndex]
+  const event = useMemo(
+    () => syntheticEvent(configuration?.eventType || '', resourceName, namespace, hook.metadata.name),
+    [configuration?.eventType, resourceName, namespace, hook.metadata.name]
+  )
+
+  const selectConfiguration = (index: number) => {
+    setConfigIndex(index)
+    setPrompt(configurations[index]?.prompt || '')
+    setResult(null)
+  }
+
+  const run = async () => {
+    if (!configuration) return
+    setRunning(true)
+    setError(null)
+    setResult(null)
+    try {
+      setResult(await simulateHook(kagentApi, { ...configuration, prompt }, event, agents))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" style={{ maxWidth: '60rem', width: '100%', maxHeight: '90vh', overflow: 'auto' }}>
+        <div className="card-header">
+          <h3 className="card-title">Simulate {hook.metadata.name}</h3>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 2fr 1fr', gap: 'var(--spacing-md)' }}>
+            <div>
+              <label style={labelStyle}>Event Configuration</label>
+              <select
+                value={configIndex}
+                onChange={(e) => selectConfiguration(Number(e.target.value))}
+                className="input"
+              >
+                {configurations.map((config, index) => (
+                  <option key={index} value={index}>
+                    {getEventType(config.eventType).label} → {config.agentId}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>Resource Name</label>
+              <input
+                type="text"
+                value={resourceName}
+                onChange={(e) => setResourceName(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Namespace</label>
+              <input
+                type="text"
+                value={namespace}
+                onChange={(e) => setNamespace(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: 'var(--spacing-md)' }}>
+            <div>
+              <label style={labelStyle}>Prompt Template</label>
+              <PromptTemplateInput
+                value={prompt}
+                onChange={setPrompt}
+                variables={HOOK_PROMPT_VARIABLES}
+                rows={8}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Rendered Prompt</label>
+              <pre style={{
+                margin: 0,
+                minHeight: '10rem',
+                maxHeight: '16rem',
+                overflow: 'auto',
+                whiteSpace: 'pre-wrap',
+                fontSize: '0.75rem',
+                fontFamily: 'var(--font-family-primary)',
+                color: 'var(--color-text-secondary)',
+                background: 'var(--color-bg-tertiary)',
+                borderRadius: 'var(--radius-md)',
+                padding: 'var(--spacing-sm)'
+              }}>
+                {renderTemplate(prompt, event, HOOK_PROMPT_VARIABLES)}
+              </pre>
+            </div>
+          </div>
+
+          <p style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', margin: 0 }}>
+            Runs in a throwaway session that is deleted afterwards. The agent may still call its tools, so point it at a resource it is safe to touch.
+          </p>
+
+          {error && (
+            <div className="alert alert-error">
+              <span style={{ color: 'var(--color-error)', fontSize: '0.875rem' }}>{error}</span>
+            </div>
+          )}
+
+          {running && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', fontSize: '0.875rem', color: 'var(--color-text-secondary)' }}>
+              <Loader2 style={{ width: '1rem', height: '1rem', animation: 'spin 1s linear infinite' }} />
+              Waiting for {configuration?.agentId}...
+            </div>
+          )}
+
+          {result && (
+            <div className="card" style={{ padding: 'var(--spacing-md)' }}>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-sm)' }}>
+                Response from {configuration?.agentId} in {(result.durationMs / 1000).toFixed(1)}s
+              </div>
+              <div className="markdown-content" style={{ lineHeight: 1.6 }}>
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {result.response}
+                </ReactMarkdown>
+              </div>
+            </div>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)' }}>
+            <button type="button" onClick={onClose} className="btn btn-ghost">
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={run}
+              disabled={running || !configuration || !prompt.trim()}
+              className="btn btn-primary"
+              style={{ opacity: running || !configuration || !prompt.trim() ? 0.5 : 1 }}
+            >
+              <Play style={{ width: '1rem', height: '1rem' }} />
+              {result ? 'Run Again' : 'Run Simulation'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
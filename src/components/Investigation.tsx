@@ -1,9 +1,12 @@
-import { useState, useEffect, memo } from 'react'
+import { useState, useEffect, useRef, memo } from 'react'
 import { 
   Search, AlertTriangle, BarChart3, Database, Network, 
   Shield, Cpu, FileText, ChevronRight, Download, Play, 
-  Clock, CheckCircle, XCircle, Loader2, MessageSquare, RefreshCw
+  Clock, CheckCircle, XCircle, Loader2, MessageSquare, RefreshCw, Bell
 } from 'lucide-react'
+import type { Alert } from '../lib/kagent'
+import { getEventType } from '../lib/eventTypes'
+import { alertInvestigationPreamble, investigationTemplateId, linkAlertInvestigation, unlinkAlertInvestigation } from '../lib/alertInvestigations'
 
 interface InvestigationTemplate {
   id: string
@@ -17,13 +20,17 @@ interface InvestigationTemplate {
 
 interface InvestigationProps {
   agents: any[]
-  onStartChat: (agent: any) => void
+  // initialMessage seeds the agent's chat, e.g. with the alert being investigated
+  onStartChat: (agent: any, initialMessage?: string) => void
   onDebugInfo?: (message: string) => void
   chatMessages?: any[] // Add chat messages prop
   agentChatSessions?: { [agentName: string]: { session: any; messages: any[]; lastActive: string } } // Add chat sessions prop
+  // Alert to start an investigation for, with the template its event type maps to
+  alertToInvestigate?: Alert | null
+  onAlertInvestigationStarted?: () => void
 }
 
-export const Investigation = memo(function Investigation({ agents, onStartChat, onDebugInfo, chatMessages = [], agentChatSessions = {} }: InvestigationProps) {
+export const Investigation = memo(function Investigation({ agents, onStartChat, onDebugInfo, chatMessages = [], agentChatSessions = {}, alertToInvestigate, onAlertInvestigationStarted }: InvestigationProps) {
   const [activeInvestigation, setActiveInvestigation] = useState<any>(() => {
     const saved = localStorage.getItem('sre-ide-active-investigation')
     return saved ? JSON.parse(saved) : null
@@ -187,13 +194,20 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
   ]
 
   const clearInvestigation = () => {
+    if (activeInvestigation) {
+      unlinkAlertInvestigation(activeInvestigation.id)
+    }
     setActiveInvestigation(null)
     setCurrentStep(0)
     localStorage.removeItem('sre-ide-active-investigation')
     onDebugInfo?.('🧹 Cleared previous investigation data')
   }
 
-  const startInvestigation = async (template: InvestigationTemplate) => {
+  // Preamble for an investigation step when the investigation came from an alert
+  const stepMessage = (investigation: { name: string; agents: string[]; alert?: Alert }, step: number): string | undefined =>
+    investigation.alert ? alertInvestigationPreamble(investigation.alert, investigation, step) : undefined
+
+  const startInvestigation = async (template: InvestigationTemplate, alert?: Alert) => {
     setIsStartingInvestigation(true)
     setInvestigationError(null)
     
@@ -218,6 +232,7 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
       const investigation = {
         ...template,
         id: `inv-${Date.now()}`,
+        ...(alert ? { name: `${template.name}: ${getEventType(alert.eventType).label} on ${alert.resourceName}`, alert } : {}),
         startTime: new Date().toISOString(),
         status: 'active',
         currentAgentIndex: 0,
@@ -232,7 +247,10 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
       
       setActiveInvestigation(investigationWithStep)
       setCurrentStep(0)
-      onDebugInfo?.(`✅ Started investigation: ${template.name}`)
+      if (alert) {
+        linkAlertInvestigation(alert, investigation)
+      }
+      onDebugInfo?.(`✅ Started investigation: ${investigation.name}`)
       
       // Start chat with first agent if available
       const firstAgentName = template.agents[0]
@@ -253,7 +271,7 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
       }
       
       if (firstAgent) {
-        onStartChat(firstAgent)
+        onStartChat(firstAgent, stepMessage(investigation, 0))
         onDebugInfo?.(`🚀 Starting investigation with agent: ${firstAgent.name}`)
       } else {
         throw new Error('No agents available for investigation')
@@ -344,7 +362,7 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
       }
       
       if (nextAgent) {
-        onStartChat(nextAgent)
+        onStartChat(nextAgent, stepMessage(activeInvestigation, nextIndex))
         onDebugInfo?.(`✅ Successfully switched to agent: ${nextAgent.name}`)
         
         // Update both the currentStep and the active investigation
@@ -375,6 +393,7 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
     }
     
     onDebugInfo?.('Investigation marked as completed')
+    unlinkAlertInvestigation(activeInvestigation.id)
     
     setInvestigationHistory(prev => {
       const newHistory = [completed, ...prev]
@@ -386,6 +405,10 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
     onDebugInfo?.(`Completed investigation: ${completed.name}`)
   }
 
+  // "Pod Restart on default/api-7d9f8b6c5-x2k4q (critical, alert-123)"
+  const alertReference = (alert: Alert): string =>
+    `${getEventType(alert.eventType).label} on ${alert.namespace}/${alert.resourceName} (${alert.severity}, ${alert.id})`
+
   const getAgentDescription = (agentName: string): string => {
     const agentDescriptions: { [key: string]: string } = {
       'k8s-agent': 'Kubernetes cluster analysis and troubleshooting',
@@ -576,7 +599,8 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
       summary: {
         totalAgents: investigation.agents.length,
         duration: `${Math.round(investigation.duration / 60000)} minutes`,
-        status: investigation.status
+        status: investigation.status,
+        ...(investigation.alert ? { alert: alertReference(investigation.alert) } : {})
       }
     }
     
@@ -710,6 +734,28 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
         addStyledText(investigation.status.toUpperCase(), margin + 5, currentY + 6, 8, [255, 255, 255], true)
         currentY += 20
         
+        // The alert the investigation was started from
+        if (investigation.alert) {
+          const alert: Alert = investigation.alert
+          checkPageBreak(50)
+          addStyledText('TRIGGERING ALERT', margin, currentY, 14, primaryColor, true)
+          currentY += 8
+          addColoredRect(margin, currentY, pageWidth - (margin * 2), 0.5, primaryColor)
+          currentY += 15
+          const alertLines = [
+            `Alert: ${alertReference(alert)}`,
+            `Hook: ${alert.hookName}`,
+            `First Seen: ${new Date(alert.firstSeen).toLocaleString()}`,
+            `Last Seen: ${new Date(alert.lastSeen).toLocaleString()}`
+          ]
+          alertLines.forEach(line => {
+            addStyledText(line, margin, currentY, 10)
+            currentY += lineHeight + 2
+          })
+          const messageHeight = addStyledText(`Message: ${alert.message}`, margin, currentY, 10, textColor, false, pageWidth - (margin * 2))
+          currentY += messageHeight + 15
+        }
+        
         // Executive Summary
         checkPageBreak(30)
         addStyledText('EXECUTIVE SUMMARY', margin, currentY, 14, primaryColor, true)
@@ -1085,6 +1131,9 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
    }
 
   const continueInvestigation = (investigation: any) => {
+    if (activeInvestigation) {
+      unlinkAlertInvestigation(activeInvestigation.id)
+    }
     // Create a new investigation based on the completed one
     const newInvestigation = {
       ...investigation,
@@ -1098,6 +1147,9 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
     
     setActiveInvestigation(newInvestigation)
     setCurrentStep(0)
+    if (newInvestigation.alert) {
+      linkAlertInvestigation(newInvestigation.alert, newInvestigation)
+    }
     onDebugInfo?.(`Continuing investigation: ${investigation.name}`)
     
     // Start chat with first agent
@@ -1105,13 +1157,28 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
     const firstAgent = agents.find(a => a.name === firstAgentName)
     
     if (firstAgent) {
-      onStartChat(firstAgent)
+      onStartChat(firstAgent, stepMessage(newInvestigation, 0))
       onDebugInfo?.(`Continuing investigation with agent: ${firstAgent.name}`)
     } else {
       onDebugInfo?.(`Agent ${firstAgentName} not found for continuation`)
     }
   }
 
+  // Start the investigation requested from an alert, once; StrictMode runs
+  // the effect twice before the parent clears the request. Only a new request
+  // starts one, so the effect reads the handlers it calls from here.
+  const startedAlertRef = useRef<Alert | null>(null)
+  const latest = useRef({ startInvestigation, templates, onAlertInvestigationStarted })
+  latest.current = { startInvestigation, templates, onAlertInvestigationStarted }
+  useEffect(() => {
+    if (!alertToInvestigate || startedAlertRef.current === alertToInvestigate) return
+    startedAlertRef.current = alertToInvestigate
+    const current = latest.current
+    current.onAlertInvestigationStarted?.()
+    const templateId = investigationTemplateId(alertToInvestigate)
+    current.startInvestigation(current.templates.find(template => template.id === templateId) || current.templates[0], alertToInvestigate)
+  }, [alertToInvestigate])
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xl)' }}>
       {/* VISUAL DOWNLOAD ALERT - BIG POPUP */}
@@ -1271,6 +1338,19 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
                 }}>
                   Started {new Date(activeInvestigation.startTime).toLocaleString()}
                 </p>
+                {activeInvestigation.alert && (
+                  <p style={{ 
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 'var(--spacing-xs)',
+                    color: 'var(--color-text-secondary)', 
+                    fontSize: '0.75rem', 
+                    margin: 'var(--spacing-xs) 0 0 0'
+                  }}>
+                    <Bell style={{ width: '0.75rem', height: '0.75rem' }} />
+                    {alertReference(activeInvestigation.alert)}
+                  </p>
+                )}
               </div>
             </div>
             <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
@@ -1897,6 +1977,15 @@ export const Investigation = memo(function Investigation({ agents, onStartChat,
                     {new Date(inv.endTime).toLocaleString()} • 
                     Duration: {Math.round(inv.duration / 60000)} min
                   </p>
+                  {inv.alert && (
+                    <p style={{ 
+                      color: 'var(--color-text-muted)', 
+                      margin: 'var(--spacing-xs) 0 0 0', 
+                      fontSize: '0.75rem' 
+                    }}>
+                      {alertReference(inv.alert)}
+                    </p>
+                  )}
                 </div>
                 <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
                   <button
@@ -0,0 +1,357 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { CheckCircle, Edit, Plus, Send, Trash2, XCircle } from 'lucide-react'
+import type { Alert } from '../lib/kagent'
+import {
+  CHANNEL_TYPES,
+  buildChannelRequest,
+  channelType,
+  deleteNotificationChannel,
+  getMockWebhookRequests,
+  getNotificationChannels,
+  loadNotificationChannels,
+  newNotificationChannel,
+  saveNotificationChannel,
+  sendChannelRequest,
+  sendToChannel,
+  startMockWebhook,
+  subscribeToNotificationChannels,
+  validateChannel,
+  type MockWebhookRequest,
+  type NotificationChannel,
+  type NotificationChannelType
+} from '../lib/notificationChannels'
+import { ALERT_TEMPLATE_VARIABLES, alertTemplateValues, sampleAlert } from '../lib/promptTemplate'
+import { isTauri } from '../lib/tauri'
+import PromptTemplateInput from './PromptTemplateInput'
+
+const SEVERITIES: Alert['severity'][] = ['critical', 'high', 'medium', 'low']
+
+interface TestResult {
+  ok: boolean
+  message: string
+  // What the local mock endpoint received
+  received?: MockWebhookRequest
+}
+
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+// Slack, PagerDuty, Teams and webhook channels that alerts are routed to
+export default function NotificationChannels() {
+  const channels = useSyncExternalStore(subscribeToNotificationChannels, getNotificationChannels)
+  const [draft, setDraft] = useState<NotificationChannel | null>(null)
+  const [namespacesText, setNamespacesText] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<TestResult | null>(null)
+
+  useEffect(() => {
+    loadNotificationChannels()
+  }, [])
+
+  const edit = (channel: NotificationChannel) => {
+    setDraft(channel)
+    setNamespacesText(channel.namespaces.join(', '))
+    setErrors([])
+    setTestResult(null)
+  }
+
+  const currentDraft = (): NotificationChannel | null => draft && {
+    ...draft,
+    name: draft.name.trim(),
+    target: draft.target.trim(),
+    namespaces: namespacesText.split(',').map(namespace => namespace.trim()).filter(Boolean)
+  }
+
+  const changeType = (type: NotificationChannelType) => {
+    if (!draft) return
+    // Keep a customised template; swap an untouched one for the new type's default
+    const template = draft.template === channelType(draft.type).defaultTemplate
+      ? channelType(type).defaultTemplate
+      : draft.template
+    setDraft({ ...draft, type, template })
+  }
+
+  const toggleSeverity = (severity: Alert['severity']) => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      severities: draft.severities.includes(severity)
+        ? draft.severities.filter(existing => existing !== severity)
+        : [...draft.severities, severity]
+    })
+  }
+
+  const save = async () => {
+    const channel = currentDraft()
+    if (!channel) return
+    const problems = validateChannel(channel)
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    setSaving(true)
+    try {
+      await saveNotificationChannel(channel)
+      setDraft(null)
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save the channel'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete notification channel "${channel.name}"?`)) return
+    await deleteNotificationChannel(channel.id)
+  }
+
+  const toggleEnabled = (channel: NotificationChannel) =>
+    saveNotificationChannel({ ...channel, enabled: !channel.enabled })
+
+  // Sends a sample alert to the channel itself, or to the local mock endpoint
+  const sendTest = async (toMock: boolean) => {
+    const channel = currentDraft()
+    if (!channel) return
+    setTesting(true)
+    setTestResult(null)
+    try {
+      if (toMock) {
+        const url = await startMockWebhook()
+        await sendChannelRequest(buildChannelRequest(channel, sampleAlert(), url))
+        const [received] = await getMockWebhookRequests()
+        setTestResult({ ok: true, message: `Delivered to the local mock endpoint at ${url}`, received })
+      } else {
+        const response = await sendToChannel(channel, sampleAlert())
+        setTestResult({ ok: true, message: `Delivered (HTTP ${response.status})` })
+      }
+    } catch (error) {
+      setTestResult({ ok: false, message: error instanceof Error ? error.message : 'Failed to send the test' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const renderChannel = (channel: NotificationChannel) => (
+    <div
+      key={channel.id}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 'var(--spacing-md)',
+        padding: 'var(--spacing-md)',
+        background: 'var(--color-bg-tertiary)',
+        borderRadius: 'var(--radius-md)',
+        opacity: channel.enabled ? 1 : 0.6
+      }}
+    >
+      <div style={{ minWidth: 0 }}>
+        <div style={{ color: 'var(--color-text-primary)', fontSize: '0.875rem' }}>
+          {channel.name}
+          <span style={{ marginLeft: 'var(--spacing-sm)', fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+            {channelType(channel.type).label}
+          </span>
+        </div>
+        <div style={{ color: 'var(--color-text-muted)', fontSize: '0.75rem' }}>
+          {channel.severities.join(', ')} · {channel.namespaces.length > 0 ? channel.namespaces.join(', ') : 'all namespaces'}
+        </div>
+        {channel.lastDelivery && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-xs)',
+              fontSize: '0.75rem',
+              color: channel.lastDelivery.ok ? 'var(--color-success)' : 'var(--color-error)'
+            }}
+            title={channel.lastDelivery.error}
+          >
+            {channel.lastDelivery.ok
+              ? <CheckCircle style={{ width: '0.75rem', height: '0.75rem' }} />
+              : <XCircle style={{ width: '0.75rem', height: '0.75rem' }} />}
+            {channel.lastDelivery.ok ? 'Last sent' : 'Last send failed'} {new Date(channel.lastDelivery.at).toLocaleString()}
+          </div>
+        )}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', flexShrink: 0 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+          <input type="checkbox" checked={channel.enabled} onChange={() => toggleEnabled(channel)} />
+          Enabled
+        </label>
+        <button onClick={() => edit(channel)} className="btn btn-ghost" style={{ padding: 'var(--spacing-xs)' }} title="Edit">
+          <Edit style={{ width: '0.875rem', height: '0.875rem' }} />
+        </button>
+        <button onClick={() => remove(channel)} className="btn btn-ghost" style={{ padding: 'var(--spacing-xs)' }} title="Delete">
+          <Trash2 style={{ width: '0.875rem', height: '0.875rem' }} />
+        </button>
+      </div>
+    </div>
+  )
+
+  const renderEditor = (channel: NotificationChannel) => (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 'var(--spacing-md)',
+      padding: 'var(--spacing-md)',
+      border: '1px solid var(--color-border-primary)',
+      borderRadius: 'var(--radius-md)'
+    }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-md)' }}>
+        <div className="form-group">
+          <label>Name</label>
+          <input
+            className="input"
+            value={channel.name}
+            onChange={(e) => setDraft({ ...channel, name: e.target.value })}
+            placeholder="e.g. #sre-alerts"
+          />
+        </div>
+        <div className="form-group">
+          <label>Type</label>
+          <select
+            className="input"
+            value={channel.type}
+            onChange={(e) => changeType(e.target.value as NotificationChannelType)}
+          >
+            {CHANNEL_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>{channelType(channel.type).targetLabel}</label>
+        <input
+          className="input"
+          type={channel.type === 'pagerduty' ? 'password' : 'text'}
+          value={channel.target}
+          onChange={(e) => setDraft({ ...channel, target: e.target.value })}
+          placeholder={channel.type === 'pagerduty' ? 'Integration key' : 'https://'}
+        />
+        <small style={{ color: 'var(--color-text-muted)' }}>Kept in the secret store, not in local storage</small>
+      </div>
+
+      <div className="form-group">
+        <label>Severities</label>
+        <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
+          {SEVERITIES.map(severity => (
+            <label key={severity} style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', textTransform: 'capitalize' }}>
+              <input
+                type="checkbox"
+                checked={channel.severities.includes(severity)}
+                onChange={() => toggleSeverity(severity)}
+              />
+              {severity}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>Namespaces</label>
+        <input
+          className="input"
+          value={namespacesText}
+          onChange={(e) => setNamespacesText(e.target.value)}
+          placeholder="All namespaces, or e.g. production, payments-*"
+        />
+      </div>
+
+      <div className="form-group">
+        <label>{channel.type === 'webhook' ? 'JSON body' : 'Message'}</label>
+        <PromptTemplateInput
+          value={channel.template}
+          onChange={(template) => setDraft({ ...channel, template })}
+          variables={ALERT_TEMPLATE_VARIABLES}
+          previewValues={alertTemplateValues(sampleAlert())}
+          previewLabel="Preview with a sample alert"
+          rows={channel.type === 'webhook' ? 8 : 3}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="alert alert-error">
+          {errors.map(error => <div key={error}>{error}</div>)}
+        </div>
+      )}
+
+      {testResult && (
+        <div style={{ fontSize: '0.75rem', color: testResult.ok ? 'var(--color-success)' : 'var(--color-error)' }}>
+          {testResult.message}
+          {testResult.received && (
+            <pre style={{
+              marginTop: 'var(--spacing-xs)',
+              padding: 'var(--spacing-sm)',
+              background: 'var(--color-bg-tertiary)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--color-text-primary)',
+              maxHeight: '12rem',
+              overflow: 'auto',
+              whiteSpace: 'pre-wrap'
+            }}>
+              {`${testResult.received.method} ${testResult.received.path}\n\n${formatBody(testResult.received.body)}`}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}>
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+          <button
+            onClick={() => sendTest(false)}
+            className="btn btn-ghost"
+            disabled={testing || !channel.target.trim()}
+            style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.875rem' }}
+          >
+            <Send style={{ width: '0.875rem', height: '0.875rem' }} />
+            Send Test
+          </button>
+          <button
+            onClick={() => sendTest(true)}
+            className="btn btn-ghost"
+            disabled={testing || !isTauri()}
+            title={isTauri() ? 'Send a sample alert to a local endpoint and show what it received' : 'Only available in the desktop app'}
+            style={{ fontSize: '0.875rem' }}
+          >
+            Test Against Local Mock
+          </button>
+        </div>
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+          <button onClick={() => setDraft(null)} className="btn btn-ghost">Cancel</button>
+          <button onClick={save} className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Channel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+      {channels.length === 0 && !draft && (
+        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', margin: 0 }}>
+          No channels yet. Alerts can be sent to Slack, PagerDuty, Microsoft Teams or any JSON webhook.
+        </p>
+      )}
+      {channels.filter(channel => channel.id !== draft?.id).map(renderChannel)}
+      {draft ? renderEditor(draft) : (
+        <button
+          onClick={() => edit(newNotificationChannel())}
+          className="btn btn-ghost"
+          style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', alignSelf: 'flex-start', fontSize: '0.875rem' }}
+        >
+          <Plus style={{ width: '0.875rem', height: '0.875rem' }} />
+          Add Channel
+        </button>
+      )}
+    </div>
+  )
+}
@@ -9,51 +9,26 @@ import {
   AlertTriangle,
   Info
 } from 'lucide-react'
+import NotificationChannels from './NotificationChannels'
+import {
+  loadNotificationConfig,
+  playAlertSound,
+  saveNotificationConfig,
+  sendNativeNotification,
+  type NotificationConfig
+} from '../lib/alertNotifications'
+import { isTauri } from '../lib/tauri'
 
 interface NotificationSettingsProps {
   onClose: () => void
 }
 
-interface NotificationConfig {
-  enabled: boolean
-  sound: boolean
-  critical: boolean
-  high: boolean
-  medium: boolean
-  low: boolean
-  browserNotifications: boolean
-  desktopNotifications: boolean
-  soundVolume: number
-  customSound: string
-}
-
 export default function NotificationSettings({ onClose }: NotificationSettingsProps) {
-  const [config, setConfig] = useState<NotificationConfig>({
-    enabled: true,
-    sound: true,
-    critical: true,
-    high: true,
-    medium: false,
-    low: false,
-    browserNotifications: true,
-    desktopNotifications: false,
-    soundVolume: 0.7,
-    customSound: 'default'
-  })
+  const [config, setConfig] = useState<NotificationConfig>(loadNotificationConfig)
 
   const [permissionStatus, setPermissionStatus] = useState<NotificationPermission>('default')
 
   useEffect(() => {
-    // Load saved configuration
-    const saved = localStorage.getItem('notification-settings')
-    if (saved) {
-      try {
-        setConfig(JSON.parse(saved))
-      } catch (error) {
-        console.error('Failed to load notification settings:', error)
-      }
-    }
-
     // Check notification permission
     if ('Notification' in window) {
       setPermissionStatus(Notification.permission)
@@ -62,7 +37,7 @@ export default function NotificationSettings({ onClose }: NotificationSettingsPr
 
   const saveConfig = (newConfig: NotificationConfig) => {
     setConfig(newConfig)
-    localStorage.setItem('notification-settings', JSON.stringify(newConfig))
+    saveNotificationConfig(newConfig)
   }
 
   const requestNotificationPermission = async () => {
@@ -84,22 +59,15 @@ export default function NotificationSettings({ onClose }: NotificationSettingsPr
     }
   }
 
+  const testDesktopNotification = () => {
+    sendNativeNotification('Test Alert', 'This is a test notification from SRE-IDE').catch(error => {
+      console.error('Failed to show the desktop notification:', error)
+    })
+  }
+
   const testSound = () => {
     if (config.sound) {
-      // Create a simple beep sound
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-      const oscillator = audioContext.createOscillator()
-      const gainNode = audioContext.createGain()
-      
-      oscillator.connect(gainNode)
-      gainNode.connect(audioContext.destination)
-      
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime)
-      gainNode.gain.setValueAtTime(config.soundVolume, audioContext.currentTime)
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5)
-      
-      oscillator.start(audioContext.currentTime)
-      oscillator.stop(audioContext.currentTime + 0.5)
+      playAlertSound(config.soundVolume)
     }
   }
 
@@ -133,7 +101,7 @@ export default function NotificationSettings({ onClose }: NotificationSettingsPr
     }}>
       <div className="card" style={{ 
         width: '100%', 
-        maxWidth: '40rem',
+        maxWidth: '48rem',
         maxHeight: '90vh',
         padding: 'var(--spacing-lg)',
         overflow: 'auto'
@@ -317,10 +285,72 @@ export default function NotificationSettings({ onClose }: NotificationSettingsPr
               marginBottom: 'var(--spacing-md)',
               margin: 0
             }}>
-              Browser Notifications
+              {isTauri() ? 'Desktop & Browser Notifications' : 'Browser Notifications'}
             </h4>
             
             <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+              {isTauri() && (
+                <div style={{ 
+                  display: 'flex', 
+                  alignItems: 'center', 
+                  justifyContent: 'space-between',
+                  padding: 'var(--spacing-md)',
+                  background: 'var(--color-bg-tertiary)',
+                  borderRadius: 'var(--radius-md)'
+                }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                    <Bell style={{ width: '1.25rem', height: '1.25rem', color: 'var(--color-primary)' }} />
+                    <div>
+                      <div style={{ color: 'var(--color-text-primary)' }}>Desktop Notifications</div>
+                      <div style={{ color: 'var(--color-text-muted)', fontSize: '0.75rem' }}>
+                        Native OS notifications; used instead of browser notifications when on
+                      </div>
+                    </div>
+                  </div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                    <button
+                      onClick={testDesktopNotification}
+                      className="btn btn-ghost"
+                      style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                      disabled={!config.desktopNotifications}
+                    >
+                      Test
+                    </button>
+                    <label style={{ position: 'relative', display: 'inline-block', width: '3rem', height: '1.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={config.desktopNotifications}
+                        onChange={(e) => saveConfig({ ...config, desktopNotifications: e.target.checked })}
+                        style={{ opacity: 0, width: 0, height: 0 }}
+                      />
+                      <span style={{
+                        position: 'absolute',
+                        cursor: 'pointer',
+                        top: 0,
+                        left: 0,
+                        right: 0,
+                        bottom: 0,
+                        backgroundColor: config.desktopNotifications ? 'var(--color-primary)' : 'var(--color-bg-secondary)',
+                        borderRadius: '1.5rem',
+                        transition: 'var(--transition-fast)'
+                      }}>
+                        <span style={{
+                          position: 'absolute',
+                          content: '""',
+                          height: '1.25rem',
+                          width: '1.25rem',
+                          left: config.desktopNotifications ? '1.25rem' : '0.125rem',
+                          bottom: '0.125rem',
+                          backgroundColor: 'white',
+                          borderRadius: '50%',
+                          transition: 'var(--transition-fast)'
+                        }} />
+                      </span>
+                    </label>
+                  </div>
+                </div>
+              )}
+
               <div style={{ 
                 display: 'flex', 
                 alignItems: 'center', 
@@ -466,6 +496,20 @@ export default function NotificationSettings({ onClose }: NotificationSettingsPr
               ))}
             </div>
           </div>
+
+          {/* Notification Channels */}
+          <div>
+            <h4 style={{ 
+              fontSize: '1rem', 
+              fontWeight: '500', 
+              color: 'var(--color-text-primary)',
+              marginBottom: 'var(--spacing-md)',
+              margin: 0
+            }}>
+              Notification Channels
+            </h4>
+            <NotificationChannels />
+          </div>
         </div>
 
         <div style={{ 
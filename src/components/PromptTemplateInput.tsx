@@ -0,0 +1,178 @@
+import { useRef, useState, type KeyboardEvent } from 'react'
+import {
+  applyTemplateCompletion,
+  completeTemplateVariable,
+  renderTemplate,
+  variablePlaceholder,
+  type TemplateCompletion,
+  type TemplateValues,
+  type TemplateVariable
+} from '../lib/promptTemplate'
+
+interface PromptTemplateInputProps {
+  value: string
+  onChange: (value: string) => void
+  variables: TemplateVariable[]
+  // Rendered below the input when given
+  previewValues?: TemplateValues
+  previewLabel?: string
+  rows?: number
+  placeholder?: string
+}
+
+// Textarea with {{variable}} completion (type "{{") and an optional rendered preview
+export default function PromptTemplateInput({
+  value,
+  onChange,
+  variables,
+  previewValues,
+  previewLabel = 'Preview',
+  rows = 4,
+  placeholder
+}: PromptTemplateInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [completion, setCompletion] = useState<TemplateCompletion | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const updateCompletion = (text: string, cursor: number) => {
+    setCompletion(completeTemplateVariable(text, cursor, variables))
+    setHighlighted(0)
+  }
+
+  const insert = (variable: TemplateVariable) => {
+    const textarea = textareaRef.current
+    const cursor = textarea?.selectionStart ?? value.length
+    const placeholder = variablePlaceholder(variable)
+    const next = completion
+      ? applyTemplateCompletion(value, cursor, completion, variable)
+      : { text: value.slice(0, cursor) + placeholder + value.slice(cursor), cursor: cursor + placeholder.length }
+
+    onChange(next.text)
+    setCompletion(null)
+    // Restore the caret after React has applied the new value
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(next.cursor, next.cursor)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted((highlighted + step + completion.options.length) % completion.options.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      insert(completion.options[highlighted])
+    } else if (e.key === 'Escape') {
+      e.stopPropagation()
+      setCompletion(null)
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)' }}>
+      <div style={{ position: 'relative' }}>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            updateCompletion(e.target.value, e.target.selectionStart)
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateCompletion(value, e.currentTarget.selectionStart)}
+          onBlur={() => setCompletion(null)}
+          className="input"
+          rows={rows}
+          placeholder={placeholder}
+        />
+        {completion && (
+          <div
+            role="listbox"
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: '100%',
+              zIndex: 10,
+              minWidth: '16rem',
+              maxHeight: '12rem',
+              overflow: 'auto',
+              background: 'var(--color-bg-secondary)',
+              border: '1px solid var(--color-border-primary)',
+              borderRadius: 'var(--radius-md)',
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)'
+            }}
+          >
+            {completion.options.map((variable, index) => (
+              <div
+                key={variable.name}
+                role="option"
+                aria-selected={index === highlighted}
+                // mousedown keeps focus in the textarea, so the blur above does not close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  insert(variable)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                style={{
+                  padding: 'var(--spacing-xs) var(--spacing-sm)',
+                  cursor: 'pointer',
+                  fontSize: '0.75rem',
+                  background: index === highlighted ? 'var(--color-bg-tertiary)' : 'transparent'
+                }}
+              >
+                <span style={{ fontFamily: 'var(--font-family-primary)', color: 'var(--color-text-primary)' }}>{variablePlaceholder(variable)}</span>
+                <span style={{ color: 'var(--color-text-muted)', marginLeft: 'var(--spacing-sm)' }}>{variable.description}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-xs)' }}>
+        {variables.map(variable => (
+          <button
+            key={variable.name}
+            type="button"
+            onClick={() => insert(variable)}
+            title={variable.khook ? variable.description : `${variable.description} (filled in by SRE IDE only, not by khook)`}
+            style={{
+              fontSize: '0.6875rem',
+              fontFamily: 'var(--font-family-primary)',
+              padding: '0.125rem var(--spacing-xs)',
+              borderRadius: 'var(--radius-sm)',
+              border: '1px solid var(--color-border-primary)',
+              background: 'var(--color-bg-tertiary)',
+              color: variable.khook ? 'var(--color-text-secondary)' : 'var(--color-text-muted)',
+              cursor: 'pointer'
+            }}
+          >
+            {variablePlaceholder(variable)}
+          </button>
+        ))}
+      </div>
+
+      {previewValues && value.trim() && (
+        <div>
+          <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-xs)' }}>{previewLabel}</div>
+          <pre style={{
+            margin: 0,
+            maxHeight: '10rem',
+            overflow: 'auto',
+            whiteSpace: 'pre-wrap',
+            fontSize: '0.75rem',
+            fontFamily: 'var(--font-family-primary)',
+            color: 'var(--color-text-secondary)',
+            background: 'var(--color-bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            padding: 'var(--spacing-sm)'
+          }}>
+            {renderTemplate(value, previewValues, variables)}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
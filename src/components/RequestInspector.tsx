@@ -0,0 +1,280 @@
+import { useMemo, useState, useSyncExternalStore } from 'react'
+import { Copy, Download, Trash2 } from 'lucide-react'
+import {
+  clearRequestLog,
+  getRequestLog,
+  subscribeToRequestLog,
+  toCurl,
+  toHar,
+  type InspectedRequest,
+  type RequestTransport
+} from '../lib/requestInspector'
+
+type TransportFilter = 'all' | RequestTransport
+
+const isFailure = (entry: InspectedRequest) => Boolean(entry.error) || (entry.status !== undefined && entry.status >= 400)
+
+function statusColor(entry: InspectedRequest): string {
+  if (entry.status === undefined) return entry.error ? 'var(--color-error)' : 'var(--color-text-muted)'
+  if (entry.status >= 500 || entry.error) return 'var(--color-error)'
+  if (entry.status >= 400) return 'var(--color-warning)'
+  return 'var(--color-success)'
+}
+
+// Pretty-print JSON bodies, leave anything else as is
+function formatBody(body: string | undefined): string {
+  if (!body) return ''
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+const preStyle = {
+  margin: 0,
+  padding: 'var(--spacing-sm)',
+  maxHeight: '240px',
+  overflow: 'auto',
+  background: 'var(--color-bg-tertiary)',
+  border: '1px solid var(--color-border-primary)',
+  borderRadius: 'var(--radius-md)',
+  fontFamily: 'var(--font-family-primary)',
+  fontSize: '0.75rem',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const
+}
+
+const sectionTitleStyle = {
+  margin: 'var(--spacing-md) 0 var(--spacing-xs)',
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  color: 'var(--color-text-secondary)',
+  textTransform: 'uppercase' as const
+}
+
+function HeaderTable({ headers }: { headers?: Record<string, string> }) {
+  const rows = Object.entries(headers || {})
+  if (rows.length === 0) {
+    return <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>None recorded</div>
+  }
+  return (
+    <div style={{ ...preStyle, whiteSpace: 'normal' }}>
+      {rows.map(([name, value]) => (
+        <div key={name}>
+          <span style={{ color: 'var(--color-text-secondary)' }}>{name}:</span> {value}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function RequestDetail({ entry }: { entry: InspectedRequest }) {
+  const [copied, setCopied] = useState(false)
+  const [copyError, setCopyError] = useState<string | null>(null)
+
+  const copyCurl = async () => {
+    try {
+      await navigator.clipboard.writeText(toCurl(entry))
+      setCopyError(null)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      setCopyError(`Could not copy to the clipboard: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 'var(--spacing-md)', borderTop: '1px solid var(--color-border-primary)', paddingTop: 'var(--spacing-md)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+        <span style={{ fontFamily: 'var(--font-family-primary)', fontSize: '0.75rem', flex: 1, wordBreak: 'break-all' }}>
+          {entry.method} {entry.url}
+        </span>
+        <button onClick={copyCurl} className="btn btn-ghost" style={{ fontSize: '0.75rem' }}>
+          <Copy size={14} />
+          {copied ? 'Copied' : 'Copy as cURL'}
+        </button>
+      </div>
+      <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginTop: 'var(--spacing-xs)' }}>
+        {new Date(entry.startedAt).toLocaleString()} • via {entry.transport}
+        {entry.durationMs !== undefined && ` • ${entry.durationMs} ms`}
+        {entry.streamDurationMs !== undefined && ` • stream open ${entry.streamDurationMs} ms`}
+      </div>
+      {entry.error && (
+        <div className="alert alert-error" style={{ marginTop: 'var(--spacing-sm)', fontSize: '0.75rem' }}>
+          {entry.error}
+        </div>
+      )}
+      {copyError && (
+        <div className="alert alert-error" style={{ marginTop: 'var(--spacing-sm)', fontSize: '0.75rem' }}>
+          {copyError}
+        </div>
+      )}
+
+      <h4 style={sectionTitleStyle}>Request headers</h4>
+      <HeaderTable headers={entry.requestHeaders} />
+      {entry.requestBody && (
+        <>
+          <h4 style={sectionTitleStyle}>Request body</h4>
+          <pre style={preStyle}>{formatBody(entry.requestBody)}</pre>
+        </>
+      )}
+
+      <h4 style={sectionTitleStyle}>Response headers</h4>
+      <HeaderTable headers={entry.responseHeaders} />
+      {entry.responseBody && (
+        <>
+          <h4 style={sectionTitleStyle}>Response body</h4>
+          <pre style={preStyle}>{formatBody(entry.responseBody)}</pre>
+        </>
+      )}
+
+      {entry.sseEvents && (
+        <>
+          <h4 style={sectionTitleStyle}>SSE events ({entry.sseEvents.length})</h4>
+          <div style={{ ...preStyle, maxHeight: '320px', whiteSpace: 'normal' }}>
+            {entry.sseEvents.map((event, index) => (
+              <div key={index} style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-xs)' }}>
+                <span style={{ color: 'var(--color-text-muted)', minWidth: '4rem' }}>+{event.offsetMs} ms</span>
+                {event.event && event.event !== 'message' && (
+                  <span style={{ color: 'var(--color-primary)' }}>{event.event}</span>
+                )}
+                <span style={{ wordBreak: 'break-all' }}>{event.data}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Browsable log of API requests, responses and SSE streams
+export default function RequestInspector() {
+  const log = useSyncExternalStore(subscribeToRequestLog, getRequestLog)
+  const [query, setQuery] = useState('')
+  const [transport, setTransport] = useState<TransportFilter>('all')
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return log.filter(entry =>
+      (transport === 'all' || entry.transport === transport) &&
+      (!errorsOnly || isFailure(entry)) &&
+      (!needle || `${entry.method} ${entry.url} ${entry.status ?? ''}`.toLowerCase().includes(needle))
+    )
+  }, [log, query, transport, errorsOnly])
+
+  const selected = log.find(entry => entry.id === selectedId)
+
+  const exportHar = () => {
+    const blob = new Blob([toHar(filtered)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `sre-ide-requests-${new Date().toISOString().replace(/[:.]/g, '-')}.har`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Request Inspector</h2>
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+          <button onClick={exportHar} className="btn btn-ghost" style={{ fontSize: '0.875rem' }} disabled={filtered.length === 0}>
+            <Download size={14} />
+            Export HAR
+          </button>
+          <button
+            onClick={() => {
+              clearRequestLog()
+              setSelectedId(null)
+            }}
+            className="btn btn-ghost"
+            style={{ fontSize: '0.875rem' }}
+          >
+            <Trash2 size={14} />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'center', marginBottom: 'var(--spacing-md)' }}>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="input"
+          placeholder="Filter by method, URL or status"
+          style={{ flex: 1 }}
+        />
+        <select
+          value={transport}
+          onChange={(e) => setTransport(e.target.value as TransportFilter)}
+          className="input"
+          style={{ width: 'auto' }}
+        >
+          <option value="all">All transports</option>
+          <option value="tauri">Tauri</option>
+          <option value="fetch">Fetch</option>
+          <option value="sse">SSE streams</option>
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.875rem', whiteSpace: 'nowrap' }}>
+          <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+          Errors only
+        </label>
+      </div>
+
+      <div style={{
+        maxHeight: '320px',
+        overflow: 'auto',
+        fontFamily: 'var(--font-family-primary)',
+        fontSize: '0.75rem',
+        border: '1px solid var(--color-border-primary)',
+        borderRadius: 'var(--radius-md)'
+      }}>
+        {filtered.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+            style={{
+              display: 'flex',
+              gap: 'var(--spacing-sm)',
+              alignItems: 'center',
+              padding: 'var(--spacing-xs) var(--spacing-sm)',
+              cursor: 'pointer',
+              borderBottom: '1px solid var(--color-border-primary)',
+              background: entry.id === selectedId ? 'var(--color-bg-tertiary)' : 'transparent'
+            }}
+          >
+            <span style={{ color: 'var(--color-text-muted)', minWidth: '5rem' }}>
+              {new Date(entry.startedAt).toLocaleTimeString()}
+            </span>
+            <span style={{ fontWeight: '600', minWidth: '3.5rem' }}>{entry.method}</span>
+            <span style={{ color: statusColor(entry), minWidth: '2.5rem' }}>
+              {entry.status ?? (entry.error ? 'ERR' : '…')}
+            </span>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {entry.url}
+            </span>
+            {entry.sseEvents && (
+              <span style={{ color: 'var(--color-primary)' }}>{entry.sseEvents.length} events</span>
+            )}
+            <span style={{ color: 'var(--color-text-muted)', minWidth: '4rem', textAlign: 'right' }}>
+              {entry.durationMs !== undefined ? `${entry.durationMs} ms` : ''}
+            </span>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <p style={{ color: 'var(--color-text-muted)', textAlign: 'center', padding: 'var(--spacing-md)' }}>
+            {log.length === 0 ? 'No requests recorded yet' : 'No requests match the filter'}
+          </p>
+        )}
+      </div>
+
+      {selected && <RequestDetail key={selected.id} entry={selected} />}
+    </div>
+  )
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from 'react'
+import { KagentAPI, parseSessionAgent, type KagentAgent, type KagentSession } from '../lib/kagent'
+import {
+  MessageSquare,
+  Search,
+  RefreshCw,
+  Pin,
+  PinOff,
+  Edit,
+  Trash2,
+  Check,
+  X,
+  Bot,
+  Clock
+} from 'lucide-react'
+
+interface SessionBrowserProps {
+  kagentApi: KagentAPI
+  agents: KagentAgent[]
+  currentSessionId?: string
+  onResumeSession: (session: KagentSession) => Promise<void>
+  onSessionRenamed?: (session: KagentSession) => void
+  onSessionDeleted?: (sessionId: string) => void
+}
+
+type DateRange = 'all' | '24h' | '7d' | '30d'
+
+interface SessionGroup {
+  key: string
+  label: string
+  sessions: KagentSession[]
+}
+
+const PINNED_SESSIONS_KEY = 'sre-ide-pinned-sessions'
+
+const loadPinnedSessions = (): string[] => {
+  try {
+    const stored = localStorage.getItem(PINNED_SESSIONS_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const agentKey = (session: KagentSession) => {
+  const { namespace, name } = parseSessionAgent(session)
+  return `${namespace}/${name}`
+}
+
+const rangeCutoff = (range: DateRange): number => {
+  const hours = range === '24h' ? 24 : range === '7d' ? 24 * 7 : range === '30d' ? 24 * 30 : 0
+  return hours ? Date.now() - hours * 60 * 60 * 1000 : 0
+}
+
+const byLastUpdate = (a: KagentSession, b: KagentSession) =>
+  (b.last_update_time || '').localeCompare(a.last_update_time || '')
+
+export default function SessionBrowser({
+  kagentApi,
+  agents,
+  currentSessionId,
+  onResumeSession,
+  onSessionRenamed,
+  onSessionDeleted
+}: SessionBrowserProps) {
+  const [sessions, setSessions] = useState<KagentSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [agentFilter, setAgentFilter] = useState('all')
+  const [dateRange, setDateRange] = useState<DateRange>('all')
+  const [pinnedIds, setPinnedIds] = useState<string[]>(loadPinnedSessions)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const allSessions = await kagentApi.getSessions()
+      setSessions([...allSessions].sort(byLastUpdate))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [kagentApi])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  useEffect(() => {
+    localStorage.setItem(PINNED_SESSIONS_KEY, JSON.stringify(pinnedIds))
+  }, [pinnedIds])
+
+  const togglePin = (sessionId: string) => {
+    setPinnedIds(prev => prev.includes(sessionId)
+      ? prev.filter(id => id !== sessionId)
+      : [...prev, sessionId])
+  }
+
+  const startRename = (session: KagentSession) => {
+    setEditingId(session.id)
+    setEditingName(session.name || '')
+  }
+
+  const handleRename = async (session: KagentSession) => {
+    const name = editingName.trim()
+    if (!name || name === session.name) {
+      setEditingId(null)
+      return
+    }
+
+    try {
+      setBusyId(session.id)
+      const updated = await kagentApi.updateSession(session, { name })
+      setSessions(prev => prev.map(s => s.id === session.id ? updated : s))
+      onSessionRenamed?.(updated)
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename session')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (session: KagentSession) => {
+    if (!confirm(`Are you sure you want to delete session "${session.name || session.id}"?`)) {
+      return
+    }
+
+    try {
+      setBusyId(session.id)
+      await kagentApi.deleteSession(session.id)
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+      setPinnedIds(prev => prev.filter(id => id !== session.id))
+      onSessionDeleted?.(session.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete session')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleResume = async (session: KagentSession) => {
+    try {
+      setBusyId(session.id)
+      await onResumeSession(session)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const findAgent = (session: KagentSession) => {
+    const { namespace, name } = parseSessionAgent(session)
+    return agents.find(a => a.name === name && a.namespace === namespace)
+  }
+
+  // Apply the name, agent and date filters
+  const cutoff = rangeCutoff(dateRange)
+  const term = searchTerm.trim().toLowerCase()
+  const filteredSessions = sessions.filter(session => {
+    if (term && !(session.name || session.id).toLowerCase().includes(term)) return false
+    if (agentFilter !== 'all' && agentKey(session) !== agentFilter) return false
+    if (cutoff && new Date(session.last_update_time || 0).getTime() < cutoff) return false
+    return true
+  })
+
+  // Pinned sessions float to the top, the rest are grouped by agent
+  const groups: SessionGroup[] = []
+  const pinned = filteredSessions.filter(s => pinnedIds.includes(s.id))
+  if (pinned.length > 0) {
+    groups.push({ key: 'pinned', label: 'Pinned', sessions: pinned })
+  }
+  for (const session of filteredSessions.filter(s => !pinnedIds.includes(s.id))) {
+    const key = agentKey(session)
+    let group = groups.find(g => g.key === key)
+    if (!group) {
+      group = { key, label: key, sessions: [] }
+      groups.push(group)
+    }
+    group.sessions.push(session)
+  }
+
+  const agentOptions = [...new Set(sessions.map(agentKey))].sort()
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-lg)' }}>
+      {/* Header */}
+      <div className="card">
+        <div className="card-header">
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)' }}>
+            <div style={{
+              width: '2.5rem',
+              height: '2.5rem',
+              background: 'var(--color-primary)',
+              borderRadius: 'var(--radius-md)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              color: 'white'
+            }}>
+              <MessageSquare style={{ width: '1.25rem', height: '1.25rem' }} />
+            </div>
+            <div>
+              <h3 className="card-title">Sessions</h3>
+              <p style={{
+                color: 'var(--color-text-muted)',
+                fontSize: '0.875rem',
+                margin: 0,
+                fontFamily: 'var(--font-family-primary)'
+              }}>
+                {filteredSessions.length} of {sessions.length} sessions
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={loadSessions}
+            className="btn btn-ghost"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--spacing-sm)',
+              fontSize: '0.875rem'
+            }}
+          >
+            <RefreshCw style={{ width: '1rem', height: '1rem' }} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+          <div style={{ position: 'relative', flex: 1, minWidth: '200px' }}>
+            <Search style={{
+              position: 'absolute',
+              left: 'var(--spacing-sm)',
+              top: '50%',
+              transform: 'translateY(-50%)',
+              width: '1rem',
+              height: '1rem',
+              color: 'var(--color-text-muted)'
+            }} />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search sessions by name..."
+              className="input"
+              style={{ width: '100%', paddingLeft: '2rem', fontSize: '0.875rem' }}
+            />
+          </div>
+          <select
+            value={agentFilter}
+            onChange={(e) => setAgentFilter(e.target.value)}
+            className="input"
+            style={{ fontSize: '0.875rem' }}
+          >
+            <option value="all">All agents</option>
+            {agentOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value as DateRange)}
+            className="input"
+            style={{ fontSize: '0.875rem' }}
+          >
+            <option value="all">Any time</option>
+            <option value="24h">Last 24 hours</option>
+            <option value="7d">Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="alert alert-error">
+          <span style={{ color: 'var(--color-error)' }}>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          height: '8rem',
+          gap: 'var(--spacing-sm)'
+        }}>
+          <RefreshCw style={{
+            width: '1.5rem',
+            height: '1.5rem',
+            color: 'var(--color-primary)',
+            animation: 'spin 1s linear infinite'
+          }} />
+          <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>
+            Loading sessions...
+          </span>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="card" style={{
+          textAlign: 'center',
+          padding: 'var(--spacing-xl)',
+          color: 'var(--color-text-muted)',
+          fontSize: '0.875rem'
+        }}>
+          {sessions.length === 0 ? 'No sessions yet. Start a chat with an agent to create one.' : 'No sessions match the current filters.'}
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.key} className="card">
+            <div className="card-header">
+              <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                {group.key === 'pinned'
+                  ? <Pin style={{ width: '1rem', height: '1rem', color: 'var(--color-primary)' }} />
+                  : <Bot style={{ width: '1rem', height: '1rem', color: 'var(--color-primary)' }} />}
+                {group.label}
+              </h3>
+              <span style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                {group.sessions.length} {group.sessions.length === 1 ? 'session' : 'sessions'}
+              </span>
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+              {group.sessions.map(session => {
+                const agent = findAgent(session)
+                const isCurrent = session.id === currentSessionId
+                const isPinned = pinnedIds.includes(session.id)
+                const isBusy = busyId === session.id
+
+                return (
+                  <div
+                    key={session.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 'var(--spacing-md)',
+                      padding: 'var(--spacing-sm) var(--spacing-md)',
+                      background: 'var(--color-bg-tertiary)',
+                      borderRadius: 'var(--radius-md)',
+                      border: `1px solid ${isCurrent ? 'var(--color-primary)' : 'var(--color-border-primary)'}`
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      {editingId === session.id ? (
+                        <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+                          <input
+                            type="text"
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename(session)
+                              if (e.key === 'Escape') setEditingId(null)
+                            }}
+                            className="input"
+                            style={{ flex: 1, fontSize: '0.875rem' }}
+                            autoFocus
+                          />
+                          <button onClick={() => handleRename(session)} className="btn btn-ghost" disabled={isBusy} title="Save name">
+                            <Check style={{ width: '1rem', height: '1rem' }} />
+                          </button>
+                          <button onClick={() => setEditingId(null)} className="btn btn-ghost" title="Cancel">
+                            <X style={{ width: '1rem', height: '1rem' }} />
+                          </button>
+                        </div>
+                      ) : (
+                        <div style={{
+                          fontSize: '0.875rem',
+                          fontWeight: '500',
+                          color: 'var(--color-text-primary)',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap'
+                        }}>
+                          {session.name || session.id}
+                          {isCurrent && (
+                            <span style={{ marginLeft: 'var(--spacing-sm)', fontSize: '0.75rem', color: 'var(--color-primary)' }}>
+                              • active
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <div style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 'var(--spacing-xs)',
+                        fontSize: '0.75rem',
+                        color: 'var(--color-text-muted)',
+                        fontFamily: 'var(--font-family-primary)'
+                      }}>
+                        <Clock style={{ width: '0.75rem', height: '0.75rem' }} />
+                        {session.last_update_time ? new Date(session.last_update_time).toLocaleString() : 'Unknown'}
+                        {group.key === 'pinned' && <span>• {agentKey(session)}</span>}
+                      </div>
+                    </div>
+
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', flexShrink: 0 }}>
+                      <button
+                        onClick={() => handleResume(session)}
+                        className="btn btn-primary"
+                        style={{ fontSize: '0.75rem' }}
+                        disabled={!agent || isBusy}
+                        title={agent ? 'Resume in chat' : 'Agent not available on this connector'}
+                      >
+                        {isBusy ? 'Loading...' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => togglePin(session.id)}
+                        className="btn btn-ghost"
+                        title={isPinned ? 'Unpin session' : 'Pin session'}
+                      >
+                        {isPinned
+                          ? <PinOff style={{ width: '1rem', height: '1rem' }} />
+                          : <Pin style={{ width: '1rem', height: '1rem' }} />}
+                      </button>
+                      <button
+                        onClick={() => startRename(session)}
+                        className="btn btn-ghost"
+                        disabled={isBusy}
+                        title="Rename session"
+                      >
+                        <Edit style={{ width: '1rem', height: '1rem' }} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session)}
+                        className="btn btn-ghost"
+                        style={{ color: 'var(--color-error)' }}
+                        disabled={isBusy}
+                        title="Delete session"
+                      >
+                        <Trash2 style={{ width: '1rem', height: '1rem' }} />
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import type { ReactNode } from 'react'
+import { useSyncExternalStore, type ReactNode } from 'react'
 import { 
   Monitor, 
   Search, 
@@ -12,8 +12,11 @@ import {
   Zap,
   Server,
   BarChart3,
-  Database
+  Database,
+  History
 } from 'lucide-react'
+import { useAlerts } from '../contexts'
+import { getSilences, isSilenced, subscribeToSilences } from '../lib/silences'
 
 interface SidebarProps {
   activeTab: string
@@ -30,10 +33,18 @@ interface NavItem {
   name: string
   icon: ReactNode
   badge?: number | string
+  badgeTitle?: string
   description?: string
 }
 
 export function Sidebar({ activeTab, onTabChange, connectionStatus }: SidebarProps) {
+  const { state: alertState } = useAlerts()
+  const silences = useSyncExternalStore(subscribeToSilences, getSilences)
+  // Live count of firing alerts that are not silenced
+  const firingCount = alertState.alerts
+    .filter(alert => alert.status === 'firing' && !isSilenced(alert, silences))
+    .length
+
   // Navigation items configuration
   const navItems: NavItem[] = [
     { 
@@ -60,6 +71,12 @@ export function Sidebar({ activeTab, onTabChange, connectionStatus }: SidebarPro
       icon: <MessageSquare />,
       description: 'Agent communication'
     },
+    { 
+      id: 'sessions', 
+      name: 'Sessions', 
+      icon: <History />,
+      description: 'Browse and resume past chats'
+    },
     { 
       id: 'cloud-tools', 
       name: 'Cloud Tools', 
@@ -92,7 +109,9 @@ export function Sidebar({ activeTab, onTabChange, connectionStatus }: SidebarPro
       id: 'alerts', 
       name: 'Alerts', 
       icon: <Bell />,
-      description: 'System alerts and notifications'
+      description: 'System alerts and notifications',
+      badge: firingCount > 0 ? firingCount : undefined,
+      badgeTitle: `${firingCount} firing`
     },
     { 
       id: 'hooks', 
@@ -150,7 +169,7 @@ export function Sidebar({ activeTab, onTabChange, connectionStatus }: SidebarPro
             </div>
             <span className="nav-text">{item.name}</span>
             {item.badge && (
-              <span className="nav-badge">{item.badge}</span>
+              <span className="nav-badge" title={item.badgeTitle}>{item.badge}</span>
             )}
             <ChevronRight className="nav-arrow" />
           </button>
@@ -0,0 +1,354 @@
+import { useState, useSyncExternalStore } from 'react'
+import { BellOff, Edit, Plus, Trash2, X } from 'lucide-react'
+import type { Alert } from '../lib/kagent'
+import {
+  SILENCE_MATCHER_FIELDS,
+  expireSilence,
+  getSilences,
+  saveSilence,
+  silenceMatches,
+  silenceState,
+  subscribeToSilences,
+  validateSilence,
+  type Silence,
+  type SilenceMatcher,
+  type SilenceMatcherField,
+  type SilenceState
+} from '../lib/silences'
+
+interface SilencesPanelProps {
+  // Current alerts, to show what a silence would match
+  alerts: Alert[]
+  defaultCreator: string
+  // Opens the editor for a new silence with these matchers
+  initialMatchers?: SilenceMatcher[]
+  onClose: () => void
+}
+
+interface SilenceDraft {
+  id?: string
+  createdAt?: string
+  matchers: SilenceMatcher[]
+  startsAt: string
+  endsAt: string
+  createdBy: string
+  comment: string
+}
+
+const HOUR = 60 * 60 * 1000
+const DURATIONS = [
+  { label: '1h', ms: HOUR },
+  { label: '2h', ms: 2 * HOUR },
+  { label: '4h', ms: 4 * HOUR },
+  { label: '1d', ms: 24 * HOUR },
+  { label: '1w', ms: 7 * 24 * HOUR }
+]
+
+const stateColors: Record<SilenceState, string> = {
+  active: 'var(--color-success)',
+  pending: 'var(--color-info)',
+  expired: 'var(--color-text-muted)'
+}
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : '')
+
+const newDraft = (matchers: SilenceMatcher[], createdBy: string): SilenceDraft => {
+  const now = Date.now()
+  return {
+    matchers,
+    startsAt: new Date(now).toISOString(),
+    endsAt: new Date(now + 2 * HOUR).toISOString(),
+    createdBy,
+    comment: ''
+  }
+}
+
+const describeMatcher = (matcher: SilenceMatcher) =>
+  `${matcher.field}${matcher.isRegex ? '=~' : '='}"${matcher.value}"`
+
+const labelStyle = {
+  display: 'block',
+  fontSize: '0.875rem',
+  fontWeight: '500',
+  color: 'var(--color-text-secondary)',
+  marginBottom: 'var(--spacing-sm)'
+}
+
+export default function SilencesPanel({ alerts, defaultCreator, initialMatchers, onClose }: SilencesPanelProps) {
+  const silences = useSyncExternalStore(subscribeToSilences, getSilences)
+  const [draft, setDraft] = useState<SilenceDraft | null>(() => initialMatchers ? newDraft(initialMatchers, defaultCreator) : null)
+  const [showExpired, setShowExpired] = useState(false)
+
+  const now = Date.now()
+  const listed = silences
+    .filter(silence => showExpired || silenceState(silence, now) !== 'expired')
+    .sort((a, b) => new Date(b.startsAt).getTime() - new Date(a.startsAt).getTime())
+  const errors = draft ? validateSilence(draft) : []
+  const matchingAlerts = draft && errors.length === 0
+    ? alerts.filter(alert => silenceMatches({ ...draft, id: '', createdAt: '' }, alert))
+    : []
+
+  const updateMatcher = (index: number, changes: Partial<SilenceMatcher>) => {
+    if (!draft) return
+    setDraft({ ...draft, matchers: draft.matchers.map((matcher, i) => i === index ? { ...matcher, ...changes } : matcher) })
+  }
+
+  const save = () => {
+    if (!draft || errors.length > 0) return
+    saveSilence({ ...draft, comment: draft.comment.trim(), createdBy: draft.createdBy.trim() })
+    setDraft(null)
+  }
+
+  const edit = (silence: Silence) => {
+    setDraft({ ...silence })
+  }
+
+  // Starts a new silence with the same matchers, e.g. to extend an expired one
+  const recreate = (silence: Silence) => {
+    setDraft({ ...newDraft(silence.matchers, defaultCreator), comment: silence.comment })
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" style={{ maxWidth: '56rem', width: '100%', maxHeight: '90vh', overflow: 'auto' }}>
+        <div className="card-header">
+          <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+            <BellOff style={{ width: '1.25rem', height: '1.25rem' }} />
+            Silences
+          </h3>
+          <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+            {!draft && (
+              <button onClick={() => setDraft(newDraft([{ field: 'namespace', value: '', isRegex: false }], defaultCreator))} className="btn btn-primary" style={{ fontSize: '0.875rem' }}>
+                <Plus style={{ width: '1rem', height: '1rem' }} />
+                New Silence
+              </button>
+            )}
+            <button onClick={onClose} className="btn btn-ghost" style={{ fontSize: '0.875rem' }}>
+              <X style={{ width: '1rem', height: '1rem' }} />
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="card" style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)', display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+            <h4 style={{ margin: 0, fontSize: '0.875rem', fontWeight: '500', color: 'var(--color-text-primary)' }}>
+              {draft.id ? 'Edit Silence' : 'New Silence'}
+            </h4>
+
+            <div>
+              <label style={labelStyle}>Matchers (all must match)</label>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                {draft.matchers.map((matcher, index) => (
+                  <div key={index} style={{ display: 'grid', gridTemplateColumns: '10rem 1fr auto auto', gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                    <select
+                      value={matcher.field}
+                      onChange={(e) => updateMatcher(index, { field: e.target.value as SilenceMatcherField })}
+                      className="input"
+                    >
+                      {SILENCE_MATCHER_FIELDS.map(field => (
+                        <option key={field.value} value={field.value}>{field.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={matcher.value}
+                      onChange={(e) => updateMatcher(index, { value: e.target.value })}
+                      className="input"
+                      placeholder={matcher.isRegex ? 'api-.*' : 'production'}
+                      style={{ fontFamily: matcher.isRegex ? 'var(--font-family-primary)' : undefined }}
+                    />
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                      <input
+                        type="checkbox"
+                        checked={matcher.isRegex}
+                        onChange={(e) => updateMatcher(index, { isRegex: e.target.checked })}
+                      />
+                      Regex
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, matchers: draft.matchers.filter((_, i) => i !== index) })}
+                      className="btn btn-ghost"
+                      style={{ padding: 'var(--spacing-xs)' }}
+                      title="Remove matcher"
+                    >
+                      <Trash2 style={{ width: '0.875rem', height: '0.875rem' }} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, matchers: [...draft.matchers, { field: 'resourceName', value: '', isRegex: true }] })}
+                  className="btn btn-ghost"
+                  style={{ fontSize: '0.75rem', alignSelf: 'flex-start' }}
+                >
+                  <Plus style={{ width: '0.75rem', height: '0.75rem' }} />
+                  Add Matcher
+                </button>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-md)' }}>
+              <div>
+                <label style={labelStyle}>Starts</label>
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(draft.startsAt)}
+                  onChange={(e) => setDraft({ ...draft, startsAt: fromLocalInput(e.target.value) })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Ends</label>
+                <input
+                  type="datetime-local"
+                  value={draft.endsAt ? toLocalInput(draft.endsAt) : ''}
+                  onChange={(e) => setDraft({ ...draft, endsAt: fromLocalInput(e.target.value) })}
+                  className="input"
+                />
+                <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-xs)' }}>
+                  {DURATIONS.map(duration => (
+                    <button
+                      key={duration.label}
+                      type="button"
+                      onClick={() => setDraft({ ...draft, endsAt: new Date(new Date(draft.startsAt).getTime() + duration.ms).toISOString() })}
+                      className="btn btn-ghost"
+                      style={{ fontSize: '0.75rem', padding: '0 var(--spacing-sm)' }}
+                    >
+                      {duration.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: 'var(--spacing-md)' }}>
+              <div>
+                <label style={labelStyle}>Creator</label>
+                <input
+                  type="text"
+                  value={draft.createdBy}
+                  onChange={(e) => setDraft({ ...draft, createdBy: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Comment</label>
+                <input
+                  type="text"
+                  value={draft.comment}
+                  onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+                  className="input"
+                  placeholder="Planned rollout of payments-api v2"
+                />
+              </div>
+            </div>
+
+            {errors.length > 0 ? (
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-error)' }}>
+                {errors.join(' • ')}
+              </div>
+            ) : (
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                Matches {matchingAlerts.length} current alert{matchingAlerts.length === 1 ? '' : 's'}
+                {matchingAlerts.length > 0 && `: ${matchingAlerts.slice(0, 5).map(alert => alert.resourceName).join(', ')}${matchingAlerts.length > 5 ? ', ...' : ''}`}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)' }}>
+              <button type="button" onClick={() => setDraft(null)} className="btn btn-ghost">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={save}
+                disabled={errors.length > 0}
+                className="btn btn-primary"
+                style={{ opacity: errors.length > 0 ? 0.5 : 1 }}
+              >
+                {draft.id ? 'Update Silence' : 'Create Silence'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--spacing-sm)' }}>
+          <span style={{ fontSize: '0.875rem', color: 'var(--color-text-secondary)' }}>
+            {listed.length} silence{listed.length === 1 ? '' : 's'}
+          </span>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+            <input type="checkbox" checked={showExpired} onChange={(e) => setShowExpired(e.target.checked)} />
+            Show expired
+          </label>
+        </div>
+
+        {listed.length === 0 ? (
+          <p style={{ fontSize: '0.875rem', color: 'var(--color-text-muted)', textAlign: 'center', padding: 'var(--spacing-lg)', margin: 0 }}>
+            No silences. Silence an alert or group from the dashboard, or create one here.
+          </p>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+            {listed.map(silence => {
+              const state = silenceState(silence, now)
+              const matched = alerts.filter(alert => silenceMatches(silence, alert)).length
+              return (
+                <div key={silence.id} className="card" style={{ padding: 'var(--spacing-md)', opacity: state === 'expired' ? 0.6 : 1 }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 'var(--spacing-md)' }}>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)', minWidth: 0 }}>
+                      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-xs)' }}>
+                        {silence.matchers.map((matcher, index) => (
+                          <span key={index} style={{
+                            fontSize: '0.75rem',
+                            fontFamily: 'var(--font-family-primary)',
+                            background: 'var(--color-bg-tertiary)',
+                            padding: '0 var(--spacing-xs)',
+                            borderRadius: 'var(--radius-sm)',
+                            color: 'var(--color-text-secondary)'
+                          }}>
+                            {describeMatcher(matcher)}
+                          </span>
+                        ))}
+                      </div>
+                      {silence.comment && (
+                        <span style={{ fontSize: '0.875rem', color: 'var(--color-text-primary)' }}>{silence.comment}</span>
+                      )}
+                      <span style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                        {new Date(silence.startsAt).toLocaleString()} – {new Date(silence.endsAt).toLocaleString()} • by {silence.createdBy}
+                        {state !== 'expired' && ` • matches ${matched} alert${matched === 1 ? '' : 's'}`}
+                      </span>
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', flexShrink: 0 }}>
+                      <span style={{ fontSize: '0.75rem', fontWeight: '500', color: stateColors[state], textTransform: 'capitalize' }}>
+                        {state}
+                      </span>
+                      {state === 'expired' ? (
+                        <button onClick={() => recreate(silence)} className="btn btn-ghost" style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}>
+                          Recreate
+                        </button>
+                      ) : (
+                        <>
+                          <button onClick={() => edit(silence)} className="btn btn-ghost" style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}>
+                            <Edit style={{ width: '0.75rem', height: '0.75rem' }} />
+                            Edit
+                          </button>
+                          <button onClick={() => expireSilence(silence.id)} className="btn btn-ghost" style={{ fontSize: '0.75rem', padding: 'var(--spacing-xs) var(--spacing-sm)' }}>
+                            Expire
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
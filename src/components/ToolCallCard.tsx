@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { Wrench, ChevronRight, ChevronDown, CheckCircle, XCircle, Loader2, Copy } from 'lucide-react'
+import type { ToolCall } from '../lib/kagent'
+
+interface ToolCallCardProps {
+  toolCall: ToolCall
+  defaultExpanded?: boolean
+}
+
+// Prefer the text content MCP tools return, fall back to pretty-printed JSON
+const formatToolResult = (result: unknown): string => {
+  if (result === undefined || result === null) return ''
+  if (typeof result === 'string') return result
+
+  const record = result as Record<string, unknown>
+  const inner = (record.result ?? record) as Record<string, unknown>
+  if (Array.isArray(inner?.content)) {
+    const texts = (inner.content as Array<{ type?: string; text?: string }>)
+      .filter(item => typeof item.text === 'string')
+      .map(item => item.text)
+    if (texts.length > 0) return texts.join('\n')
+  }
+
+  return JSON.stringify(result, null, 2)
+}
+
+const formatDuration = (toolCall: ToolCall): string | null => {
+  if (!toolCall.startedAt || !toolCall.completedAt) return null
+  const ms = new Date(toolCall.completedAt).getTime() - new Date(toolCall.startedAt).getTime()
+  if (Number.isNaN(ms) || ms < 0) return null
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+export function ToolCallCard({ toolCall, defaultExpanded = false }: ToolCallCardProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded)
+
+  const isPending = toolCall.result === undefined && !toolCall.completedAt
+  const duration = formatDuration(toolCall)
+  const args = JSON.stringify(toolCall.args, null, 2)
+  const result = formatToolResult(toolCall.result)
+  const accent = toolCall.isError ? 'var(--color-error)' : isPending ? 'var(--color-warning)' : 'var(--color-success)'
+
+  return (
+    <div style={{
+      marginBottom: 'var(--spacing-sm)',
+      background: 'var(--color-bg-tertiary)',
+      borderRadius: 'var(--radius-md)',
+      border: '1px solid var(--color-border-primary)',
+      borderLeft: `3px solid ${accent}`,
+      overflow: 'hidden'
+    }}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 'var(--spacing-sm)',
+          width: '100%',
+          padding: 'var(--spacing-sm)',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          color: 'var(--color-text-secondary)',
+          fontSize: '0.75rem',
+          textAlign: 'left'
+        }}
+      >
+        {expanded
+          ? <ChevronDown style={{ width: '0.75rem', height: '0.75rem' }} />
+          : <ChevronRight style={{ width: '0.75rem', height: '0.75rem' }} />}
+        <Wrench style={{ width: '0.75rem', height: '0.75rem', color: 'var(--color-primary)' }} />
+        <span style={{
+          fontFamily: 'var(--font-family-primary)',
+          fontWeight: '600',
+          color: 'var(--color-text-primary)'
+        }}>
+          {toolCall.name}
+        </span>
+        <span style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)' }}>
+          {duration && <span style={{ fontFamily: 'var(--font-family-primary)' }}>{duration}</span>}
+          {isPending ? (
+            <Loader2 style={{ width: '0.75rem', height: '0.75rem', color: accent, animation: 'spin 1s linear infinite' }} />
+          ) : toolCall.isError ? (
+            <XCircle style={{ width: '0.75rem', height: '0.75rem', color: accent }} />
+          ) : (
+            <CheckCircle style={{ width: '0.75rem', height: '0.75rem', color: accent }} />
+          )}
+          <span style={{ color: accent }}>
+            {isPending ? 'Running' : toolCall.isError ? 'Error' : 'Done'}
+          </span>
+        </span>
+      </button>
+
+      {expanded && (
+        <div style={{
+          padding: '0 var(--spacing-sm) var(--spacing-sm)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--spacing-sm)'
+        }}>
+          <ToolCallSection label="Arguments" content={args} />
+          {!isPending && (
+            <ToolCallSection
+              label={toolCall.isError ? 'Error' : 'Result'}
+              content={result || '(empty result)'}
+              color={toolCall.isError ? 'var(--color-error)' : undefined}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ToolCallSection({ label, content, color }: { label: string; content: string; color?: string }) {
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        fontSize: '0.75rem',
+        color: 'var(--color-text-muted)',
+        marginBottom: 'var(--spacing-xs)'
+      }}>
+        <span>{label}</span>
+        <button
+          onClick={() => navigator.clipboard.writeText(content)}
+          className="btn btn-ghost"
+          style={{ fontSize: '0.75rem', padding: '0 var(--spacing-xs)' }}
+          title={`Copy ${label.toLowerCase()}`}
+        >
+          <Copy style={{ width: '0.75rem', height: '0.75rem' }} />
+        </button>
+      </div>
+      <pre style={{
+        margin: 0,
+        maxHeight: '240px',
+        overflow: 'auto',
+        padding: 'var(--spacing-sm)',
+        background: 'var(--color-bg-primary)',
+        borderRadius: 'var(--radius-sm)',
+        fontFamily: 'var(--font-family-primary)',
+        fontSize: '0.75rem',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        color: color || 'var(--color-text-secondary)'
+      }}>
+        {content}
+      </pre>
+    </div>
+  )
+}
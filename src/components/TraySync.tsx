@@ -0,0 +1,90 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import type { KagentAPI } from '../lib/kagent'
+import { useAlerts } from '../contexts'
+import { getEventType } from '../lib/eventTypes'
+import { getSilences, isSilenced, matchersForAlert, saveSilence, subscribeToSilences, withoutSilenced } from '../lib/silences'
+import { listenForTrayActions, updateTray, type TrayAction, type TrayConnector } from '../lib/tray'
+
+interface TraySyncProps {
+  connectors: TrayConnector[]
+  // The active connector's API; its user is recorded on tray silences
+  kagentApi: KagentAPI | null
+  onOpenDashboard: () => void
+  // Opens the dashboard with the alert's detail drawer showing
+  onOpenAlert: (alertId: string) => void
+  onSwitchConnector: (connectorId: string) => void
+}
+
+const RECENT_CRITICAL = 5
+const HOUR = 60 * 60 * 1000
+
+// Keeps the desktop tray menu in step with the alert stream and carries out
+// the actions picked from it. Renders nothing.
+export default function TraySync({ connectors, kagentApi, onOpenDashboard, onOpenAlert, onSwitchConnector }: TraySyncProps) {
+  const { state } = useAlerts()
+  const silences = useSyncExternalStore(subscribeToSilences, getSilences)
+
+  const firing = state.alerts.filter(alert => alert.status === 'firing' && !isSilenced(alert, silences))
+  const critical = firing
+    .filter(alert => alert.severity === 'critical')
+    .sort((a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime())
+    .slice(0, RECENT_CRITICAL)
+    .map(alert => ({ id: alert.id, label: `${getEventType(alert.eventType).label}: ${alert.namespace}/${alert.resourceName}` }))
+
+  // khook's summary counts alerts beyond the loaded page; the local count is
+  // only a fallback until it arrives
+  const firingCount = state.summary ? withoutSilenced(state.summary, state.alerts, silences).firing : firing.length
+
+  // Only push to the tray when what it shows changes
+  const trayState = JSON.stringify({ firing: firingCount, critical, connectors })
+  useEffect(() => {
+    updateTray(JSON.parse(trayState)).catch(error => console.error('Failed to update the tray:', error))
+  }, [trayState])
+
+  // The listener is registered once; it reads the latest props and alerts from here
+  const latest = useRef({ alerts: state.alerts, kagentApi, onOpenDashboard, onOpenAlert, onSwitchConnector })
+  latest.current = { alerts: state.alerts, kagentApi, onOpenDashboard, onOpenAlert, onSwitchConnector }
+
+  useEffect(() => {
+    const handle = (action: TrayAction) => {
+      const current = latest.current
+      switch (action.action) {
+        case 'open-dashboard':
+          current.onOpenDashboard()
+          break
+        case 'open-alert':
+          current.onOpenAlert(action.id)
+          break
+        case 'switch-connector':
+          current.onSwitchConnector(action.id)
+          break
+        case 'silence': {
+          const alert = current.alerts.find(existing => existing.id === action.id)
+          if (!alert || !current.kagentApi) return
+          const now = Date.now()
+          saveSilence({
+            matchers: matchersForAlert(alert),
+            startsAt: new Date(now).toISOString(),
+            endsAt: new Date(now + HOUR).toISOString(),
+            createdBy: current.kagentApi.getUserId(),
+            comment: 'Silenced for 1 hour from the tray'
+          })
+          break
+        }
+      }
+    }
+
+    let stop: (() => void) | undefined
+    let cancelled = false
+    listenForTrayActions(handle).then(unlisten => {
+      if (cancelled) unlisten()
+      else stop = unlisten
+    }).catch(error => console.error('Failed to listen for tray actions:', error))
+    return () => {
+      cancelled = true
+      stop?.()
+    }
+  }, [])
+
+  return null
+}
@@ -1,3 +1,45 @@
+import { getSecret, setSecret } from './lib/secrets'
+
+// TLS options for endpoints with private or self-signed certificates.
+// Applied by the desktop app; browsers use their own trust store.
+export interface TlsConfig {
+  // PEM encoded CA certificate used to verify the server
+  caCert?: string
+  insecureSkipVerify?: boolean
+}
+
+// khook (Kubernetes event hooks) endpoint serving hooks and alerts
+export interface KhookConfig {
+  url: string
+  token?: string
+  tls?: TlsConfig
+}
+
+// How a connector authenticates against the KAgent API
+export type AuthType = 'none' | 'bearer' | 'basic' | 'oidc' | 'kubeconfig'
+
+// OIDC provider used for the device-code login
+export interface OidcAuthConfig {
+  issuerUrl: string
+  clientId: string
+  // Defaults to "openid profile email offline_access"
+  scope?: string
+}
+
+// kubeconfig context whose credentials are reused (desktop app only)
+export interface KubeconfigAuthConfig {
+  // Defaults to $KUBECONFIG or ~/.kube/config
+  path?: string
+  // Defaults to the current-context
+  context?: string
+}
+
+export interface AuthConfig {
+  type: AuthType
+  oidc?: OidcAuthConfig
+  kubeconfig?: KubeconfigAuthConfig
+}
+
 // KAgent configuration interface
 export interface KAgentConfig {
   // Connection settings
@@ -5,11 +47,19 @@ export interface KAgentConfig {
   port: number
   protocol: 'http' | 'https'
   
-  // Authentication (optional)
+  // Authentication (optional). Without an auth type, a token means bearer
+  // auth and a username/password pair means basic auth.
+  auth?: AuthConfig
   token?: string
   username?: string
   password?: string
   
+  // Identity sessions are attributed to, e.g. the engineer's email
+  userId?: string
+  
+  // TLS for the KAgent API (desktop app only)
+  tls?: TlsConfig
+  
   // Connection options
   timeout: number
   retries: number
@@ -20,6 +70,14 @@ export interface KAgentConfig {
   // Ingress settings for production deployments
   ingressUrl?: string
   ingressPath?: string
+  
+  // khook endpoint for hooks and alerts
+  khook?: KhookConfig
+}
+
+// khook API reached through a local port-forward
+export const defaultKhookConfig: KhookConfig = {
+  url: 'http://localhost:8082'
 }
 
 // Default configuration for local development
@@ -78,14 +136,34 @@ export const configs: Record<string, KAgentConfig> = {
   }
 }
 
-// Get current configuration based on environment and saved settings
+// Credentials are kept in the secret store rather than the settings blob
+const SETTINGS_KEY = 'sre-ide-settings'
+const SETTINGS_SECRET_FIELDS = ['token', 'username', 'password'] as const
+
+// Move credentials left in older settings blobs into the secret store
+function migrateSettingsSecrets(userSettings: Partial<KAgentConfig>): void {
+  const fields = SETTINGS_SECRET_FIELDS.filter(field => userSettings[field])
+  if (fields.length === 0) return
+  
+  Promise.all(fields.map(field => setSecret(`settings/${field}`, userSettings[field] as string)))
+    .then(() => {
+      const cleaned = { ...userSettings }
+      fields.forEach(field => delete cleaned[field])
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(cleaned))
+    })
+    .catch(error => console.warn('Failed to move saved credentials to the secret store:', error))
+}
+
+// Get current configuration based on environment and saved settings.
+// Credentials held in the secret store are added by loadConfig.
 export function getConfig(): KAgentConfig {
   // Check for saved settings in localStorage
   if (typeof window !== 'undefined') {
-    const saved = localStorage.getItem('sre-ide-settings')
+    const saved = localStorage.getItem(SETTINGS_KEY)
     if (saved) {
       try {
         const userSettings = JSON.parse(saved)
+        migrateSettingsSecrets(userSettings)
         // Merge with default config to ensure all required fields are present
         return { ...defaultConfig, ...userSettings }
       } catch (error) {
@@ -98,6 +176,22 @@ export function getConfig(): KAgentConfig {
   return { ...configs.local }
 }
 
+// getConfig plus the credentials held in the secret store
+export async function loadConfig(): Promise<KAgentConfig> {
+  const config = getConfig()
+  for (const field of SETTINGS_SECRET_FIELDS) {
+    try {
+      const value = await getSecret(`settings/${field}`)
+      if (value) {
+        config[field] = value
+      }
+    } catch (error) {
+      console.warn(`Failed to load ${field} from the secret store:`, error)
+    }
+  }
+  return config
+}
+
 // Build the full URL for API calls
 export function buildApiUrl(config: KAgentConfig): string {
   const protocol = config.protocol || 'http'
@@ -128,5 +222,13 @@ export function validateConfig(config: KAgentConfig): string[] {
     errors.push('protocol must be either http or https')
   }
   
+  if (config.auth?.type === 'oidc' && (!config.auth.oidc?.issuerUrl || !config.auth.oidc?.clientId)) {
+    errors.push('OIDC auth requires an issuer URL and client ID')
+  }
+  
+  if (config.khook?.url && !/^https?:\/\/[^/]+/.test(config.khook.url)) {
+    errors.push('khook url must start with http:// or https://')
+  }
+  
   return errors
 }
@@ -1,61 +1,28 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react'
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef } from 'react'
+import type { Alert, AlertSubscription, AlertSummary, KagentAPI } from '../lib/kagent'
+import { alertFingerprint, dedupeAlerts, mergeAlert } from '../lib/alertGrouping'
+import { recordAlerts, withAlertHistory } from '../lib/alertHistory'
+import { isSilenced } from '../lib/silences'
+import { listenForNotificationActions, notifyAlert } from '../lib/alertNotifications'
+import { routeAlert } from '../lib/notificationChannels'
 
 // Types
-interface Alert {
-  id: string
-  hookName: string
-  namespace: string
-  eventType: string
-  resourceName: string
-  severity: 'low' | 'medium' | 'high' | 'critical'
-  status: 'firing' | 'resolved' | 'acknowledged'
-  firstSeen: string
-  lastSeen: string
-  message: string
-  agentId: string
-  sessionId?: string
-  taskId?: string
-  remediationStatus?: 'pending' | 'in_progress' | 'completed' | 'failed'
-}
-
-interface AlertSummary {
-  total: number
-  firing: number
-  resolved: number
-  acknowledged: number
-  bySeverity: {
-    critical: number
-    high: number
-    medium: number
-    low: number
-  }
-  byEventType: {
-    'pod-restart': number
-    'pod-pending': number
-    'oom-kill': number
-    'probe-failed': number
-  }
-}
-
 interface AlertState {
   alerts: Alert[]
   summary: AlertSummary | null
   isLoading: boolean
   error: string | null
   isStreaming: boolean
-  eventSource: EventSource | null
 }
 
 interface AlertContextType {
   state: AlertState
   actions: {
-    setAlerts: (alerts: Alert[]) => void
-    setSummary: (summary: AlertSummary) => void
-    setLoading: (loading: boolean) => void
+    refresh: () => Promise<void>
     setError: (error: string | null) => void
     acknowledgeAlert: (alertId: string) => Promise<void>
     resolveAlert: (alertId: string) => Promise<void>
-    startStreaming: (kagentApi: any) => void
+    startStreaming: () => Promise<void>
     stopStreaming: () => void
     addAlert: (alert: Alert) => void
     updateAlert: (alertId: string, updates: Partial<Alert>) => void
@@ -64,40 +31,41 @@ interface AlertContextType {
 
 // Actions
 type AlertAction =
+  | { type: 'RESET' }
   | { type: 'SET_ALERTS'; payload: Alert[] }
-  | { type: 'SET_SUMMARY'; payload: AlertSummary }
+  | { type: 'SET_SUMMARY'; payload: AlertSummary | null }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'ADD_ALERT'; payload: Alert }
   | { type: 'UPDATE_ALERT'; payload: { id: string; updates: Partial<Alert> } }
-  | { type: 'START_STREAMING'; payload: EventSource }
-  | { type: 'STOP_STREAMING' }
+  | { type: 'SET_STREAMING'; payload: boolean }
 
 // Reducer
 const alertReducer = (state: AlertState, action: AlertAction): AlertState => {
   switch (action.type) {
+    case 'RESET':
+      return initialState
+
     case 'SET_ALERTS':
-      return { ...state, alerts: action.payload }
-    
+      return { ...state, alerts: dedupeAlerts(action.payload) }
+
     case 'SET_SUMMARY':
       return { ...state, summary: action.payload }
-    
+
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload }
-    
+
     case 'SET_ERROR':
       return { ...state, error: action.payload }
-    
+
     case 'ADD_ALERT':
-      // Avoid duplicates
-      if (state.alerts.find(a => a.id === action.payload.id)) {
-        return state
-      }
-      return { 
-        ...state, 
-        alerts: [action.payload, ...state.alerts] 
+      // Same id updates the alert; a repeat of an open alert on the same
+      // resource (hook, namespace, event type) replaces it
+      return {
+        ...state,
+        alerts: mergeAlert(state.alerts, action.payload)
       }
-    
+
     case 'UPDATE_ALERT':
       return {
         ...state,
@@ -107,24 +75,10 @@ const alertReducer = (state: AlertState, action: AlertAction): AlertState => {
             : alert
         )
       }
-    
-    case 'START_STREAMING':
-      return { 
-        ...state, 
-        isStreaming: true, 
-        eventSource: action.payload 
-      }
-    
-    case 'STOP_STREAMING':
-      if (state.eventSource) {
-        state.eventSource.close()
-      }
-      return { 
-        ...state, 
-        isStreaming: false, 
-        eventSource: null 
-      }
-    
+
+    case 'SET_STREAMING':
+      return { ...state, isStreaming: action.payload }
+
     default:
       return state
   }
@@ -136,8 +90,7 @@ const initialState: AlertState = {
   summary: null,
   isLoading: false,
   error: null,
-  isStreaming: false,
-  eventSource: null
+  isStreaming: false
 }
 
 // Context
@@ -145,76 +98,181 @@ const AlertContext = createContext<AlertContextType | null>(null)
 
 // Provider
 interface AlertProviderProps {
+  // Connector whose khook alerts are loaded and streamed; none clears them
+  kagentApi?: KagentAPI | null
+  // Investigate action on a notification: open a chat with the alert's agent
+  onInvestigate?: (alert: Alert) => void
   children: React.ReactNode
 }
 
-export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
+// Holds the active connector's alerts and keeps its alert stream open for
+// the whole app, so the stream and notifications do not depend on which tab
+// is showing
+export const AlertProvider: React.FC<AlertProviderProps> = ({ kagentApi = null, onInvestigate, children }) => {
   const [state, dispatch] = useReducer(alertReducer, initialState)
+  const subscriptionRef = useRef<AlertSubscription | null>(null)
+  // Bumped on every start and stop so a subscription that resolves late is closed
+  const streamGenerationRef = useRef(0)
+  // Loads for a connector that is no longer active are dropped
+  const kagentApiRef = useRef(kagentApi)
+  kagentApiRef.current = kagentApi
+  // Latest alerts, for telling new firing alerts from updates inside stream callbacks
+  const alertsRef = useRef<Alert[]>([])
+  alertsRef.current = state.alerts
 
-  // Cleanup event source on unmount
+  // Keep every alert seen so it outlives khook's retention
   useEffect(() => {
-    return () => {
-      if (state.eventSource) {
-        state.eventSource.close()
-      }
-    }
-  }, [])
+    if (kagentApiRef.current) recordAlerts(kagentApiRef.current.getKhookUrl(), state.alerts)
+  }, [state.alerts])
 
-  const actions = {
-    setAlerts: useCallback((alerts: Alert[]) => {
-      dispatch({ type: 'SET_ALERTS', payload: alerts })
-    }, []),
+  const refresh = useCallback(async () => {
+    if (!kagentApi) return
+    dispatch({ type: 'SET_LOADING', payload: true })
+    dispatch({ type: 'SET_ERROR', payload: null })
 
-    setSummary: useCallback((summary: AlertSummary) => {
+    try {
+      const [alerts, summary] = await Promise.all([
+        kagentApi.getAlerts().catch((error) => {
+          console.error('Failed to load alerts:', error)
+          return []
+        }),
+        kagentApi.getAlertSummary().catch((error) => {
+          console.error('Failed to load alert summary:', error)
+          return null
+        }),
+        // Registers khook's event type labels; falls back to the built-in list
+        kagentApi.getEventTypes()
+      ])
+
+      if (kagentApiRef.current !== kagentApi) return
+      // Alerts khook has dropped come back from local history
+      dispatch({ type: 'SET_ALERTS', payload: withAlertHistory(kagentApi.getKhookUrl(), alerts) })
       dispatch({ type: 'SET_SUMMARY', payload: summary })
-    }, []),
+    } catch (error) {
+      if (kagentApiRef.current !== kagentApi) return
+      console.error('Failed to load alert data:', error)
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to load alert data'
+      })
+    } finally {
+      if (kagentApiRef.current === kagentApi) {
+        dispatch({ type: 'SET_LOADING', payload: false })
+      }
+    }
+  }, [kagentApi])
 
-    setLoading: useCallback((loading: boolean) => {
-      dispatch({ type: 'SET_LOADING', payload: loading })
-    }, []),
+  const stopStreaming = useCallback(() => {
+    streamGenerationRef.current++
+    subscriptionRef.current?.close()
+    subscriptionRef.current = null
+    dispatch({ type: 'SET_STREAMING', payload: false })
+  }, [])
 
-    setError: useCallback((error: string | null) => {
-      dispatch({ type: 'SET_ERROR', payload: error })
-    }, []),
+  const startStreaming = useCallback(async () => {
+    if (!kagentApi) return
+    stopStreaming()
+    const generation = streamGenerationRef.current
 
-    acknowledgeAlert: useCallback(async (alertId: string) => {
-      dispatch({
-        type: 'UPDATE_ALERT',
-        payload: { id: alertId, updates: { status: 'acknowledged' } }
-      })
-    }, []),
+    try {
+      const subscription = await kagentApi.subscribeToAlerts(
+        (alert) => {
+          // The alert this one updates or repeats, as mergeAlert folds them
+          const previous = alertsRef.current.find(existing => existing.id === alert.id) ||
+            alertsRef.current.find(existing => existing.status !== 'resolved' && alertFingerprint(existing) === alertFingerprint(alert))
+          dispatch({ type: 'ADD_ALERT', payload: alert })
 
-    resolveAlert: useCallback(async (alertId: string) => {
+          const startedFiring = alert.status === 'firing' && previous?.status !== 'firing'
+          const resolved = alert.status === 'resolved' && previous !== undefined && previous.status !== 'resolved'
+          if (isSilenced(alert)) return
+          if (startedFiring) {
+            notifyAlert(alert)
+          }
+          // Channels hear about new alerts and, so PagerDuty can close incidents, resolutions
+          if (startedFiring || resolved) {
+            routeAlert(alert)
+          }
+        },
+        (error) => {
+          console.error('Alert stream error:', error)
+          dispatch({ type: 'SET_STREAMING', payload: false })
+        },
+        () => dispatch({ type: 'SET_STREAMING', payload: true })
+      )
+      if (generation !== streamGenerationRef.current) {
+        subscription.close()
+        return
+      }
+      subscriptionRef.current = subscription
+      dispatch({ type: 'SET_STREAMING', payload: true })
+    } catch (error) {
+      if (generation !== streamGenerationRef.current) return
+      console.error('Failed to start alert streaming:', error)
       dispatch({
-        type: 'UPDATE_ALERT',
-        payload: { id: alertId, updates: { status: 'resolved' } }
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to start streaming'
       })
-    }, []),
+    }
+  }, [kagentApi, stopStreaming])
 
-    startStreaming: useCallback((kagentApi: any) => {
-      if (state.isStreaming || !kagentApi) return
+  // Reload and resubscribe whenever the connector changes
+  useEffect(() => {
+    dispatch({ type: 'RESET' })
+    refresh()
+    startStreaming()
+    return stopStreaming
+  }, [refresh, startStreaming, stopStreaming])
 
-      try {
-        const eventSource = kagentApi.subscribeToAlerts(
-          (alert: Alert) => {
-            dispatch({ type: 'ADD_ALERT', payload: alert })
-          },
-          (error: Error) => {
-            dispatch({ type: 'SET_ERROR', payload: error.message })
-          }
-        )
+  const acknowledgeAlert = useCallback(async (alertId: string) => {
+    if (!kagentApi) return
+    await kagentApi.acknowledgeAlert(alertId)
+    dispatch({
+      type: 'UPDATE_ALERT',
+      payload: { id: alertId, updates: { status: 'acknowledged' } }
+    })
+  }, [kagentApi])
+
+  const resolveAlert = useCallback(async (alertId: string) => {
+    if (!kagentApi) return
+    await kagentApi.resolveAlert(alertId)
+    dispatch({
+      type: 'UPDATE_ALERT',
+      payload: { id: alertId, updates: { status: 'resolved' } }
+    })
+  }, [kagentApi])
 
-        dispatch({ type: 'START_STREAMING', payload: eventSource })
-      } catch (error) {
-        dispatch({ 
-          type: 'SET_ERROR', 
-          payload: error instanceof Error ? error.message : 'Failed to start streaming' 
-        })
+  // Acknowledge and Investigate pressed on a native notification
+  const onInvestigateRef = useRef(onInvestigate)
+  onInvestigateRef.current = onInvestigate
+  useEffect(() => {
+    let stop: (() => void) | undefined
+    let cancelled = false
+    listenForNotificationActions((alertId, action) => {
+      if (action === 'acknowledge') {
+        acknowledgeAlert(alertId).catch(error => console.error('Failed to acknowledge alert:', error))
+        return
       }
-    }, [state.isStreaming]),
+      const alert = alertsRef.current.find(existing => existing.id === alertId)
+      if (alert) onInvestigateRef.current?.(alert)
+    }).then(unlisten => {
+      if (cancelled) unlisten()
+      else stop = unlisten
+    }).catch(error => console.error('Failed to register notification actions:', error))
+    return () => {
+      cancelled = true
+      stop?.()
+    }
+  }, [acknowledgeAlert])
+
+  const actions = {
+    refresh,
+    acknowledgeAlert,
+    resolveAlert,
+    startStreaming,
+    stopStreaming,
 
-    stopStreaming: useCallback(() => {
-      dispatch({ type: 'STOP_STREAMING' })
+    setError: useCallback((error: string | null) => {
+      dispatch({ type: 'SET_ERROR', payload: error })
     }, []),
 
     addAlert: useCallback((alert: Alert) => {
@@ -240,4 +298,4 @@ export const useAlerts = (): AlertContextType => {
     throw new Error('useAlerts must be used within an AlertProvider')
   }
   return context
-}
\ No newline at end of file
+}
@@ -0,0 +1,123 @@
+// Deduplication and grouping of khook alerts. A crashlooping Deployment
+// raises one alert per pod; grouping by workload folds them back together.
+import type { Alert } from './kagent'
+import { getEventType } from './eventTypes'
+
+export type AlertGroupBy = 'none' | 'hook' | 'namespace' | 'eventType' | 'workload'
+
+export const ALERT_GROUP_BY_OPTIONS: Array<{ value: AlertGroupBy; label: string }> = [
+  { value: 'none', label: 'No Grouping' },
+  { value: 'workload', label: 'Workload' },
+  { value: 'hook', label: 'Hook' },
+  { value: 'namespace', label: 'Namespace' },
+  { value: 'eventType', label: 'Event Type' }
+]
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { critical: 3, high: 2, medium: 1, low: 0 }
+
+// Characters Kubernetes uses for generated name suffixes (no vowels, no 0/1/3)
+const SUFFIX = '[bcdfghjklmnpqrstvwxz2456789]'
+const DEPLOYMENT_POD = new RegExp(`^(.+)-${SUFFIX}{6,10}-${SUFFIX}{5}$`)
+const GENERATED_POD = new RegExp(`^(.+)-${SUFFIX}{5}$`)
+const STATEFUL_POD = /^(.+)-\d+$/
+// The pod name suffixes above, for matching every pod of a workload by its name
+export const WORKLOAD_POD_SUFFIX = `-${SUFFIX}{6,10}-${SUFFIX}{5}|-${SUFFIX}{5}|-\\d+`
+
+// Best guess at the owning workload from a pod name:
+// "api-7d9f8b6c5-x2k4q" (Deployment) -> "api", "web-x2k4q" (DaemonSet, Job) -> "web",
+// "db-0" (StatefulSet) -> "db". Other names are returned unchanged.
+export function workloadName(resourceName: string): string {
+  const match = DEPLOYMENT_POD.exec(resourceName) || GENERATED_POD.exec(resourceName) || STATEFUL_POD.exec(resourceName)
+  return match ? match[1] : resourceName
+}
+
+// Alerts with the same fingerprint are the same problem on the same resource
+export const alertFingerprint = (alert: Alert) =>
+  [alert.hookName, alert.namespace, alert.eventType, alert.resourceName].join('|')
+
+const earlier = (a: string, b: string) => (new Date(a).getTime() <= new Date(b).getTime() ? a : b)
+const later = (a: string, b: string) => (new Date(a).getTime() >= new Date(b).getTime() ? a : b)
+
+// Adds an alert to a list, newest first. An alert with the same id is
+// updated in place; one that repeats a still-open alert's fingerprint
+// replaces it, keeping the original firstSeen.
+export function mergeAlert(alerts: Alert[], incoming: Alert): Alert[] {
+  const sameId = alerts.findIndex(alert => alert.id === incoming.id)
+  if (sameId >= 0) {
+    const updated = [...alerts]
+    // khook reporting an alert again makes it more than history
+    updated[sameId] = { ...alerts[sameId], ...incoming, historyOnly: incoming.historyOnly }
+    return updated
+  }
+
+  const fingerprint = alertFingerprint(incoming)
+  const repeat = alerts.find(alert => alert.status !== 'resolved' && alertFingerprint(alert) === fingerprint)
+  if (!repeat) {
+    return [incoming, ...alerts]
+  }
+
+  const merged = { ...repeat, ...incoming, firstSeen: earlier(repeat.firstSeen, incoming.firstSeen) }
+  return [merged, ...alerts.filter(alert => alert !== repeat)]
+}
+
+// Collapses repeats in a freshly loaded list
+export function dedupeAlerts(alerts: Alert[]): Alert[] {
+  return [...alerts]
+    .sort((a, b) => new Date(a.lastSeen).getTime() - new Date(b.lastSeen).getTime())
+    .reduce(mergeAlert, [])
+}
+
+export interface AlertGroup {
+  key: string
+  label: string
+  alerts: Alert[]
+  firing: number
+  // Highest severity among the group's open alerts, else among all of them
+  severity: Alert['severity']
+  firstSeen: string
+  lastSeen: string
+}
+
+function groupKey(alert: Alert, by: AlertGroupBy): { key: string; label: string } {
+  switch (by) {
+    case 'hook':
+      return { key: `${alert.namespace}/${alert.hookName}`, label: alert.hookName }
+    case 'namespace':
+      return { key: alert.namespace, label: alert.namespace }
+    case 'eventType':
+      return { key: alert.eventType, label: getEventType(alert.eventType).label }
+    case 'workload': {
+      const workload = workloadName(alert.resourceName)
+      return { key: `${alert.namespace}/${workload}`, label: `${alert.namespace}/${workload}` }
+    }
+    default:
+      return { key: alert.id, label: alert.resourceName }
+  }
+}
+
+// Groups in order of most recent activity
+export function groupAlerts(alerts: Alert[], by: AlertGroupBy): AlertGroup[] {
+  const groups = new Map<string, AlertGroup>()
+
+  for (const alert of alerts) {
+    const { key, label } = groupKey(alert, by)
+    const group = groups.get(key)
+    if (!group) {
+      groups.set(key, { key, label, alerts: [alert], firing: 0, severity: alert.severity, firstSeen: alert.firstSeen, lastSeen: alert.lastSeen })
+    } else {
+      group.alerts.push(alert)
+      group.firstSeen = earlier(group.firstSeen, alert.firstSeen)
+      group.lastSeen = later(group.lastSeen, alert.lastSeen)
+    }
+  }
+
+  for (const group of groups.values()) {
+    const open = group.alerts.filter(alert => alert.status !== 'resolved')
+    group.firing = group.alerts.filter(alert => alert.status === 'firing').length
+    group.severity = (open.length > 0 ? open : group.alerts)
+      .reduce((highest, alert) => SEVERITY_RANK[alert.severity] > SEVERITY_RANK[highest] ? alert.severity : highest, 'low' as Alert['severity'])
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime())
+}
@@ -0,0 +1,182 @@
+// Locally retained alert history and the timeline built from it. khook only
+// returns the alerts it still holds, so every alert the dashboard sees is
+// kept here for a week, per khook endpoint, and merged back in after khook
+// drops it, along with the remediation statuses it went through.
+import type { Alert } from './kagent'
+
+const HISTORY_KEY = 'sre-ide-alert-history'
+const REMEDIATION_KEY = 'sre-ide-remediation-history'
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_ENTRIES = 2000
+
+const HOUR = 60 * 60 * 1000
+
+export type AlertTimeRange = '1h' | '6h' | '24h' | '7d'
+
+export const ALERT_TIME_RANGES: Array<{ value: AlertTimeRange; label: string; durationMs: number; bucketMs: number }> = [
+  { value: '1h', label: 'Last hour', durationMs: HOUR, bucketMs: 5 * 60 * 1000 },
+  { value: '6h', label: 'Last 6 hours', durationMs: 6 * HOUR, bucketMs: 15 * 60 * 1000 },
+  { value: '24h', label: 'Last 24 hours', durationMs: 24 * HOUR, bucketMs: HOUR },
+  { value: '7d', label: 'Last 7 days', durationMs: 7 * 24 * HOUR, bucketMs: 6 * HOUR }
+]
+
+export const SEVERITY_LANES: Alert['severity'][] = ['critical', 'high', 'medium', 'low']
+
+export interface RemediationTransition {
+  status: NonNullable<Alert['remediationStatus']>
+  // When the dashboard first saw the alert in this status
+  at: string
+}
+
+// Alerts per khook URL, newest first
+let history: Record<string, Alert[]> = load()
+// Remediation statuses per alert id, oldest first
+let remediation: Record<string, RemediationTransition[]> = loadRemediation()
+
+function load(): Record<string, Alert[]> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}')
+    // Older versions kept one list for every connector; it cannot be split up
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+  } catch (error) {
+    console.error('Failed to load alert history:', error)
+    return {}
+  }
+}
+
+function loadRemediation(): Record<string, RemediationTransition[]> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(REMEDIATION_KEY) || '{}')
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+  } catch (error) {
+    console.error('Failed to load remediation history:', error)
+    return {}
+  }
+}
+
+export function getAlertHistory(source: string): Alert[] {
+  return history[source] || []
+}
+
+export function getRemediationHistory(alertId: string): RemediationTransition[] {
+  return remediation[alertId] || []
+}
+
+// Appends a transition for every alert whose remediation status changed
+// since it was last seen
+function recordRemediation(alerts: Alert[]): void {
+  const now = new Date().toISOString()
+  const next = { ...remediation }
+  let changed = false
+  for (const alert of alerts) {
+    if (!alert.remediationStatus) continue
+    const transitions = next[alert.id] || []
+    if (transitions[transitions.length - 1]?.status === alert.remediationStatus) continue
+    next[alert.id] = [...transitions, { status: alert.remediationStatus, at: now }]
+    changed = true
+  }
+
+  // Forget alerts that dropped out of the history
+  const retained = new Set(Object.values(history).flat().map(alert => alert.id))
+  for (const id of Object.keys(next)) {
+    if (!retained.has(id)) {
+      delete next[id]
+      changed = true
+    }
+  }
+  if (!changed) return
+
+  remediation = next
+  try {
+    localStorage.setItem(REMEDIATION_KEY, JSON.stringify(remediation))
+  } catch (error) {
+    console.error('Failed to save remediation history:', error)
+  }
+}
+
+// Stores the latest state of each alert khook returned from the source,
+// newest first, dropping what is past retention
+export function recordAlerts(source: string, alerts: Alert[]): void {
+  const reported = alerts.filter(alert => !alert.historyOnly)
+  if (reported.length === 0) return
+  const byId = new Map(getAlertHistory(source).map(alert => [alert.id, alert]))
+  reported.forEach(alert => byId.set(alert.id, alert))
+
+  const cutoff = Date.now() - RETENTION_MS
+  history = {
+    ...history,
+    [source]: Array.from(byId.values())
+      .filter(alert => new Date(alert.lastSeen).getTime() > cutoff)
+      .sort((a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime())
+      .slice(0, MAX_ENTRIES)
+  }
+
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.error('Failed to save alert history:', error)
+  }
+  recordRemediation(reported)
+}
+
+// khook's alerts plus the retained ones from the same source it no longer
+// returns. Those are marked history-only and, as khook has let go of them,
+// resolved, so they are not counted as firing or sent to khook to
+// acknowledge or resolve.
+export function withAlertHistory(source: string, alerts: Alert[]): Alert[] {
+  const current = new Set(alerts.map(alert => alert.id))
+  const dropped = getAlertHistory(source)
+    .filter(alert => !current.has(alert.id))
+    .map(alert => ({ ...alert, status: 'resolved' as const, historyOnly: true }))
+  return [...alerts, ...dropped]
+}
+
+export interface TimeWindow {
+  start: number
+  end: number
+}
+
+export interface TimelineBucket extends TimeWindow {
+  counts: Record<Alert['severity'], number>
+  total: number
+}
+
+// An alert is active from firstSeen to lastSeen, and until now while it is open
+function activeWindow(alert: Alert, now: number): TimeWindow {
+  const start = new Date(alert.firstSeen).getTime()
+  const lastSeen = new Date(alert.lastSeen).getTime()
+  return { start, end: alert.status === 'resolved' ? Math.max(start, lastSeen) : now }
+}
+
+export function alertInWindow(alert: Alert, window: TimeWindow, now = Date.now()): boolean {
+  const active = activeWindow(alert, now)
+  return active.start < window.end && active.end >= window.start
+}
+
+// Buckets covering the range, oldest first, with the alerts active in each
+// counted per severity
+export function buildTimeline(alerts: Alert[], range: AlertTimeRange, now = Date.now()): TimelineBucket[] {
+  const { durationMs, bucketMs } = ALERT_TIME_RANGES.find(option => option.value === range) || ALERT_TIME_RANGES[2]
+  // Align to bucket boundaries so buckets stay put between renders
+  const end = Math.ceil(now / bucketMs) * bucketMs
+  const count = Math.round(durationMs / bucketMs)
+  const buckets: TimelineBucket[] = Array.from({ length: count }, (_, index) => ({
+    start: end - (count - index) * bucketMs,
+    end: end - (count - index - 1) * bucketMs,
+    counts: { critical: 0, high: 0, medium: 0, low: 0 },
+    total: 0
+  }))
+
+  for (const alert of alerts) {
+    const active = activeWindow(alert, now)
+    if (Number.isNaN(active.start)) continue
+    for (const bucket of buckets) {
+      if (active.start < bucket.end && active.end >= bucket.start) {
+        bucket.counts[alert.severity]++
+        bucket.total++
+      }
+    }
+  }
+
+  return buckets
+}
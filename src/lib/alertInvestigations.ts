@@ -0,0 +1,120 @@
+// Investigations started from an alert. The alert's event type picks the
+// investigation template, its fields seed each agent with a context
+// preamble, and a link kept here marks the alert as under investigation
+// until the investigation is completed or cleared.
+import type { Alert } from './kagent'
+import { alertFingerprint } from './alertGrouping'
+import { alertTemplateValues, renderTemplate } from './promptTemplate'
+
+// Investigation template ids (see components/Investigation) for the built-in
+// event types; other event types get the production incident template
+const EVENT_TYPE_TEMPLATES: Record<string, string> = {
+  'pod-restart': 'prod-incident',
+  'oom-kill': 'perf-degradation',
+  'probe-failed': 'perf-degradation',
+  'node-not-ready': 'prod-incident',
+  'image-pull-backoff': 'deployment-rollback',
+  'job-failed': 'deployment-rollback',
+  'pod-pending': 'capacity-planning',
+  'pvc-pending': 'capacity-planning'
+}
+const DEFAULT_TEMPLATE = 'prod-incident'
+
+export function investigationTemplateId(alert: Pick<Alert, 'eventType'>): string {
+  return EVENT_TYPE_TEMPLATES[alert.eventType] || DEFAULT_TEMPLATE
+}
+
+// Sent to every agent as its step starts. Alert fields use the notification
+// channel variables; step, steps, investigation and agents describe the run.
+const PREAMBLE_TEMPLATE = `You are step {{step}} of {{steps}} in the "{{investigation}}" investigation ({{agents}}), started from this alert:
+
+- Alert: {{id}}
+- Event: {{eventLabel}} ({{eventType}})
+- Severity: {{severity}}
+- Status: {{status}}
+- Resource: {{resourceName}} in namespace {{namespace}}
+- Hook: {{hookName}}
+- First seen: {{firstSeen}}
+- Last seen: {{lastSeen}}
+- Remediation: {{remediationStatus}}
+- Message: {{message}}
+
+Look into it from your area of expertise and report what you find, the likely cause and the next steps you recommend.`
+
+export function alertInvestigationPreamble(
+  alert: Alert,
+  investigation: { name: string; agents: string[] },
+  step: number
+): string {
+  return renderTemplate(PREAMBLE_TEMPLATE, {
+    ...alertTemplateValues(alert),
+    remediationStatus: alert.remediationStatus || 'none',
+    step: step + 1,
+    steps: investigation.agents.length,
+    investigation: investigation.name,
+    agents: investigation.agents.join(', ')
+  })
+}
+
+export interface AlertInvestigationLink {
+  investigationId: string
+  investigationName: string
+  alertId: string
+  // Alert ids change when khook re-raises a problem; the fingerprint does not
+  fingerprint: string
+  startedAt: string
+}
+
+const LINKS_KEY = 'sre-ide-alert-investigations'
+
+const listeners = new Set<() => void>()
+let links: AlertInvestigationLink[] = load()
+
+function load(): AlertInvestigationLink[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LINKS_KEY) || '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch (error) {
+    console.error('Failed to load alert investigations:', error)
+    return []
+  }
+}
+
+function persist(next: AlertInvestigationLink[]): void {
+  links = next
+  localStorage.setItem(LINKS_KEY, JSON.stringify(links))
+  listeners.forEach(listener => listener())
+}
+
+export function getAlertInvestigations(): AlertInvestigationLink[] {
+  return links
+}
+
+export function subscribeToAlertInvestigations(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function linkAlertInvestigation(alert: Alert, investigation: { id: string; name: string }): void {
+  persist([
+    {
+      investigationId: investigation.id,
+      investigationName: investigation.name,
+      alertId: alert.id,
+      fingerprint: alertFingerprint(alert),
+      startedAt: new Date().toISOString()
+    },
+    ...links.filter(link => link.investigationId !== investigation.id)
+  ])
+}
+
+// Called when the investigation is completed or cleared
+export function unlinkAlertInvestigation(investigationId: string): void {
+  if (!links.some(link => link.investigationId === investigationId)) return
+  persist(links.filter(link => link.investigationId !== investigationId))
+}
+
+export function findAlertInvestigation(alert: Alert, candidates = links): AlertInvestigationLink | undefined {
+  const fingerprint = alertFingerprint(alert)
+  return candidates.find(link => link.alertId === alert.id || link.fingerprint === fingerprint)
+}
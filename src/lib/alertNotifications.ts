@@ -0,0 +1,168 @@
+// Notifications for alerts that start firing: native OS notifications
+// through the Tauri notification plugin in the desktop app, browser
+// notifications otherwise, an optional sound and an in-app toast. Which
+// severities notify and how loud is set in Notification Settings.
+import type { Alert } from './kagent'
+import { getEventType } from './eventTypes'
+import { isTauri } from './tauri'
+
+export interface NotificationConfig {
+  enabled: boolean
+  sound: boolean
+  critical: boolean
+  high: boolean
+  medium: boolean
+  low: boolean
+  browserNotifications: boolean
+  desktopNotifications: boolean
+  soundVolume: number
+  customSound: string
+}
+
+export const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
+  enabled: true,
+  sound: true,
+  critical: true,
+  high: true,
+  medium: false,
+  low: false,
+  browserNotifications: true,
+  desktopNotifications: isTauri(),
+  soundVolume: 0.7,
+  customSound: 'default'
+}
+
+const SETTINGS_KEY = 'notification-settings'
+
+export function loadNotificationConfig(): NotificationConfig {
+  try {
+    return { ...DEFAULT_NOTIFICATION_CONFIG, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') }
+  } catch (error) {
+    console.error('Failed to load notification settings:', error)
+    return DEFAULT_NOTIFICATION_CONFIG
+  }
+}
+
+export function saveNotificationConfig(config: NotificationConfig): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(config))
+}
+
+export function shouldNotify(alert: Alert, config: NotificationConfig): boolean {
+  return config.enabled && config[alert.severity]
+}
+
+export type AlertNotificationAction = 'acknowledge' | 'investigate'
+
+// Action type the native notifications reference; the OS shows its buttons
+// on mobile only, so the desktop gets the same actions on an in-app toast
+const ALERT_ACTION_TYPE = 'sre-ide-alert'
+
+// A short beep at the configured volume (0-1)
+export function playAlertSound(volume: number): void {
+  try {
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
+    const audioContext = new AudioContextClass()
+    const oscillator = audioContext.createOscillator()
+    const gainNode = audioContext.createGain()
+
+    oscillator.connect(gainNode)
+    gainNode.connect(audioContext.destination)
+
+    oscillator.frequency.setValueAtTime(800, audioContext.currentTime)
+    gainNode.gain.setValueAtTime(Math.max(volume, 0.01), audioContext.currentTime)
+    gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5)
+
+    oscillator.start(audioContext.currentTime)
+    oscillator.stop(audioContext.currentTime + 0.5)
+  } catch (error) {
+    console.warn('Failed to play the alert sound:', error)
+  }
+}
+
+// Asks the OS for permission once; true when native notifications may be shown
+export async function ensureNativePermission(): Promise<boolean> {
+  const { isPermissionGranted, requestPermission } = await import('@tauri-apps/plugin-notification')
+  if (await isPermissionGranted()) return true
+  return (await requestPermission()) === 'granted'
+}
+
+export async function sendNativeNotification(title: string, body: string, alertId?: string): Promise<void> {
+  if (!(await ensureNativePermission())) return
+  const { sendNotification } = await import('@tauri-apps/plugin-notification')
+  sendNotification({
+    title,
+    body,
+    ...(alertId ? { actionTypeId: ALERT_ACTION_TYPE, extra: { alertId } } : {})
+  })
+}
+
+// Registers the Acknowledge and Investigate buttons and reports presses.
+// Returns a function that stops listening.
+export async function listenForNotificationActions(
+  onAction: (alertId: string, action: AlertNotificationAction) => void
+): Promise<() => void> {
+  if (!isTauri()) return () => {}
+  const plugin = await import('@tauri-apps/plugin-notification')
+  await plugin.registerActionTypes([{
+    id: ALERT_ACTION_TYPE,
+    actions: [
+      { id: 'acknowledge', title: 'Acknowledge' },
+      { id: 'investigate', title: 'Investigate', foreground: true }
+    ]
+  }])
+  // The event carries the pressed action next to the notification
+  const listener = await plugin.onAction((event) => {
+    const { actionId, notification } = event as unknown as { actionId?: string; notification?: { extra?: Record<string, unknown> } }
+    const alertId = notification?.extra?.alertId
+    if (typeof alertId === 'string' && (actionId === 'acknowledge' || actionId === 'investigate')) {
+      onAction(alertId, actionId)
+    }
+  })
+  return () => listener.unregister()
+}
+
+// In-app toasts for notified alerts, newest first
+const MAX_TOASTS = 3
+const toastListeners = new Set<() => void>()
+let toasts: string[] = []
+
+function setToasts(next: string[]): void {
+  toasts = next
+  toastListeners.forEach(listener => listener())
+}
+
+export function getAlertToasts(): string[] {
+  return toasts
+}
+
+export function subscribeToAlertToasts(listener: () => void): () => void {
+  toastListeners.add(listener)
+  return () => toastListeners.delete(listener)
+}
+
+export function dismissAlertToast(alertId: string): void {
+  setToasts(toasts.filter(id => id !== alertId))
+}
+
+// Notifies about an alert that started firing, as the settings allow
+export function notifyAlert(alert: Alert, config: NotificationConfig = loadNotificationConfig()): void {
+  if (!shouldNotify(alert, config)) return
+
+  const title = `${alert.severity === 'critical' ? 'Critical Alert' : 'Alert'}: ${getEventType(alert.eventType).label}`
+  const body = `${alert.resourceName} in ${alert.namespace}`
+
+  if (isTauri() && config.desktopNotifications) {
+    sendNativeNotification(title, body, alert.id).catch(error => {
+      console.error('Failed to show the desktop notification:', error)
+    })
+  } else if (config.browserNotifications && 'Notification' in window && Notification.permission === 'granted') {
+    const notification = new Notification(title, { body, icon: '/vite.svg', tag: alert.id })
+    notification.onclick = () => window.focus()
+  }
+
+  if (config.sound) {
+    playAlertSound(config.soundVolume)
+  }
+
+  setToasts([alert.id, ...toasts.filter(id => id !== alert.id)].slice(0, MAX_TOASTS))
+}
@@ -0,0 +1,455 @@
+// Authentication strategies for KAgent connectors.
+// Each strategy turns a connector's auth settings into request headers and,
+// where the credentials expire (OIDC, kubeconfig exec plugins), refreshes them.
+import type { AuthConfig, AuthType, KubeconfigAuthConfig, OidcAuthConfig } from '../config'
+import { KagentAuthError, KagentNetworkError, errorFromStatus } from './errors'
+import { sleep } from './retry'
+import { deleteSecret, getSecret, setSecret } from './secrets'
+import { invokeCommand, isTauri } from './tauri'
+
+export interface AuthStrategy {
+  type: AuthType
+  // Headers to add to every request
+  getHeaders(): Promise<Record<string, string>>
+  // Called after a 401; resolves true when new credentials are worth a retry
+  refresh?(): Promise<boolean>
+}
+
+// The parts of a connector config that decide how it authenticates
+export interface AuthSettings {
+  auth?: AuthConfig
+  token?: string
+  username?: string
+  password?: string
+}
+
+// Connectors saved before auth types existed infer one from their credentials
+export function resolveAuthType(settings: AuthSettings): AuthType {
+  if (settings.auth?.type) return settings.auth.type
+  if (settings.token) return 'bearer'
+  if (settings.username && settings.password) return 'basic'
+  return 'none'
+}
+
+export function createAuthStrategy(settings: AuthSettings): AuthStrategy {
+  switch (resolveAuthType(settings)) {
+    case 'bearer':
+      return bearerAuth(settings.token)
+    case 'basic':
+      return basicAuth(settings.username || '', settings.password || '')
+    case 'oidc':
+      return settings.auth?.oidc
+        ? oidcAuth(settings.auth.oidc)
+        : misconfiguredAuth('oidc', 'OIDC auth is selected but no provider is configured')
+    case 'kubeconfig':
+      return kubeconfigAuth(settings.auth?.kubeconfig || {})
+    default:
+      return noAuth
+  }
+}
+
+const noAuth: AuthStrategy = {
+  type: 'none',
+  getHeaders: async () => ({})
+}
+
+// Fails every request, so a bad config surfaces where the request is made
+function misconfiguredAuth(type: AuthType, message: string): AuthStrategy {
+  return {
+    type,
+    getHeaders: async () => {
+      throw new KagentAuthError(401, message)
+    }
+  }
+}
+
+export function bearerAuth(token: string | undefined): AuthStrategy {
+  return {
+    type: 'bearer',
+    getHeaders: async (): Promise<Record<string, string>> => (token ? { Authorization: `Bearer ${token}` } : {})
+  }
+}
+
+// btoa only accepts Latin-1, so encode the credentials as UTF-8 first
+function base64Utf8(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+}
+
+export function basicAuth(username: string, password: string): AuthStrategy {
+  const header = `Basic ${base64Utf8(`${username}:${password}`)}`
+  return {
+    type: 'basic',
+    getHeaders: async () => ({ Authorization: header })
+  }
+}
+
+// ===== OIDC DEVICE-CODE LOGIN =====
+
+export const DEFAULT_OIDC_SCOPE = 'openid profile email offline_access'
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code'
+// Refresh this long before the access token actually expires
+const TOKEN_EXPIRY_SKEW_MS = 60_000
+
+export interface OidcTokens {
+  accessToken: string
+  refreshToken?: string
+  idToken?: string
+  // Epoch milliseconds
+  expiresAt?: number
+}
+
+// What the user needs to finish signing in on another device or browser tab
+export interface DeviceAuthorization {
+  deviceCode: string
+  userCode: string
+  verificationUri: string
+  verificationUriComplete?: string
+  expiresIn: number
+  interval: number
+}
+
+interface OidcDiscovery {
+  token_endpoint: string
+  device_authorization_endpoint?: string
+}
+
+// Raw token endpoint response (RFC 6749 / RFC 8628)
+interface TokenResponse {
+  access_token?: string
+  refresh_token?: string
+  id_token?: string
+  expires_in?: number
+  error?: string
+  error_description?: string
+}
+
+const oidcSecretKey = (oidc: OidcAuthConfig) => `oidc/${oidc.issuerUrl.replace(/\/+$/, '')}/${oidc.clientId}`
+
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>()
+// Tokens shared by every connector using the same provider and client
+const tokenCache = new Map<string, OidcTokens>()
+// One refresh at a time per provider, however many requests hit a 401
+const pendingRefreshes = new Map<string, Promise<OidcTokens | null>>()
+
+// How long to wait for the identity provider
+const PROVIDER_TIMEOUT_MS = 30_000
+
+// http_request reply (see kagent.ts); any status is returned as is
+interface ProviderResponse {
+  status: number
+  body: string
+}
+
+// Identity providers seldom send CORS headers for their discovery and token
+// endpoints, so the desktop app reaches them through http_request, like the
+// connector's own requests
+async function providerRequest(url: string, init: { method?: string; headers: Record<string, string>; body?: string }): Promise<ProviderResponse> {
+  const method = init.method || 'GET'
+  try {
+    if (isTauri()) {
+      const { status, body } = await invokeCommand<ProviderResponse>('http_request', {
+        url,
+        method,
+        headers: init.headers,
+        body: init.body ?? null,
+        tls: null,
+        timeoutMs: PROVIDER_TIMEOUT_MS
+      })
+      return { status, body }
+    }
+    const response = await fetch(url, { method, headers: init.headers, body: init.body })
+    return { status: response.status, body: await response.text() }
+  } catch (error) {
+    // fetch throws a TypeError, http_request rejects with { kind, message }
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message || String(error)
+    throw new KagentNetworkError(`Could not reach the OIDC provider: ${message}`, error)
+  }
+}
+
+async function discover(issuerUrl: string): Promise<OidcDiscovery> {
+  const issuer = issuerUrl.replace(/\/+$/, '')
+  let discovery = discoveryCache.get(issuer)
+  if (!discovery) {
+    discovery = (async () => {
+      const response = await providerRequest(`${issuer}/.well-known/openid-configuration`, { headers: { Accept: 'application/json' } })
+      if (response.status < 200 || response.status >= 300) {
+        throw new KagentNetworkError(`OIDC discovery failed for ${issuer}: HTTP ${response.status}`)
+      }
+      try {
+        return JSON.parse(response.body) as OidcDiscovery
+      } catch {
+        throw new KagentNetworkError(`OIDC discovery for ${issuer} did not return JSON`)
+      }
+    })()
+    discoveryCache.set(issuer, discovery)
+    discovery.catch(() => discoveryCache.delete(issuer))
+  }
+  return discovery
+}
+
+// The parsed reply, or {} when the body is not JSON; the raw text is kept for errors
+async function postForm<T>(url: string, params: Record<string, string>): Promise<{ status: number; data: T; body: string }> {
+  const { status, body } = await providerRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams(params).toString()
+  })
+  let data = {} as T
+  try {
+    data = JSON.parse(body) as T
+  } catch {
+    // Proxies and gateways answer errors with HTML or plain text
+  }
+  return { status, data, body }
+}
+
+function toOidcTokens(response: TokenResponse, previous?: OidcTokens): OidcTokens {
+  return {
+    accessToken: response.access_token as string,
+    // Providers may omit the refresh token on refresh, meaning "keep the old one"
+    refreshToken: response.refresh_token || previous?.refreshToken,
+    idToken: response.id_token || previous?.idToken,
+    expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined
+  }
+}
+
+async function storeOidcTokens(oidc: OidcAuthConfig, tokens: OidcTokens): Promise<void> {
+  const key = oidcSecretKey(oidc)
+  tokenCache.set(key, tokens)
+  await setSecret(key, JSON.stringify(tokens))
+}
+
+export async function loadOidcTokens(oidc: OidcAuthConfig): Promise<OidcTokens | null> {
+  const key = oidcSecretKey(oidc)
+  const cached = tokenCache.get(key)
+  if (cached) return cached
+  try {
+    const stored = await getSecret(key)
+    if (!stored) return null
+    const tokens = JSON.parse(stored) as OidcTokens
+    tokenCache.set(key, tokens)
+    return tokens
+  } catch (error) {
+    console.warn('Failed to load saved OIDC tokens:', error)
+    return null
+  }
+}
+
+export async function signOutOidc(oidc: OidcAuthConfig): Promise<void> {
+  const key = oidcSecretKey(oidc)
+  tokenCache.delete(key)
+  await deleteSecret(key)
+}
+
+// Begin the device-code flow; show the returned code to the user
+export async function startDeviceLogin(oidc: OidcAuthConfig): Promise<DeviceAuthorization> {
+  const discovery = await discover(oidc.issuerUrl)
+  if (!discovery.device_authorization_endpoint) {
+    throw new KagentAuthError(400, `${oidc.issuerUrl} does not support the device authorization flow`)
+  }
+
+  const { status, data } = await postForm<{
+    device_code: string
+    user_code: string
+    verification_uri?: string
+    verification_url?: string
+    verification_uri_complete?: string
+    expires_in: number
+    interval?: number
+    error_description?: string
+  }>(discovery.device_authorization_endpoint, {
+    client_id: oidc.clientId,
+    scope: oidc.scope || DEFAULT_OIDC_SCOPE
+  })
+  if (status >= 400 || !data.device_code) {
+    throw new KagentAuthError(status, `Device login was refused: ${data.error_description || `HTTP ${status}`}`)
+  }
+
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    // Some providers (Google) still use the draft "verification_url" name
+    verificationUri: data.verification_uri || data.verification_url || '',
+    verificationUriComplete: data.verification_uri_complete,
+    expiresIn: data.expires_in,
+    interval: data.interval || 5
+  }
+}
+
+// Poll the token endpoint until the user approves, denies or the code expires
+export async function completeDeviceLogin(
+  oidc: OidcAuthConfig,
+  authorization: DeviceAuthorization,
+  signal?: AbortSignal
+): Promise<OidcTokens> {
+  const discovery = await discover(oidc.issuerUrl)
+  const deadline = Date.now() + authorization.expiresIn * 1000
+  let intervalMs = authorization.interval * 1000
+
+  while (Date.now() < deadline) {
+    await sleep(intervalMs, signal)
+    const { data } = await postForm<TokenResponse>(discovery.token_endpoint, {
+      grant_type: DEVICE_CODE_GRANT,
+      device_code: authorization.deviceCode,
+      client_id: oidc.clientId
+    })
+
+    if (data.access_token) {
+      const tokens = toOidcTokens(data)
+      await storeOidcTokens(oidc, tokens)
+      return tokens
+    }
+    if (data.error === 'authorization_pending') continue
+    if (data.error === 'slow_down') {
+      intervalMs += 5000
+      continue
+    }
+    if (data.error === 'access_denied') {
+      throw new KagentAuthError(403, 'Sign-in was denied')
+    }
+    throw new KagentAuthError(401, `Sign-in failed: ${data.error_description || data.error || 'unknown error'}`)
+  }
+
+  throw new KagentAuthError(401, 'The sign-in code expired before it was approved')
+}
+
+async function refreshOidcTokens(oidc: OidcAuthConfig, tokens: OidcTokens): Promise<OidcTokens | null> {
+  if (!tokens.refreshToken) return null
+  const discovery = await discover(oidc.issuerUrl)
+  const { status, data, body } = await postForm<TokenResponse>(discovery.token_endpoint, {
+    grant_type: 'refresh_token',
+    refresh_token: tokens.refreshToken,
+    client_id: oidc.clientId
+  })
+  if (!data.access_token) {
+    if ((status === 400 || status === 401) && data.error === 'invalid_grant') {
+      // The refresh token was revoked or expired; a new login is needed
+      await signOutOidc(oidc)
+      return null
+    }
+    // Anything else (an outage, a proxy error page) keeps the tokens so a
+    // later refresh can try again
+    throw errorFromStatus(status, body)
+  }
+  const refreshed = toOidcTokens(data, tokens)
+  await storeOidcTokens(oidc, refreshed)
+  return refreshed
+}
+
+function refreshOnce(oidc: OidcAuthConfig, tokens: OidcTokens): Promise<OidcTokens | null> {
+  const key = oidcSecretKey(oidc)
+  let pending = pendingRefreshes.get(key)
+  if (!pending) {
+    pending = refreshOidcTokens(oidc, tokens).finally(() => pendingRefreshes.delete(key))
+    pendingRefreshes.set(key, pending)
+  }
+  return pending
+}
+
+// Decode the claims of a JWT without verifying it (display purposes only)
+function decodeJwtClaims(jwt: string): Record<string, unknown> | null {
+  try {
+    const payload = jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0))
+    return JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    return null
+  }
+}
+
+// The signed-in user's email or username, to prefill the connector identity
+export function identityFromTokens(tokens: OidcTokens): string | undefined {
+  const claims = decodeJwtClaims(tokens.idToken || tokens.accessToken)
+  const identity = claims?.email || claims?.preferred_username || claims?.sub
+  return typeof identity === 'string' ? identity : undefined
+}
+
+function oidcAuth(oidc: OidcAuthConfig): AuthStrategy {
+  return {
+    type: 'oidc',
+    async getHeaders() {
+      let tokens = await loadOidcTokens(oidc)
+      if (tokens?.expiresAt && tokens.expiresAt - TOKEN_EXPIRY_SKEW_MS < Date.now()) {
+        tokens = await refreshOnce(oidc, tokens)
+      }
+      if (!tokens) {
+        throw new KagentAuthError(401, `Not signed in to ${oidc.issuerUrl}. Sign in from the connector settings.`)
+      }
+      return { Authorization: `Bearer ${tokens.accessToken}` }
+    },
+    async refresh() {
+      const tokens = await loadOidcTokens(oidc)
+      return tokens ? (await refreshOnce(oidc, tokens)) !== null : false
+    }
+  }
+}
+
+// ===== KUBECONFIG CONTEXT =====
+
+export interface KubeconfigContexts {
+  currentContext?: string
+  contexts: string[]
+}
+
+// Credentials resolved by the kubeconfig_credentials command
+interface KubeconfigCredentials {
+  context: string
+  user: string
+  token?: string
+  username?: string
+  password?: string
+  expiresAt?: string
+}
+
+// How long to reuse a kubeconfig credential that carries no expiry
+const KUBECONFIG_CACHE_MS = 5 * 60_000
+
+const kubeconfigCache = new Map<string, { headers: Record<string, string>; expiresAt: number }>()
+
+function requireDesktop(): void {
+  if (!isTauri()) {
+    throw new KagentAuthError(401, 'Kubeconfig authentication is only available in the desktop app')
+  }
+}
+
+export async function listKubeconfigContexts(path?: string): Promise<KubeconfigContexts> {
+  requireDesktop()
+  return invokeCommand<KubeconfigContexts>('kubeconfig_contexts', { path: path || null })
+}
+
+function kubeconfigAuth(kubeconfig: KubeconfigAuthConfig): AuthStrategy {
+  const cacheKey = `${kubeconfig.path || ''}|${kubeconfig.context || ''}`
+  return {
+    type: 'kubeconfig',
+    async getHeaders() {
+      const cached = kubeconfigCache.get(cacheKey)
+      if (cached && cached.expiresAt > Date.now()) return cached.headers
+
+      requireDesktop()
+      let credentials: KubeconfigCredentials
+      try {
+        credentials = await invokeCommand<KubeconfigCredentials>('kubeconfig_credentials', {
+          path: kubeconfig.path || null,
+          context: kubeconfig.context || null
+        })
+      } catch (error) {
+        throw new KagentAuthError(401, `Kubeconfig credentials unavailable: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      const headers = credentials.token
+        ? bearerAuth(credentials.token).getHeaders()
+        : basicAuth(credentials.username || '', credentials.password || '').getHeaders()
+      const expiresAt = credentials.expiresAt
+        ? Date.parse(credentials.expiresAt) - TOKEN_EXPIRY_SKEW_MS
+        : Date.now() + KUBECONFIG_CACHE_MS
+      const entry = { headers: await headers, expiresAt }
+      kubeconfigCache.set(cacheKey, entry)
+      return entry.headers
+    },
+    async refresh() {
+      // Exec plugins mint a new token on the next call
+      kubeconfigCache.delete(cacheKey)
+      return true
+    }
+  }
+}
@@ -0,0 +1,162 @@
+// Durable storage for KAgent connector definitions.
+// Definitions live in localStorage; tokens, usernames and passwords are
+// stripped first and kept in the secret store (see ./secrets).
+import { defaultConfig, validateConfig, type KAgentConfig } from '../config'
+import { deleteSecret, getSecret, putSecret } from './secrets'
+
+export interface StoredConnector {
+  id: string
+  name: string
+  config: KAgentConfig
+}
+
+// Shape of an exported connectors file
+export interface ConnectorExport {
+  version: 1
+  exportedAt: string
+  connectors: Array<{ name: string; config: KAgentConfig }>
+}
+
+const CONNECTORS_KEY = 'sre-ide-connectors'
+const ACTIVE_CONNECTOR_KEY = 'sre-ide-active-connector'
+
+// Credential fields kept in the secret store, one entry per connector and field
+const SECRET_FIELDS = ['token', 'username', 'password', 'khookToken'] as const
+type SecretField = typeof SECRET_FIELDS[number]
+
+const secretKey = (connectorId: string, field: SecretField) => `connector/${connectorId}/${field}`
+
+// Last value written per secret key, so saves only touch what changed
+const savedSecrets = new Map<string, string | undefined>()
+
+function readSecretField(config: KAgentConfig, field: SecretField): string | undefined {
+  return field === 'khookToken' ? config.khook?.token : config[field]
+}
+
+function withSecretField(config: KAgentConfig, field: SecretField, value: string | undefined): KAgentConfig {
+  if (field === 'khookToken') {
+    return config.khook ? { ...config, khook: { ...config.khook, token: value } } : config
+  }
+  return { ...config, [field]: value }
+}
+
+// Remove credentials from a config so it is safe to persist or share
+export function stripSecrets(config: KAgentConfig): KAgentConfig {
+  const stripped: KAgentConfig = { ...config }
+  delete stripped.token
+  delete stripped.username
+  delete stripped.password
+  if (stripped.khook) {
+    stripped.khook = { ...stripped.khook }
+    delete stripped.khook.token
+  }
+  return stripped
+}
+
+function readStoredDefinitions(): StoredConnector[] {
+  try {
+    return JSON.parse(localStorage.getItem(CONNECTORS_KEY) || '[]')
+  } catch {
+    console.warn('Failed to parse saved connectors, starting fresh')
+    return []
+  }
+}
+
+export async function loadConnectors(): Promise<StoredConnector[]> {
+  return Promise.all(readStoredDefinitions().map(async connector => {
+    let config = connector.config
+    for (const field of SECRET_FIELDS) {
+      const key = secretKey(connector.id, field)
+      try {
+        const value = (await getSecret(key)) ?? undefined
+        savedSecrets.set(key, value)
+        config = withSecretField(config, field, value)
+      } catch (error) {
+        console.warn(`Failed to load ${field} for connector ${connector.name}:`, error)
+      }
+    }
+    return { ...connector, config }
+  }))
+}
+
+export async function saveConnectors(connectors: StoredConnector[]): Promise<void> {
+  const previousIds = readStoredDefinitions().map(connector => connector.id)
+  const definitions = connectors.map(connector => ({ ...connector, config: stripSecrets(connector.config) }))
+  localStorage.setItem(CONNECTORS_KEY, JSON.stringify(definitions))
+
+  const writes: Promise<void>[] = []
+  for (const connector of connectors) {
+    for (const field of SECRET_FIELDS) {
+      const key = secretKey(connector.id, field)
+      const value = readSecretField(connector.config, field) || undefined
+      if (savedSecrets.get(key) !== value) {
+        savedSecrets.set(key, value)
+        writes.push(putSecret(key, value))
+      }
+    }
+  }
+
+  // Drop the credentials of removed connectors
+  for (const id of previousIds.filter(id => !connectors.some(c => c.id === id))) {
+    for (const field of SECRET_FIELDS) {
+      const key = secretKey(id, field)
+      savedSecrets.delete(key)
+      writes.push(deleteSecret(key))
+    }
+  }
+
+  await Promise.all(writes)
+}
+
+export function loadActiveConnectorId(): string | null {
+  return localStorage.getItem(ACTIVE_CONNECTOR_KEY)
+}
+
+export function saveActiveConnectorId(connectorId: string | null): void {
+  if (connectorId) {
+    localStorage.setItem(ACTIVE_CONNECTOR_KEY, connectorId)
+  } else {
+    localStorage.removeItem(ACTIVE_CONNECTOR_KEY)
+  }
+}
+
+// Serialize connectors for sharing. Credentials are never included.
+export function exportConnectors(connectors: StoredConnector[]): string {
+  const file: ConnectorExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    connectors: connectors.map(connector => ({
+      name: connector.name,
+      config: stripSecrets(connector.config)
+    }))
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// Parse an exported connectors file, throwing with a readable message if invalid
+export function parseConnectorImport(json: string): Array<{ name: string; config: KAgentConfig }> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  const connectors = (parsed as Partial<ConnectorExport>)?.connectors
+  if (!Array.isArray(connectors)) {
+    throw new Error('File does not contain a "connectors" list')
+  }
+
+  return connectors.map((connector, index) => {
+    if (!connector || typeof connector.name !== 'string' || !connector.config) {
+      throw new Error(`Connector #${index + 1} is missing a name or config`)
+    }
+    // Fill in anything an older export did not carry
+    const config: KAgentConfig = { ...defaultConfig, ...connector.config }
+    const errors = validateConfig(config)
+    if (errors.length > 0) {
+      throw new Error(`Connector "${connector.name}": ${errors.join(', ')}`)
+    }
+    return { name: connector.name, config: stripSecrets(config) }
+  })
+}
@@ -0,0 +1,147 @@
+// Typed errors raised by the KAgent API client
+
+export type KagentErrorKind =
+  | 'network'
+  | 'auth'
+  | 'agent_not_found'
+  | 'stream_truncated'
+  | 'timeout'
+  | 'http'
+
+// Serializable summary of an error, safe to keep in React state
+export interface KagentErrorInfo {
+  kind: KagentErrorKind
+  message: string
+  retryable: boolean
+  status?: number
+}
+
+export class KagentError extends Error {
+  readonly kind: KagentErrorKind
+  // Whether repeating the same call may succeed
+  readonly retryable: boolean
+
+  constructor(kind: KagentErrorKind, message: string, retryable: boolean, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause })
+    this.name = 'KagentError'
+    this.kind = kind
+    this.retryable = retryable
+  }
+
+  toInfo(): KagentErrorInfo {
+    return { kind: this.kind, message: this.message, retryable: this.retryable }
+  }
+}
+
+// The server could not be reached at all
+export class KagentNetworkError extends KagentError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, true, cause)
+    this.name = 'KagentNetworkError'
+  }
+}
+
+// 401/403 - credentials are missing, expired or lack permission
+export class KagentAuthError extends KagentError {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super('auth', message, false)
+    this.name = 'KagentAuthError'
+    this.status = status
+  }
+
+  toInfo(): KagentErrorInfo {
+    return { ...super.toInfo(), status: this.status }
+  }
+}
+
+// The A2A endpoint for the requested agent does not exist
+export class KagentAgentNotFoundError extends KagentError {
+  readonly agentRef: string
+
+  constructor(agentRef: string) {
+    super('agent_not_found', `Agent ${agentRef} was not found on this KAgent instance`, false)
+    this.name = 'KagentAgentNotFoundError'
+    this.agentRef = agentRef
+  }
+}
+
+// The reply stream closed before the agent finished its task
+export class KagentStreamTruncatedError extends KagentError {
+  constructor(message: string = 'The agent stream ended before the reply was complete') {
+    super('stream_truncated', message, true)
+    this.name = 'KagentStreamTruncatedError'
+  }
+}
+
+// No response (or no stream activity) within the configured timeout
+export class KagentTimeoutError extends KagentError {
+  readonly timeoutMs: number
+
+  constructor(timeoutMs: number, what: string = 'Request') {
+    super('timeout', `${what} timed out after ${Math.round(timeoutMs / 1000)}s`, true)
+    this.name = 'KagentTimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+// Longest server message kept in an error's text; the full body stays on .body
+const MAX_SERVER_MESSAGE_LENGTH = 500
+
+// The human-readable part of an error body: the "error", "message" or "detail"
+// field of a JSON body, otherwise the trimmed text
+export function serverMessage(body: string): string {
+  let message = body.trim()
+  try {
+    const parsed = JSON.parse(message)
+    const field = parsed?.error?.message ?? parsed?.error ?? parsed?.message ?? parsed?.detail
+    if (typeof field === 'string' && field) {
+      message = field
+    }
+  } catch {
+    // Not JSON, use the text as is
+  }
+  return message.length > MAX_SERVER_MESSAGE_LENGTH ? `${message.slice(0, MAX_SERVER_MESSAGE_LENGTH)}…` : message
+}
+
+// Any other non-2xx response; keeps the server's message intact
+export class KagentHttpError extends KagentError {
+  readonly status: number
+  readonly body: string
+
+  constructor(status: number, body: string, message?: string) {
+    const detail = serverMessage(body)
+    super('http', message || `HTTP ${status}${detail ? `: ${detail}` : ''}`, status === 429 || status >= 500)
+    this.name = 'KagentHttpError'
+    this.status = status
+    this.body = body
+  }
+
+  toInfo(): KagentErrorInfo {
+    return { ...super.toInfo(), status: this.status }
+  }
+}
+
+// Pick the error class that matches an HTTP status
+export function errorFromStatus(status: number, body: string): KagentError {
+  if (status === 401 || status === 403) {
+    const detail = serverMessage(body)
+    return new KagentAuthError(status, detail
+      ? `Authentication failed (${status}): ${detail}`
+      : `Authentication failed (${status})`)
+  }
+  return new KagentHttpError(status, body)
+}
+
+// Normalize anything thrown by the client into a KagentError
+export function toKagentError(error: unknown): KagentError {
+  if (error instanceof KagentError) return error
+  const message = error instanceof Error ? error.message : String(error)
+  return new KagentNetworkError(message, error)
+}
+
+// Summary used by the UI to render a failure state
+export function describeError(error: unknown): KagentErrorInfo {
+  return toKagentError(error).toInfo()
+}
@@ -0,0 +1,121 @@
+// Registry of the Kubernetes event types khook can watch.
+// The list comes from khook when it publishes one (KagentAPI.getEventTypes);
+// the built-in definitions below cover older khook builds, and any type seen
+// on a hook or alert is accepted and labelled from its id.
+
+// Event types khook ships with; other strings are valid too
+export type BuiltinEventType =
+  | 'pod-restart'
+  | 'pod-pending'
+  | 'oom-kill'
+  | 'probe-failed'
+  | 'node-not-ready'
+  | 'image-pull-backoff'
+  | 'pvc-pending'
+  | 'job-failed'
+
+// Keeps editor completion for the built-in types while accepting any string
+export type EventType = BuiltinEventType | (string & {})
+
+// Picks the icon shown next to an event type (see components/EventTypeIcon)
+export type EventTypeIconName =
+  | 'restart'
+  | 'pending'
+  | 'memory'
+  | 'probe'
+  | 'node'
+  | 'image'
+  | 'storage'
+  | 'job'
+  | 'generic'
+
+export type EventTypeTone = 'error' | 'warning' | 'info' | 'muted'
+
+export interface EventTypeDefinition {
+  id: EventType
+  label: string
+  description?: string
+  icon: EventTypeIconName
+  tone: EventTypeTone
+}
+
+export const BUILTIN_EVENT_TYPES: EventTypeDefinition[] = [
+  { id: 'pod-restart', label: 'Pod Restart', description: 'A container restarted, e.g. CrashLoopBackOff or a non-zero exit', icon: 'restart', tone: 'warning' },
+  { id: 'pod-pending', label: 'Pod Pending', description: 'A pod is stuck in Pending and cannot be scheduled', icon: 'pending', tone: 'info' },
+  { id: 'oom-kill', label: 'OOM Kill', description: 'A container was killed for exceeding its memory limit', icon: 'memory', tone: 'error' },
+  { id: 'probe-failed', label: 'Probe Failed', description: 'A liveness or readiness probe is failing', icon: 'probe', tone: 'warning' },
+  { id: 'node-not-ready', label: 'Node Not Ready', description: 'A node reports NotReady', icon: 'node', tone: 'error' },
+  { id: 'image-pull-backoff', label: 'Image Pull Backoff', description: 'An image cannot be pulled (ErrImagePull, ImagePullBackOff)', icon: 'image', tone: 'warning' },
+  { id: 'pvc-pending', label: 'PVC Pending', description: 'A PersistentVolumeClaim is not bound', icon: 'storage', tone: 'info' },
+  { id: 'job-failed', label: 'Job Failed', description: 'A Job exceeded its backoff limit or deadline', icon: 'job', tone: 'error' }
+]
+
+let registry: EventTypeDefinition[] = BUILTIN_EVENT_TYPES
+
+// "image-pull-backoff" -> "Image Pull Backoff"
+export function humanizeEventType(id: string): string {
+  return id
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+// Definition for any event type id, known or not
+export function getEventType(id: string): EventTypeDefinition {
+  return registry.find(type => type.id === id)
+    ?? { id, label: humanizeEventType(id), icon: 'generic', tone: 'muted' }
+}
+
+export function listEventTypes(): EventTypeDefinition[] {
+  return registry
+}
+
+// Known types plus any other ids in use (on hooks, alerts or summaries), sorted by label
+export function withEventTypes(ids: Iterable<string>): EventTypeDefinition[] {
+  const merged = new Map(registry.map(type => [type.id as string, type]))
+  for (const id of ids) {
+    if (id && !merged.has(id)) merged.set(id, getEventType(id))
+  }
+  return Array.from(merged.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
+
+// Add or update definitions. khook's labels and descriptions win over the
+// built-in ones; icons are kept when khook does not send one.
+export function registerEventTypes(types: Array<Partial<EventTypeDefinition> & { id: string }>): EventTypeDefinition[] {
+  const merged = new Map(registry.map(type => [type.id as string, type]))
+  for (const type of types) {
+    const existing = merged.get(type.id) ?? getEventType(type.id)
+    merged.set(type.id, {
+      id: type.id,
+      label: type.label || existing.label,
+      description: type.description || existing.description,
+      icon: type.icon || existing.icon,
+      tone: type.tone || existing.tone
+    })
+  }
+  registry = Array.from(merged.values())
+  return registry
+}
+
+// Accepts the shapes khook versions have used: a bare list, { data: [...] } or
+// { eventTypes: [...] }, with items as strings or objects
+export function normalizeEventTypes(raw: unknown): Array<Partial<EventTypeDefinition> & { id: string }> {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw as { data?: unknown; eventTypes?: unknown } | null)?.data ?? (raw as { eventTypes?: unknown } | null)?.eventTypes
+  if (!Array.isArray(list)) return []
+
+  return list.flatMap(item => {
+    if (typeof item === 'string') return [{ id: item }]
+    if (!item || typeof item !== 'object') return []
+    const entry = item as Record<string, unknown>
+    const id = entry.id ?? entry.eventType ?? entry.name ?? entry.type
+    if (typeof id !== 'string' || !id) return []
+    return [{
+      id,
+      label: typeof (entry.label ?? entry.displayName) === 'string' ? (entry.label ?? entry.displayName) as string : undefined,
+      description: typeof entry.description === 'string' ? entry.description : undefined
+    }]
+  })
+}
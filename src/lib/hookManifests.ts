@@ -0,0 +1,178 @@
+// YAML form of khook Hook resources, as they would be kept next to other CRDs
+import { LineCounter, isNode, parseAllDocuments, parseDocument, stringify } from 'yaml'
+import type { Hook } from './kagent'
+import { HOOK_API_VERSION, HOOK_KIND, hasErrors, validateHook, type HookIssue, type HookValidationOptions } from './hookValidation'
+import { diffLines, hasChanges, type DiffLine } from './textDiff'
+
+// Only the fields a user owns; status and server-managed metadata
+// (uid, creationTimestamp, ...) are dropped before editing or diffing
+export function toManifest(hook: Hook): Hook {
+  return {
+    apiVersion: hook.apiVersion || HOOK_API_VERSION,
+    kind: hook.kind || HOOK_KIND,
+    metadata: {
+      name: hook.metadata.name,
+      namespace: hook.metadata.namespace
+    },
+    spec: {
+      eventConfigurations: (hook.spec?.eventConfigurations || []).map(configuration => ({
+        eventType: configuration.eventType,
+        agentId: configuration.agentId,
+        prompt: configuration.prompt
+      }))
+    }
+  }
+}
+
+export function hookToYaml(hook: Hook): string {
+  // lineWidth 0 keeps long prompts on one line instead of folding them
+  return stringify(toManifest(hook), { lineWidth: 0 })
+}
+
+export interface ParsedHook {
+  // Set whenever the YAML has the shape of a Hook, even if it has issues
+  hook: Hook | null
+  issues: HookIssue[]
+}
+
+function isHookShaped(resource: unknown): resource is Hook {
+  const candidate = resource as Partial<Hook> | null
+  return typeof candidate?.metadata === 'object' && candidate.metadata !== null &&
+    Array.isArray(candidate.spec?.eventConfigurations) &&
+    candidate.spec.eventConfigurations.every(configuration => typeof configuration === 'object' && configuration !== null)
+}
+
+// Parse and validate a single Hook document, attaching source lines to issues
+export function parseHookYaml(text: string, options: HookValidationOptions = {}): ParsedHook {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(text, { lineCounter, prettyErrors: false })
+
+  if (document.errors.length > 0) {
+    return {
+      hook: null,
+      issues: document.errors.map(error => ({
+        path: [],
+        message: error.message.split('\n')[0],
+        severity: 'error',
+        line: lineCounter.linePos(error.pos[0]).line
+      }))
+    }
+  }
+
+  const resource = document.toJS()
+  const issues = validateHook(resource, options).map(issue => {
+    // Point at the closest node that exists
+    for (let depth = issue.path.length; depth > 0; depth--) {
+      const node = document.getIn(issue.path.slice(0, depth), true)
+      if (isNode(node) && node.range) {
+        return { ...issue, line: lineCounter.linePos(node.range[0]).line }
+      }
+    }
+    return issue
+  })
+
+  return { hook: isHookShaped(resource) ? toManifest(resource) : null, issues }
+}
+
+export const hookKey = (hook: Hook) => `${hook.metadata.namespace}/${hook.metadata.name}`
+
+// Multi-document YAML, one Hook per document, as `kubectl apply -f` accepts it
+export function hooksToYaml(hooks: Hook[]): string {
+  return hooks.map(hook => `---\n${hookToYaml(hook)}`).join('')
+}
+
+export interface ImportedHook extends ParsedHook {
+  // Where the hook came from, e.g. "document 2" or "document 1, item 3"
+  source: string
+}
+
+// Every Hook in a YAML or JSON file. Documents may be Hooks, HookList/List
+// wrappers with items, or (from JSON) arrays of Hooks.
+export function parseHookManifests(text: string, options: HookValidationOptions = {}): ImportedHook[] {
+  const lineCounter = new LineCounter()
+  const documents = parseAllDocuments(text, { lineCounter, prettyErrors: false })
+  if (!Array.isArray(documents)) return []
+
+  const lineOf = (document: (typeof documents)[number], path: Array<string | number>) => {
+    for (let depth = path.length; depth > 0; depth--) {
+      const node = document.getIn(path.slice(0, depth), true)
+      if (isNode(node) && node.range) return lineCounter.linePos(node.range[0]).line
+    }
+    return undefined
+  }
+
+  const imported: ImportedHook[] = []
+  documents.forEach((document, documentIndex) => {
+    const source = `document ${documentIndex + 1}`
+    if (document.errors.length > 0) {
+      imported.push({
+        source,
+        hook: null,
+        issues: document.errors.map(error => ({
+          path: [],
+          message: error.message.split('\n')[0],
+          severity: 'error',
+          line: lineCounter.linePos(error.pos[0]).line
+        }))
+      })
+      return
+    }
+
+    const resource = document.toJS()
+    if (resource === null || resource === undefined) return
+
+    const record = resource as { kind?: unknown; items?: unknown }
+    const listItems = Array.isArray(resource)
+      ? { items: resource as unknown[], prefix: [] as Array<string | number> }
+      : typeof record.kind === 'string' && record.kind.endsWith('List') && Array.isArray(record.items)
+        ? { items: record.items as unknown[], prefix: ['items'] }
+        : null
+
+    const entries = listItems
+      ? listItems.items.map((item, index) => ({ item, prefix: [...listItems.prefix, index], source: `${source}, item ${index + 1}` }))
+      : [{ item: resource as unknown, prefix: [] as Array<string | number>, source }]
+
+    for (const { item, prefix, source: itemSource } of entries) {
+      const issues = validateHook(item, options).map(issue => ({ ...issue, line: lineOf(document, [...prefix, ...issue.path]) }))
+      imported.push({ source: itemSource, hook: isHookShaped(item) ? toManifest(item) : null, issues })
+    }
+  })
+  return imported
+}
+
+export type HookImportAction = 'create' | 'update' | 'unchanged' | 'invalid'
+
+export interface HookImportPlan extends ImportedHook {
+  action: HookImportAction
+  // Against the server version; empty for invalid entries
+  diff: DiffLine[]
+}
+
+// What applying the imported hooks would do to the hooks on the server
+export function planHookImport(imported: ImportedHook[], existing: Hook[]): HookImportPlan[] {
+  const current = new Map(existing.map(hook => [hookKey(hook), hook]))
+  const seen = new Map<string, string>()
+
+  return imported.map(entry => {
+    if (!entry.hook || hasErrors(entry.issues)) {
+      return { ...entry, action: 'invalid', diff: [] }
+    }
+
+    const key = hookKey(entry.hook)
+    const firstSource = seen.get(key)
+    if (firstSource) {
+      return {
+        ...entry,
+        action: 'invalid',
+        diff: [],
+        issues: [...entry.issues, { path: ['metadata'], message: `${key} is also defined in ${firstSource}`, severity: 'error' }]
+      }
+    }
+    seen.set(key, entry.source)
+
+    const server = current.get(key)
+    const diff = diffLines(server ? hookToYaml(server) : '', hookToYaml(entry.hook))
+    const action: HookImportAction = !server ? 'create' : hasChanges(diff) ? 'update' : 'unchanged'
+    return { ...entry, action, diff }
+  })
+}
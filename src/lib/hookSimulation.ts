@@ -0,0 +1,65 @@
+// Test-fires a hook's prompt against a made-up event, the way khook would
+// when a real one arrives, without waiting for a pod to crash
+import type { EventConfiguration, KagentAPI, KagentAgent } from './kagent'
+import { getEventType } from './eventTypes'
+import { agentIdAliases } from './hookValidation'
+import { HOOK_PROMPT_VARIABLES, hookPromptValues, renderTemplate, sampleActiveEvent, type TemplateValues } from './promptTemplate'
+
+// Typical reason/message pairs so the agent gets something realistic to work with
+const SAMPLE_EVENTS: Record<string, { reason: string; message: string }> = {
+  'pod-restart': { reason: 'BackOff', message: 'Back-off restarting failed container app in pod' },
+  'pod-pending': { reason: 'FailedScheduling', message: '0/3 nodes are available: 3 Insufficient cpu.' },
+  'oom-kill': { reason: 'OOMKilled', message: 'Container app exceeded its memory limit and was killed' },
+  'probe-failed': { reason: 'Unhealthy', message: 'Liveness probe failed: HTTP probe failed with statuscode: 503' },
+  'node-not-ready': { reason: 'NodeNotReady', message: 'Node is not ready: kubelet stopped posting node status' },
+  'image-pull-backoff': { reason: 'Failed', message: 'Failed to pull image "registry.example.com/app:missing": not found' },
+  'pvc-pending': { reason: 'ProvisioningFailed', message: 'storageclass.storage.k8s.io "fast" not found' },
+  'job-failed': { reason: 'BackoffLimitExceeded', message: 'Job has reached the specified backoff limit' }
+}
+
+// Template values for a made-up event on the given resource
+export function syntheticEvent(eventType: string, resourceName: string, namespace: string, hookName: string): TemplateValues {
+  const sample = SAMPLE_EVENTS[eventType] ?? { reason: 'Simulated', message: `Simulated ${getEventType(eventType).label} event` }
+  return hookPromptValues(
+    { ...sampleActiveEvent(eventType), resourceName },
+    { hookName, namespace, eventMessage: sample.message, reason: sample.reason }
+  )
+}
+
+// The namespace/name agent ref for a hook's agentId, so agents outside the
+// kagent namespace get a session with the right agent
+export function resolveHookAgent(agentId: string, agents: KagentAgent[]): string {
+  const agent = agents.find(candidate => agentIdAliases(candidate).includes(agentId))
+  if (agent) return `${agent.namespace}/${agent.name}`
+  // khook's A2A form of an agent the connector does not list
+  const [namespace, name] = agentId.split('__NS__')
+  if (name) return `${namespace}/${name.replace(/_/g, '-')}`
+  return agentId
+}
+
+export interface HookSimulationResult {
+  prompt: string
+  response: string
+  sessionId: string
+  durationMs: number
+}
+
+// Runs the rendered prompt in a session of its own and deletes it afterwards
+export async function simulateHook(
+  api: KagentAPI,
+  configuration: EventConfiguration,
+  event: TemplateValues,
+  agents: KagentAgent[] = []
+): Promise<HookSimulationResult> {
+  const prompt = renderTemplate(configuration.prompt, event, HOOK_PROMPT_VARIABLES)
+  const sessionName = `hook-simulation-${Date.now()}`
+  const started = Date.now()
+  const session = await api.createSessionWithName(resolveHookAgent(configuration.agentId, agents), sessionName)
+
+  try {
+    const reply = await api.sendMessage(session.id, prompt)
+    return { prompt, response: reply.message, sessionId: session.id, durationMs: Date.now() - started }
+  } finally {
+    await api.deleteSession(session.id).catch(() => undefined)
+  }
+}
@@ -0,0 +1,136 @@
+// Checks for khook Hook resources, run live by the hook editor before anything
+// reaches the server
+import type { KagentAgent } from './kagent'
+import { getEventType, listEventTypes } from './eventTypes'
+import { HOOK_PROMPT_VARIABLES, templatePlaceholders, variablePlaceholder } from './promptTemplate'
+
+export const HOOK_API_VERSION = 'kagent.dev/v1alpha2'
+export const HOOK_KIND = 'Hook'
+
+export interface HookIssue {
+  // Location in the resource, e.g. ['spec', 'eventConfigurations', 0, 'prompt']
+  path: Array<string | number>
+  message: string
+  severity: 'error' | 'warning'
+  // 1-based line in the YAML source, when known
+  line?: number
+}
+
+export interface HookValidationOptions {
+  // Agents on the active connector; the agent check is skipped when empty
+  agents?: KagentAgent[]
+}
+
+const DNS_SUBDOMAIN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/
+
+// The ways a hook may refer to an agent: "name", "namespace/name" or the
+// kagent session id form "namespace__NS__name_with_underscores"
+export function agentIdAliases(agent: KagentAgent): string[] {
+  return [
+    agent.name,
+    `${agent.namespace}/${agent.name}`,
+    `${agent.namespace}__NS__${agent.name.replace(/-/g, '_')}`,
+    agent.id
+  ].filter(Boolean)
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export function validateHook(resource: unknown, options: HookValidationOptions = {}): HookIssue[] {
+  const issues: HookIssue[] = []
+  const error = (path: HookIssue['path'], message: string) => issues.push({ path, message, severity: 'error' })
+  const warning = (path: HookIssue['path'], message: string) => issues.push({ path, message, severity: 'warning' })
+
+  if (!isObject(resource)) {
+    error([], 'The document must be a Hook object')
+    return issues
+  }
+
+  if (resource.apiVersion !== HOOK_API_VERSION) {
+    warning(['apiVersion'], `apiVersion should be ${HOOK_API_VERSION}`)
+  }
+  if (resource.kind !== HOOK_KIND) {
+    error(['kind'], `kind must be ${HOOK_KIND}`)
+  }
+
+  const metadata = resource.metadata
+  if (!isObject(metadata)) {
+    error(['metadata'], 'metadata is required')
+  } else {
+    const name = metadata.name
+    if (typeof name !== 'string' || !name) {
+      error(['metadata', 'name'], 'metadata.name is required')
+    } else if (name.length > 253 || !DNS_SUBDOMAIN.test(name)) {
+      error(['metadata', 'name'], 'metadata.name must be lowercase letters, digits, "-" or "." (RFC 1123)')
+    }
+    const namespace = metadata.namespace
+    if (typeof namespace !== 'string' || !namespace) {
+      error(['metadata', 'namespace'], 'metadata.namespace is required')
+    } else if (namespace.length > 63 || !DNS_LABEL.test(namespace)) {
+      error(['metadata', 'namespace'], 'metadata.namespace must be a valid DNS label')
+    }
+  }
+
+  const spec = resource.spec
+  const configurations = isObject(spec) ? spec.eventConfigurations : undefined
+  if (!Array.isArray(configurations) || configurations.length === 0) {
+    error(['spec', 'eventConfigurations'], 'spec.eventConfigurations needs at least one entry')
+    return issues
+  }
+
+  const knownAgents = new Set((options.agents || []).flatMap(agentIdAliases))
+  const knownEventTypes = new Set(listEventTypes().map(type => type.id as string))
+  const seenEventTypes = new Map<string, number>()
+
+  configurations.forEach((configuration, index) => {
+    const path = ['spec', 'eventConfigurations', index]
+    if (!isObject(configuration)) {
+      error(path, `Event configuration ${index + 1} must be an object`)
+      return
+    }
+
+    const eventType = configuration.eventType
+    if (typeof eventType !== 'string' || !eventType.trim()) {
+      error([...path, 'eventType'], `Event configuration ${index + 1} has no eventType`)
+    } else {
+      const first = seenEventTypes.get(eventType)
+      if (first !== undefined) {
+        error([...path, 'eventType'], `Duplicate eventType "${eventType}" (already used by event configuration ${first + 1})`)
+      } else {
+        seenEventTypes.set(eventType, index)
+      }
+      if (!knownEventTypes.has(eventType)) {
+        warning([...path, 'eventType'], `"${getEventType(eventType).label}" is not an event type khook has reported`)
+      }
+    }
+
+    const agentId = configuration.agentId
+    if (typeof agentId !== 'string' || !agentId.trim()) {
+      error([...path, 'agentId'], `Event configuration ${index + 1} has no agentId`)
+    } else if (knownAgents.size > 0 && !knownAgents.has(agentId)) {
+      error([...path, 'agentId'], `Unknown agent "${agentId}"`)
+    }
+
+    const prompt = configuration.prompt
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      error([...path, 'prompt'], `Event configuration ${index + 1} has an empty prompt`)
+    } else {
+      for (const placeholder of templatePlaceholders(prompt)) {
+        const variable = HOOK_PROMPT_VARIABLES.find(candidate => candidate.name === placeholder.name)
+        if (!variable) {
+          warning([...path, 'prompt'], `Unknown prompt variable ${placeholder.text}`)
+        } else if (!variable.khook) {
+          warning([...path, 'prompt'], `${placeholder.text} is filled in by SRE IDE previews and simulations only; khook leaves it as written`)
+        } else if (!placeholder.goTemplate) {
+          warning([...path, 'prompt'], `khook only fills in the Go-template form; write ${placeholder.text} as ${variablePlaceholder(variable)}`)
+        }
+      }
+    }
+  })
+
+  return issues
+}
+
+export const hasErrors = (issues: HookIssue[]) => issues.some(issue => issue.severity === 'error')
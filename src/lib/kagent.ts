@@ -1,4 +1,28 @@
 // KAgent API client for interacting with KAgent instances
+import {
+  KagentAgentNotFoundError,
+  KagentAuthError,
+  KagentError,
+  KagentHttpError,
+  KagentNetworkError,
+  KagentStreamTruncatedError,
+  KagentTimeoutError,
+  errorFromStatus,
+  serverMessage,
+} from './errors'
+import type { KagentErrorInfo } from './errors'
+import { backoffDelay, createTimeoutController, sleep, withRetry } from './retry'
+import { bearerAuth, createAuthStrategy, type AuthStrategy } from './auth'
+import { beginRequest, headersToRecord, type RequestRecorder } from './requestInspector'
+import {
+  listEventTypes,
+  normalizeEventTypes,
+  registerEventTypes,
+  type EventType,
+  type EventTypeDefinition
+} from './eventTypes'
+import { defaultKhookConfig, type AuthConfig, type KhookConfig, type TlsConfig } from '../config'
+import { invokeCommand, isTauri } from './tauri'
 
 // Agent information interface
 export interface KagentAgent {
@@ -28,6 +52,30 @@ export interface ChatMessage {
   content: string
   timestamp: string
   sessionId: string
+  isStreaming?: boolean
+  taskState?: string
+  artifacts?: ChatArtifact[]
+  toolCalls?: ToolCall[]
+  // Set when the reply failed; the UI offers a retry
+  error?: KagentErrorInfo
+}
+
+// Tool invocation made by an agent, paired with its result once it arrives
+export interface ToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+  result?: unknown
+  isError: boolean
+  startedAt?: string
+  completedAt?: string
+}
+
+// Text artifact produced by an agent while answering
+export interface ChatArtifact {
+  id: string
+  name?: string
+  text: string
 }
 
 // API response interface
@@ -168,7 +216,8 @@ export interface ModelConfig {
 
 // Hook CRD interfaces (from khook)
 export interface EventConfiguration {
-  eventType: 'pod-restart' | 'pod-pending' | 'oom-kill' | 'probe-failed'
+  // Known types are listed in ./eventTypes; khook may support more
+  eventType: EventType
   agentId: string
   prompt: string
 }
@@ -179,6 +228,8 @@ export interface ActiveEventStatus {
   firstSeen: string
   lastSeen: string
   status: 'firing' | 'resolved'
+  // Container restarts, from khook builds that report it
+  restartCount?: number
 }
 
 export interface HookStatus {
@@ -232,6 +283,8 @@ export interface Alert {
   sessionId?: string
   taskId?: string
   remediationStatus?: 'pending' | 'in_progress' | 'completed' | 'failed'
+  // Set on alerts brought back from local history after khook stopped returning them
+  historyOnly?: boolean
 }
 
 export interface AlertSeverityBreakdown {
@@ -241,12 +294,8 @@ export interface AlertSeverityBreakdown {
   low: number
 }
 
-export interface AlertEventTypeBreakdown {
-  'pod-restart': number
-  'pod-pending': number
-  'oom-kill': number
-  'probe-failed': number
-}
+// Alert count per event type id
+export type AlertEventTypeBreakdown = Record<string, number>
 
 export interface AlertSummary {
   total: number
@@ -262,7 +311,22 @@ export interface KagentConfig {
   protocol: string
   baseUrl: string
   port: number
+  auth?: AuthConfig
   token?: string
+  username?: string
+  password?: string
+  // Identity sessions are created under; defaults to DEFAULT_USER_ID
+  userId?: string
+  // Applied by the desktop app only
+  tls?: TlsConfig
+  timeout?: number
+  retries?: number
+  khook?: KhookConfig
+}
+
+// Handle for a live alert stream
+export interface AlertSubscription {
+  close: () => void
 }
 
 // API Response interfaces
@@ -300,21 +364,484 @@ export interface A2ARequest {
   id: string
 }
 
+export interface A2AResponsePart {
+  kind?: string
+  text?: string
+  data?: Record<string, unknown>
+  metadata?: TaskMetadata
+}
+
 export interface A2AResponseMessage {
   role: string
-  parts?: Array<{ text?: string }>
+  messageId?: string
+  parts?: A2AResponsePart[]
+  metadata?: TaskMetadata
 }
 
 export interface A2AResponseStatus {
+  state?: string
   message?: A2AResponseMessage
 }
 
+export interface A2AArtifact {
+  artifactId?: string
+  name?: string
+  parts?: A2AResponsePart[]
+}
+
 export interface A2AResult {
+  kind?: string
+  id?: string
+  taskId?: string
   status?: A2AResponseStatus
+  artifact?: A2AArtifact
+  append?: boolean
+  lastChunk?: boolean
+  final?: boolean
 }
 
 export interface A2AResponse {
   result?: A2AResult
+  // JSON-RPC error object, sent instead of a result
+  error?: { code: number; message: string }
+}
+
+// Incremental events emitted while an agent reply is streaming
+export type A2AStreamEvent =
+  | { kind: 'text'; text: string; messageId?: string; partial: boolean }
+  | { kind: 'status'; state: string; taskId?: string; final: boolean }
+  | { kind: 'artifact'; artifactId?: string; name?: string; text: string; append: boolean; lastChunk: boolean }
+  | { kind: 'tool_call'; id: string; name: string; args: Record<string, unknown> }
+  | { kind: 'tool_result'; id: string; name: string; result: unknown; isError: boolean }
+
+export type A2AToolEvent = Extract<A2AStreamEvent, { kind: 'tool_call' | 'tool_result' }>
+
+// Raw Server-Sent Events message
+interface SSEMessage {
+  event: string
+  data: string
+}
+
+// Parse a Server-Sent Events response body into discrete messages
+async function* readSSE(response: Response): AsyncGenerator<SSEMessage> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let finished = false
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) {
+        finished = true
+        break
+      }
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      // Process complete SSE events
+      let eventEndIndex
+      while ((eventEndIndex = buffer.indexOf('\n\n')) >= 0) {
+        const eventText = buffer.substring(0, eventEndIndex)
+        buffer = buffer.substring(eventEndIndex + 2)
+
+        if (!eventText.trim()) continue
+
+        let event = 'message'
+        const dataLines: string[] = []
+        for (const line of eventText.split('\n')) {
+          if (line.startsWith('event:')) {
+            event = line.substring(6).trim()
+          } else if (line.startsWith('data:')) {
+            dataLines.push(line.substring(5).replace(/^ /, ''))
+          }
+        }
+
+        if (dataLines.length > 0) {
+          yield { event, data: dataLines.join('\n') }
+        }
+      }
+    }
+  } finally {
+    // Stop the underlying stream if the consumer bailed out early
+    if (!finished) {
+      await reader.cancel().catch(() => undefined)
+    }
+    reader.releaseLock()
+  }
+}
+
+// event-stream events sent by the Rust side while it reads a stream
+interface EventStreamMessage {
+  id: string
+  kind: 'data' | 'error' | 'end'
+  data?: string
+}
+
+// Open a GET event stream. In the desktop app the Rust side reads it
+// (event_stream_open), so the TLS settings apply and readSSE gets the body
+// through a Response of its own; the browser cannot apply them and uses fetch.
+// Non-2xx replies throw the matching typed error.
+async function openEventStream(
+  url: string,
+  headers: Record<string, string>,
+  tls: TlsConfig | undefined,
+  signal: AbortSignal
+): Promise<Response> {
+  if (!isTauri()) {
+    const response = await fetch(url, { headers, signal })
+    if (!response.ok) {
+      throw errorFromStatus(response.status, await response.text().catch(() => ''))
+    }
+    return response
+  }
+
+  const id = `stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const encoder = new TextEncoder()
+  let body!: ReadableStreamDefaultController<Uint8Array>
+  let closed = false
+  const { listen } = await import('@tauri-apps/api/event')
+  // Listen first: the first chunk may be sent before event_stream_open returns
+  const unlisten = await listen<EventStreamMessage>('event-stream', ({ payload }) => {
+    if (payload.id !== id || closed) return
+    if (payload.kind === 'data') {
+      body.enqueue(encoder.encode(payload.data || ''))
+      return
+    }
+    closed = true
+    unlisten()
+    if (payload.kind === 'error') body.error(new KagentNetworkError(payload.data || 'The stream failed'))
+    else body.close()
+  })
+  const close = () => {
+    if (closed) return
+    closed = true
+    unlisten()
+    invokeCommand('event_stream_close', { id }).catch(() => undefined)
+  }
+  const stream = new ReadableStream<Uint8Array>({
+    start: controller => { body = controller },
+    // readSSE cancels the reader when its consumer stops early
+    cancel: close
+  })
+  signal.addEventListener('abort', () => {
+    if (closed) return
+    close()
+    body.error(signal.reason)
+  }, { once: true })
+
+  try {
+    const opened = await invokeCommand<{ status: number; body: string }>('event_stream_open', {
+      id,
+      url,
+      headers,
+      tls: tls || null
+    })
+    if (opened.status < 200 || opened.status >= 300) {
+      throw errorFromStatus(opened.status, opened.body)
+    }
+  } catch (error) {
+    close()
+    throw error
+  }
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+// Concatenate the text parts of an A2A message or artifact
+function partsToText(parts?: A2AResponsePart[]): string {
+  return (parts || [])
+    .filter(part => typeof part.text === 'string' && (!part.kind || part.kind === 'text'))
+    .map(part => part.text)
+    .join('')
+}
+
+// Work out whether a function_response payload reports a failure
+function isToolError(response: unknown): boolean {
+  if (!response || typeof response !== 'object') return false
+  const record = response as Record<string, unknown>
+  if (record.isError === true || record.is_error === true || record.error) return true
+  return isToolError(record.result)
+}
+
+// Map a data part carrying a kagent function call or response to a tool event
+export function toolEventFromPart(part: A2AResponsePart | TaskHistoryPart): A2AToolEvent | null {
+  if (part.kind !== 'data' || !part.data) return null
+
+  const data = part.data as Record<string, unknown>
+  const id = String(data.id || data.name || '')
+  const name = String(data.name || 'unknown')
+
+  switch (part.metadata?.kagent_type) {
+    case 'function_call':
+      return {
+        kind: 'tool_call',
+        id,
+        name,
+        args: (data.args as Record<string, unknown>) || {}
+      }
+    case 'function_response':
+      return {
+        kind: 'tool_result',
+        id,
+        name,
+        result: data.response,
+        isError: isToolError(data.response)
+      }
+    default:
+      return null
+  }
+}
+
+// Fold a tool event into a list of tool calls, pairing results with their call
+export function applyToolEvent(toolCalls: ToolCall[], event: A2AToolEvent, at?: string): ToolCall[] {
+  if (event.kind === 'tool_call') {
+    if (toolCalls.some(call => call.id === event.id)) return toolCalls
+    return [...toolCalls, { id: event.id, name: event.name, args: event.args, isError: false, startedAt: at }]
+  }
+
+  const existing = toolCalls.find(call => call.id === event.id)
+  if (!existing) {
+    // Response without a recorded call (e.g. history truncated by paging)
+    return [...toolCalls, {
+      id: event.id,
+      name: event.name,
+      args: {},
+      result: event.result,
+      isError: event.isError,
+      completedAt: at
+    }]
+  }
+
+  return toolCalls.map(call => call.id === event.id
+    ? { ...call, result: event.result, isError: event.isError, completedAt: at }
+    : call)
+}
+
+// Translate a single A2A JSON-RPC result into stream events
+function toStreamEvents(result: A2AResult): A2AStreamEvent[] {
+  const events: A2AStreamEvent[] = []
+
+  if (result.kind === 'artifact-update' && result.artifact) {
+    events.push({
+      kind: 'artifact',
+      artifactId: result.artifact.artifactId,
+      name: result.artifact.name,
+      text: partsToText(result.artifact.parts),
+      append: result.append === true,
+      lastChunk: result.lastChunk === true
+    })
+    return events
+  }
+
+  if (result.status) {
+    if (result.status.state) {
+      events.push({
+        kind: 'status',
+        state: result.status.state,
+        taskId: result.taskId || result.id,
+        final: result.final === true
+      })
+    }
+
+    const statusMessage = result.status.message
+    for (const part of statusMessage?.parts || []) {
+      const toolEvent = toolEventFromPart(part)
+      if (toolEvent) {
+        events.push(toolEvent)
+      }
+    }
+
+    if (statusMessage?.role === 'agent') {
+      const text = partsToText(statusMessage.parts)
+      if (text) {
+        // ADK marks token-level deltas as partial; the complete message follows
+        const metadata = statusMessage.metadata || {}
+        const partial = metadata.adk_partial === true || metadata.kagent_adk_partial === true
+        events.push({ kind: 'text', text, messageId: statusMessage.messageId, partial })
+      }
+    }
+  }
+
+  return events
+}
+
+// Work out which agent owns a session. agent_id is "<ns>__NS__<name>" with
+// dashes replaced by underscores; agent_ref is "<ns>/<name>".
+export function parseSessionAgent(session: KagentSession): { namespace: string; name: string } {
+  if (session.agent_id) {
+    const parts = session.agent_id.split('__NS__')
+    return parts.length === 2
+      ? { namespace: parts[0], name: parts[1].replace(/_/g, '-') }
+      : { namespace: 'kagent', name: session.agent_id.replace(/_/g, '-') }
+  }
+  if (session.agent_ref) {
+    const parts = session.agent_ref.split('/')
+    return parts.length === 2
+      ? { namespace: parts[0], name: parts[1] }
+      : { namespace: 'kagent', name: session.agent_ref }
+  }
+  return { namespace: 'kagent', name: 'k8s-agent' }
+}
+
+// A message recovered from session events or task history
+export interface SessionHistoryEntry {
+  message: A2AResponseMessage
+  timestamp?: string
+}
+
+// Paging options for loading a session transcript
+export interface SessionHistoryOptions {
+  // Page size; when omitted every page is loaded
+  limit?: number
+  // Cursor passed through to the sessions API
+  after?: string
+}
+
+const HISTORY_PAGE_SIZE = 100
+
+// Session events store the A2A message as JSON, either inline or as a string
+function eventToHistoryEntry(event: KagentEvent): SessionHistoryEntry | null {
+  let data = event.data
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data)
+    } catch {
+      return null
+    }
+  }
+  if (!data || typeof data !== 'object') return null
+
+  const message = data as A2AResponseMessage
+  if (!message.role || !Array.isArray(message.parts)) return null
+  return { message, timestamp: event.timestamp }
+}
+
+// Rebuild chat messages from a session transcript. Consecutive agent messages
+// (text, tool calls and tool results) collapse into one assistant bubble, the
+// same way they are rendered while streaming.
+export function historyToChatMessages(entries: SessionHistoryEntry[], sessionId: string): ChatMessage[] {
+  const messages: ChatMessage[] = []
+  const seen = new Set<string>()
+  let reply: ChatMessage | null = null
+  let lastTimestamp = new Date().toISOString()
+
+  entries.forEach((entry, index) => {
+    const { message } = entry
+    const metadata = message.metadata || {}
+    // Streaming deltas are followed by the complete message
+    if (metadata.adk_partial === true || metadata.kagent_adk_partial === true) return
+    if (message.messageId) {
+      if (seen.has(message.messageId)) return
+      seen.add(message.messageId)
+    }
+
+    const timestamp = entry.timestamp || lastTimestamp
+    lastTimestamp = timestamp
+    const text = partsToText(message.parts)
+
+    if (message.role === 'user') {
+      reply = null
+      if (text) {
+        messages.push({
+          id: message.messageId || `${sessionId}-history-${index}`,
+          role: 'user',
+          content: text,
+          timestamp,
+          sessionId
+        })
+      }
+      return
+    }
+
+    if (!reply) {
+      reply = {
+        id: message.messageId || `${sessionId}-history-${index}`,
+        role: 'assistant',
+        content: '',
+        timestamp,
+        sessionId
+      }
+      messages.push(reply)
+    }
+
+    if (text) {
+      reply.content = reply.content ? `${reply.content}\n\n${text}` : text
+    }
+    for (const part of message.parts || []) {
+      const toolEvent = toolEventFromPart(part)
+      if (toolEvent) {
+        reply.toolCalls = applyToolEvent(reply.toolCalls || [], toolEvent, entry.timestamp)
+      }
+    }
+  })
+
+  // Drop agent turns that carried nothing renderable
+  return messages.filter(message => message.content || message.toolCalls?.length)
+}
+
+// Connection defaults used when the config leaves them unset
+const DEFAULT_TIMEOUT_MS = 30000
+const DEFAULT_RETRIES = 3
+// Identity used when a connector does not configure one
+const DEFAULT_USER_ID = 'admin@kagent.dev'
+// Streams may sit quiet for a while when an agent runs a long tool call
+const STREAM_IDLE_TIMEOUT_FACTOR = 4
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']
+// Dev server path proxied to the default khook port-forward (see vite.config.ts)
+const KHOOK_DEV_PROXY = '/khook-api'
+
+// Where a request goes and the credentials to attach to it
+interface RequestTarget {
+  url: string
+  auth: AuthStrategy
+  tls?: TlsConfig
+}
+// Task states after which the A2A server closes the stream
+const TERMINAL_TASK_STATES = ['completed', 'failed', 'canceled', 'rejected', 'input-required', 'auth-required']
+
+// Result of the Tauri http_request command; any status is returned as is
+interface TauriHttpResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string
+  json: unknown | null
+}
+
+// http_request rejection when no response was received
+interface TauriHttpError {
+  kind: 'invalid_request' | 'tls' | 'timeout' | 'connect' | 'request'
+  message: string
+}
+
+function isTauriHttpError(error: unknown): error is TauriHttpError {
+  return typeof error === 'object' && error !== null && 'kind' in error && 'message' in error && !(error instanceof Error)
+}
+
+// Map transport failures (fetch TypeErrors, Tauri http_request errors) to typed errors
+function toTransportError(error: unknown, timeoutMs: number = DEFAULT_TIMEOUT_MS): KagentError {
+  if (error instanceof KagentError) return error
+  if (isTauriHttpError(error)) {
+    if (error.kind === 'timeout') return new KagentTimeoutError(timeoutMs)
+    return new KagentNetworkError(error.message, error)
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  return new KagentNetworkError(`Network error: ${message}`, error)
+}
+
+// A 2xx body that is not JSON, e.g. a proxy's HTML login page, will not turn
+// into JSON on retry, so it fails with a non-retryable error
+function parseJsonBody<T>(status: number, text: string): T {
+  if (!text) return null as T
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new KagentHttpError(status, text, `Expected a JSON response but got: ${serverMessage(text)}`)
+  }
 }
 
 // Main KAgent API client class
@@ -322,10 +849,12 @@ export class KagentAPI {
   private baseUrl: string
   private userId: string
   private config?: KagentConfig
+  private auth: AuthStrategy
 
-  constructor(config?: KagentConfig, userId: string = 'admin@kagent.dev') {
+  constructor(config?: KagentConfig, userId?: string) {
     this.config = config
-    this.userId = userId
+    this.userId = userId || config?.userId || DEFAULT_USER_ID
+    this.auth = createAuthStrategy(config || {})
     // Build API base URL from config or use default
     this.baseUrl = config ? `${config.protocol}://${config.baseUrl}:${config.port}/api` : 'http://localhost:8083/api'
   }
@@ -333,9 +862,29 @@ export class KagentAPI {
   // Update configuration and rebuild base URL
   updateConfig(config: KagentConfig): void {
     this.config = config
+    this.userId = config.userId || DEFAULT_USER_ID
+    this.auth = createAuthStrategy(config)
     this.baseUrl = `${config.protocol}://${config.baseUrl}:${config.port}/api`
   }
 
+  // Identity requests are made as, e.g. for attributing silences
+  getUserId(): string {
+    return this.userId
+  }
+
+  // The khook endpoint alerts come from, e.g. for keeping alert history apart
+  getKhookUrl(): string {
+    return this.khookConfig.url.replace(/\/+$/, '')
+  }
+
+  private get timeout(): number {
+    return this.config?.timeout ?? DEFAULT_TIMEOUT_MS
+  }
+
+  private get retries(): number {
+    return this.config?.retries ?? DEFAULT_RETRIES
+  }
+
   // Health check endpoint
   async ping(): Promise<boolean> {
     try {
@@ -347,45 +896,80 @@ export class KagentAPI {
   }
 
   // Generic request method with Tauri support
-  private async request<T>(endpoint: string, options: RequestInit = {}, customBaseUrl?: string): Promise<T> {
-    // Use custom base URL if provided, otherwise use default logic
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    // Check if we're in Tauri (desktop app) or web development
+    const isWebDev = typeof window !== 'undefined' && window.location.hostname === 'localhost'
+    
     let baseUrl: string
-    if (customBaseUrl) {
-      baseUrl = customBaseUrl
+    if (isTauri()) {
+      // In Tauri app, use the full base URL
+      baseUrl = this.baseUrl
+    } else if (isWebDev) {
+      // In web development, use proxy path
+      baseUrl = '/api'
     } else {
-      // Check if we're in Tauri (desktop app) or web development
-      const isTauri = typeof window !== 'undefined' && (window as any).__TAURI__
-      const isWebDev = typeof window !== 'undefined' && window.location.hostname === 'localhost'
-      
-      if (isTauri) {
-        // In Tauri app, use the full base URL
-        baseUrl = this.baseUrl
-      } else if (isWebDev) {
-        // In web development, use proxy path
-        baseUrl = '/api'
-      } else {
-        // Fallback to base URL
-        baseUrl = this.baseUrl
-      }
+      // Fallback to base URL
+      baseUrl = this.baseUrl
     }
     
-    // Only add user_id for KAgent requests, not khook requests
-    const url = customBaseUrl 
-      ? `${customBaseUrl}${endpoint}`
-      : `${baseUrl}${endpoint}?user_id=${this.userId}`
+    // Endpoints may bring their own query, e.g. paging parameters
+    const separator = endpoint.includes('?') ? '&' : '?'
+    const url = `${baseUrl}${endpoint}${separator}user_id=${encodeURIComponent(this.userId)}`
+    return this.send<T>({ url, auth: this.auth, tls: this.config?.tls }, options)
+  }
+
+  // Request against the connector's khook endpoint, with its own token and TLS settings
+  private async khookRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const khook = this.khookConfig
+    return this.send<T>({ url: `${this.khookBaseUrl}${endpoint}`, auth: bearerAuth(khook.token), tls: khook.tls }, options)
+  }
+
+  private get khookConfig(): KhookConfig {
+    return this.config?.khook?.url ? this.config.khook : defaultKhookConfig
+  }
+
+  // The web dev server proxies the default port-forward to avoid CORS
+  private get khookBaseUrl(): string {
+    const url = this.khookConfig.url.replace(/\/+$/, '')
+    const isWebDev = typeof window !== 'undefined' && window.location.hostname === 'localhost'
+    return !isTauri() && isWebDev && url === defaultKhookConfig.url ? KHOOK_DEV_PROXY : url
+  }
+
+  private async send<T>(target: RequestTarget, options: RequestInit): Promise<T> {
+    // Only idempotent requests are retried automatically
+    const method = (options.method || 'GET').toUpperCase()
+    const retries = IDEMPOTENT_METHODS.includes(method) ? this.retries : 0
     
+    return withRetry(() => this.requestWithAuth<T>(target, options), { retries })
+  }
+
+  // Expired OIDC or kubeconfig tokens are refreshed once and the request repeated
+  private async requestWithAuth<T>(target: RequestTarget, options: RequestInit): Promise<T> {
     try {
+      return await this.requestOnce<T>(target, options)
+    } catch (error) {
+      if (error instanceof KagentAuthError && error.status === 401 && target.auth.refresh && await target.auth.refresh()) {
+        return this.requestOnce<T>(target, options)
+      }
+      throw error
+    }
+  }
+
+  // Perform a single HTTP request, mapping failures to typed errors.
+  // Every attempt is recorded for the Debug tab's request inspector.
+  private async requestOnce<T>(target: RequestTarget, options: RequestInit): Promise<T> {
+    const { url } = target
+    const method = options.method || 'GET'
+    const body = options.body ? String(options.body) : undefined
+    let recorder: RequestRecorder | undefined
+    try {
+      const authHeaders = await target.auth.getHeaders()
+
       // Use Tauri invoke for desktop app, fetch for web
-      if (typeof window !== 'undefined' && (window as any).__TAURI__) {
-        const { invoke } = await import('@tauri-apps/api/core')
-        
+      if (isTauri()) {
         const headers: Record<string, string> = {
           'X-User-ID': this.userId,
-        }
-        
-        // Add authentication token if available
-        if (this.config?.token) {
-          headers['Authorization'] = `Bearer ${this.config.token}`
+          ...authHeaders,
         }
         
         // Add any additional headers
@@ -395,14 +979,22 @@ export class KagentAPI {
           })
         }
         
-        const result = await invoke<T>('http_request', {
+        recorder = beginRequest({ transport: 'tauri', method, url, headers, body })
+        const response = await invokeCommand<TauriHttpResponse>('http_request', {
           url: url,
-          method: options.method || 'GET',
+          method: method,
           headers: headers,
-          body: options.body ? String(options.body) : null
+          body: body ?? null,
+          tls: target.tls || null,
+          timeoutMs: this.timeout
         })
         
-        return result
+        recorder.complete({ status: response.status, headers: response.headers, body: response.body })
+        if (response.status < 200 || response.status >= 300) {
+          throw errorFromStatus(response.status, response.body)
+        }
+        // DELETE and action endpoints may answer with an empty body
+        return parseJsonBody<T>(response.status, response.body)
       } else {
         // Prepare headers - avoid custom headers that trigger CORS preflight
         const headers: Record<string, string> = {
@@ -414,32 +1006,43 @@ export class KagentAPI {
           headers['Content-Type'] = 'application/json'
         }
         
-        // Add authentication token if available
-        if (this.config?.token) {
-          headers['Authorization'] = `Bearer ${this.config.token}`
-        }
+        Object.assign(headers, authHeaders, options.headers)
+        
+        const timeout = createTimeoutController(this.timeout, options.signal || undefined)
+        recorder = beginRequest({ transport: 'fetch', method, url, headers, body })
         
         // Browser fallback
-        const response = await fetch(url, {
-          ...options,
-          method: options.method || 'GET',
-          mode: 'cors',
-          headers: {
-            ...headers,
-            ...options.headers,
-          },
-        })
+        try {
+          const response = await fetch(url, {
+            ...options,
+            method: method,
+            mode: 'cors',
+            headers: headers,
+            signal: timeout.signal,
+          })
 
-        if (!response.ok) {
-          const errorText = await response.text()
-          throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`)
-        }
+          // DELETE and action endpoints may answer with an empty body
+          const text = await response.text()
+          recorder.complete({ status: response.status, headers: headersToRecord(response.headers), body: text })
+
+          if (!response.ok) {
+            throw errorFromStatus(response.status, text)
+          }
 
-        const data = await response.json()
-        return data
+          return parseJsonBody<T>(response.status, text)
+        } catch (error) {
+          if (timeout.didTimeout()) {
+            throw new KagentTimeoutError(this.timeout)
+          }
+          throw error
+        } finally {
+          timeout.clear()
+        }
       }
     } catch (error) {
-      throw new Error(`Network error: ${error instanceof Error ? error.message : String(error)}`)
+      const typed = toTransportError(error, this.timeout)
+      recorder?.fail(typed, typed.toInfo().status)
+      throw typed
     }
   }
 
@@ -569,23 +1172,20 @@ export class KagentAPI {
 
   // ===== SESSION ANALYTICS =====
   
+  // Failures are thrown so a broken history load is not mistaken for an empty session
   async getSessionEvents(sessionId: string, limit?: number, after?: string): Promise<KagentEvent[]> {
-    try {
-      let url = `/sessions/${sessionId}`
-      const params = new URLSearchParams()
-      
-      if (limit) params.append('limit', limit.toString())
-      if (after) params.append('after', after)
-      
-      if (params.toString()) {
-        url += `?${params.toString()}`
-      }
-      
-      const response = await this.request<ApiResponse<SessionWithEventsResponse>>(url)
-      return response.data?.events || []
-    } catch (error) {
-      return []
+    let url = `/sessions/${sessionId}`
+    const params = new URLSearchParams()
+    
+    if (limit) params.append('limit', limit.toString())
+    if (after) params.append('after', after)
+    
+    if (params.toString()) {
+      url += `?${params.toString()}`
     }
+    
+    const response = await this.request<ApiResponse<SessionWithEventsResponse>>(url)
+    return response?.data?.events || []
   }
 
   async getSessionTasks(sessionId: string): Promise<Task[]> {
@@ -827,14 +1427,10 @@ export class KagentAPI {
     }
   }
 
+  // Throws the typed error so an auth or network failure is not shown as "no sessions"
   async getSessions(): Promise<KagentSession[]> {
-    try {
-      const response = await this.request<ApiResponse<KagentSession[]>>('/sessions', { method: 'GET' })
-      return response.data || []
-    } catch (error) {
-      // Return empty array instead of throwing to avoid breaking the UI
-      return []
-    }
+    const response = await this.request<ApiResponse<KagentSession[]>>('/sessions', { method: 'GET' })
+    return response?.data || []
   }
 
   async createSession(agentRef: string, sessionId?: string): Promise<KagentSession> {
@@ -855,6 +1451,27 @@ export class KagentAPI {
     return response.data
   }
 
+  async updateSession(session: KagentSession, updates: { name?: string }): Promise<KagentSession> {
+    const { namespace, name } = parseSessionAgent(session)
+    const response = await this.request<ApiResponse<KagentSession>>('/sessions', {
+      method: 'PUT',
+      body: JSON.stringify({
+        id: session.id,
+        user_id: this.userId,
+        agent_ref: session.agent_ref || `${namespace}/${name}`,
+        name: updates.name ?? session.name,
+      }),
+    })
+
+    return { ...session, ...updates, ...response?.data }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.request(`/sessions/${sessionId}`, {
+      method: 'DELETE',
+    })
+  }
+
   async getSession(sessionId: string): Promise<KagentSession | null> {
     try {
       const response = await this.request<ApiResponse<SessionWithEventsResponse | KagentSession>>(`/sessions/${sessionId}`)
@@ -868,171 +1485,223 @@ export class KagentAPI {
         return null
       }
     } catch (error) {
-      // For mock sessions, return a mock session object
-      if (sessionId.startsWith('mock-session-')) {
-        return {
-          id: sessionId,
-          user_id: this.userId,
-          agent_ref: 'k8s-agent', // Default agent
-          name: 'Mock Session',
-          last_update_time: new Date().toISOString()
-        }
-      }
-      
-      if (error instanceof Error && error.message.includes('404')) {
+      if (error instanceof KagentHttpError && error.status === 404) {
         return null
       }
       throw error
     }
   }
 
-  async sendMessage(sessionId: string, message: string): Promise<ChatResponse> {
-    try {
-      // First, get the session to find the agent reference
-      const session = await this.getSession(sessionId)
-      
-      if (!session) {
-        throw new Error('Session not found')
-      }
+  // Resolve the A2A endpoint for the agent that owns a session
+  private async getA2AUrl(sessionId: string): Promise<{ url: string; agentRef: string }> {
+    // First, get the session to find the agent reference
+    const session = await this.getSession(sessionId)
+    
+    if (!session) {
+      throw new KagentHttpError(404, '', `Session ${sessionId} not found`)
+    }
 
-      // Extract agent information from session
-      let agentName: string
-      let namespace: string = 'kagent'
-      
-      if (session.agent_id) {
-        const parts = session.agent_id.split('__NS__')
-        if (parts.length === 2) {
-          namespace = parts[0]
-          agentName = parts[1].replace(/_/g, '-')
-        } else {
-          agentName = session.agent_id.replace(/_/g, '-')
+    // Extract agent information from session
+    const { namespace, name: agentName } = parseSessionAgent(session)
+    
+    // Use the correct A2A URL format - ensure we have a proper base URL
+    const baseUrl = this.baseUrl.replace('/api', '')
+    const a2aUrl = `${baseUrl}/api/a2a/${namespace}/${agentName}/`
+    
+    // Ensure the URL is absolute
+    if (!a2aUrl.startsWith('http')) {
+      throw new Error(`Invalid A2A URL: ${a2aUrl} - URL must be absolute`)
+    }
+
+    return { url: a2aUrl, agentRef: `${namespace}/${agentName}` }
+  }
+
+  // Stream an agent reply as it is produced. Yields partial text, task status
+  // changes and artifact chunks in the order the A2A server emits them.
+  // Opening the stream is retried; once events flow, failures surface as
+  // KagentTimeoutError (stream went quiet) or KagentStreamTruncatedError.
+  async *streamMessage(sessionId: string, message: string, signal?: AbortSignal): AsyncGenerator<A2AStreamEvent> {
+    const { url: a2aUrl, agentRef } = await this.getA2AUrl(sessionId)
+    
+    // Use the correct JSON-RPC format
+    const a2aData: A2ARequest = {
+      jsonrpc: "2.0",
+      method: "message/stream",
+      params: {
+        message: {
+          kind: "message",
+          messageId: `msg-${Date.now()}`,
+          role: "user",
+          parts: [{ kind: "text", text: message }],
+          contextId: sessionId
         }
-      } else {
-        agentName = 'k8s-agent'
-      }
-      
-      // Use the correct A2A URL format - ensure we have a proper base URL
-      const baseUrl = this.baseUrl.replace('/api', '')
-      const a2aUrl = `${baseUrl}/api/a2a/${namespace}/${agentName}/`
-      
-      // Ensure the URL is absolute
-      if (!a2aUrl.startsWith('http')) {
-        throw new Error(`Invalid A2A URL: ${a2aUrl} - URL must be absolute`)
-      }
-      
-      // Use the correct JSON-RPC format
-      const a2aData: A2ARequest = {
-        jsonrpc: "2.0",
-        method: "message/stream",
-        params: {
-          message: {
-            kind: "message",
-            messageId: `msg-${Date.now()}`,
-            role: "user",
-            parts: [{ kind: "text", text: message }],
-            contextId: sessionId
-          }
-        },
-        id: `req-${Date.now()}`
-      }
-      
+      },
+      id: `req-${Date.now()}`
+    }
+    
+    const idleTimeout = this.timeout * STREAM_IDLE_TIMEOUT_FACTOR
+    // Timer of the attempt whose stream opened; it then becomes the idle timeout
+    let timer: ReturnType<typeof createTimeoutController> | undefined
+    let finished = false
+    // Recorder of the attempt whose stream opened, for the request inspector
+    let stream: RequestRecorder | undefined
+
+    try {
       // Use browser fetch for A2A requests (SSE streams)
-      const response = await fetch(a2aUrl, {
-        method: 'POST',
-        headers: {
+      const response = await withRetry(async () => {
+        // Each attempt gets its own connect timeout; an aborted signal cannot be reused
+        const attempt = createTimeoutController(this.timeout, signal)
+        const headers: Record<string, string> = {
           'Content-Type': 'application/json',
           'Accept': 'text/event-stream',
-        },
-        body: JSON.stringify(a2aData)
+          ...(await this.auth.getHeaders()),
+        }
+        const body = JSON.stringify(a2aData)
+        const recorder = beginRequest({ transport: 'sse', method: 'POST', url: a2aUrl, headers, body })
+        let res: Response
+        try {
+          res = await fetch(a2aUrl, {
+            method: 'POST',
+            headers,
+            body,
+            signal: attempt.signal
+          })
+        } catch (error) {
+          attempt.clear()
+          recorder.fail(error)
+          if (attempt.didTimeout()) throw new KagentTimeoutError(this.timeout, 'Connecting to the agent')
+          if (signal?.aborted) throw error
+          throw toTransportError(error)
+        }
+
+        if (!res.ok) {
+          attempt.clear()
+          const body = await res.text().catch(() => '')
+          recorder.complete({ status: res.status, headers: headersToRecord(res.headers), body })
+          if (res.status === 404) throw new KagentAgentNotFoundError(agentRef)
+          throw errorFromStatus(res.status, body)
+        }
+        recorder.complete({ status: res.status, headers: headersToRecord(res.headers) })
+        attempt.reset(idleTimeout)
+        timer = attempt
+        stream = recorder
+        return res
+      }, {
+        retries: this.retries,
+        signal,
+        // message/stream is not idempotent: once the server answered (even
+        // with a 5xx or 429) or the connect timed out, it may already have
+        // the message, so only a request that never got out is sent again
+        shouldRetry: error => error instanceof KagentNetworkError
       })
 
-      if (!response.ok) {
-        throw new Error(`A2A request failed: ${response.status}`)
-      }
+      for await (const sseEvent of readSSE(response)) {
+        timer?.reset()
+        stream?.addEvent(sseEvent)
+        if (sseEvent.data === '[DONE]') {
+          finished = true
+          break
+        }
 
-      // Handle SSE stream response
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('No response body')
-      }
+        let eventData: A2AResponse
+        try {
+          eventData = JSON.parse(sseEvent.data) as A2AResponse
+        } catch {
+          // Failed to parse SSE data, continue
+          continue
+        }
 
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let lastMessage = ''
-
-      while (true) {
-        const { value, done } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // Process complete SSE events
-        let eventEndIndex
-        while ((eventEndIndex = buffer.indexOf('\n\n')) >= 0) {
-          const eventText = buffer.substring(0, eventEndIndex)
-          buffer = buffer.substring(eventEndIndex + 2)
-
-          if (eventText.trim()) {
-            const lines = eventText.split('\n')
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const dataString = line.substring(6)
-                
-                if (dataString === '[DONE]') {
-                  break
-                }
-                
-                try {
-                  const eventData = JSON.parse(dataString) as A2AResponse
-                  const result = eventData.result || eventData
-                  
-                  // Look for the final message from the agent
-                  if ('status' in result && result.status?.message?.role === 'agent') {
-                    lastMessage = result.status.message.parts?.[0]?.text || ''
-                  }
-                } catch (parseError) {
-                  // Failed to parse SSE data, continue
-                }
-              }
-            }
+        if (eventData.error) {
+          throw new KagentHttpError(eventData.error.code, '', `Agent error: ${eventData.error.message}`)
+        }
+
+        const result = (eventData.result || eventData) as A2AResult
+        for (const streamEvent of toStreamEvents(result)) {
+          if (streamEvent.kind === 'status' && (streamEvent.final || TERMINAL_TASK_STATES.includes(streamEvent.state))) {
+            finished = true
           }
+          yield streamEvent
         }
       }
+    } catch (error) {
+      stream?.fail(error)
+      if (timer?.didTimeout()) {
+        throw new KagentTimeoutError(idleTimeout, 'Agent reply')
+      }
+      if (signal?.aborted || error instanceof KagentError) {
+        throw error
+      }
+      throw finished ? toTransportError(error) : new KagentStreamTruncatedError(`The agent stream was interrupted: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      timer?.clear()
+      stream?.endStream()
+    }
 
-      reader.releaseLock()
+    if (!finished) {
+      throw new KagentStreamTruncatedError()
+    }
+  }
 
-      if (lastMessage) {
-        return {
-          message: lastMessage,
-          sessionId: sessionId,
-          timestamp: new Date().toISOString()
-        }
+  async sendMessage(sessionId: string, message: string): Promise<ChatResponse> {
+    let lastMessage = ''
+    let partialText = ''
+
+    // Look for the final message from the agent
+    for await (const event of this.streamMessage(sessionId, message)) {
+      if (event.kind !== 'text') continue
+      if (event.partial) {
+        partialText += event.text
       } else {
-        throw new Error('No agent message found in SSE stream')
-      }
-    } catch (error) {
-      // Fallback to mock response for now
-      return {
-        message: `Mock response to: "${message}" (A2A error: ${error})`,
-        sessionId: sessionId,
-        timestamp: new Date().toISOString()
+        lastMessage = event.text
+        partialText = ''
       }
     }
+    lastMessage = lastMessage || partialText
+
+    if (!lastMessage) {
+      throw new KagentStreamTruncatedError('The agent finished without sending a reply')
+    }
+
+    return {
+      message: lastMessage,
+      sessionId: sessionId,
+      timestamp: new Date().toISOString()
+    }
   }
 
-  async getSessionMessages(_sessionId: string): Promise<ChatMessage[]> {
-    try {
-      // The kagent API doesn't have a /messages endpoint for sessions
-      // Messages are handled through the A2A protocol, not stored in sessions
-      return []
-    } catch (error) {
-      return []
+  // Rebuild the transcript of a session from its stored events, falling back
+  // to the A2A task history when the server has no events for it
+  async getSessionMessages(sessionId: string, options: SessionHistoryOptions = {}): Promise<ChatMessage[]> {
+    const events: KagentEvent[] = []
+    let after = options.after
+
+    while (true) {
+      const pageSize = options.limit || HISTORY_PAGE_SIZE
+      const page = await this.getSessionEvents(sessionId, pageSize, after)
+      events.push(...page)
+
+      const cursor = page[page.length - 1]?.timestamp
+      if (options.limit || page.length < pageSize || !cursor || cursor === after) break
+      after = cursor
+    }
+
+    let entries = events
+      .map(eventToHistoryEntry)
+      .filter((entry): entry is SessionHistoryEntry => entry !== null)
+
+    if (entries.length === 0 && !options.after) {
+      const tasks = await this.getSessionTasks(sessionId)
+      entries = tasks.flatMap(task => (task.history || [])
+        .filter(item => item.kind === 'message')
+        .map(item => ({ message: item as unknown as A2AResponseMessage })))
     }
+
+    return historyToChatMessages(entries, sessionId)
   }
 
+  // agentRef is a namespace/name ref; a bare agent name is taken to live in the kagent namespace
   async createSessionWithName(agentRef: string, sessionName: string): Promise<KagentSession> {
-    // Convert agent name to Kubernetes format (namespace/name)
-    const agentRefK8s = `kagent/${agentRef}`
+    const agentRefK8s = agentRef.includes('/') ? agentRef : `kagent/${agentRef}`
     
     const data = {
       user_id: this.userId,
@@ -1040,202 +1709,136 @@ export class KagentAPI {
       name: sessionName,
     }
 
-    try {
-      const response = await this.request<ApiResponse<KagentSession>>('/sessions', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      })
-      
-      if (!response.data || !response.data.id) {
-        throw new Error('Invalid session response - missing session ID')
-      }
-      
-      // Convert the response to our KagentSession format
-      const session: KagentSession = {
-        id: response.data.id,
-        user_id: response.data.user_id || this.userId,
-        agent_ref: response.data.agent_ref || agentRefK8s,
-        name: response.data.name,
-        last_update_time: response.data.last_update_time || new Date().toISOString()
-      }
-      
-      return session
-    } catch (error) {
-      // Try to get existing sessions for this agent
-      try {
-        const sessions = await this.getSessions()
-        const existingSession = sessions.find(s => s.agent_ref === agentRef)
-        
-        if (existingSession) {
-          return existingSession
-        }
-      } catch (sessionError) {
-        // Failed to get existing sessions
-      }
-      
-      // Return a mock session as last resort
-      const mockSession = {
-        id: `mock-session-${Date.now()}`,
-        user_id: this.userId,
-        agent_ref: agentRef,
-        name: sessionName,
-        last_update_time: new Date().toISOString()
-      }
-      
-      return mockSession
+    const response = await this.request<ApiResponse<KagentSession>>('/sessions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+    
+    if (!response?.data?.id) {
+      throw new KagentHttpError(200, JSON.stringify(response), 'Invalid session response - missing session ID')
+    }
+    
+    // Convert the response to our KagentSession format
+    return {
+      id: response.data.id,
+      user_id: response.data.user_id || this.userId,
+      agent_ref: response.data.agent_ref || agentRefK8s,
+      name: response.data.name,
+      last_update_time: response.data.last_update_time || new Date().toISOString()
     }
   }
 
   // Hook CRD Management Methods
   async getHooks(): Promise<Hook[]> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      
-      const response = await this.request<HookList>('/api/hooks', { method: 'GET' }, khookBaseUrl)
-      return response.items || []
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    const response = await this.khookRequest<HookList>('/api/hooks', { method: 'GET' })
+    return response.items || []
   }
 
   async getHook(name: string, namespace: string = 'default'): Promise<Hook> {
-    try {
-      const isWebDev = typeof window !== 'undefined' && window.location.hostname === 'localhost'
-      
-      const khookBaseUrl = isWebDev
-        ? '/khook-api'
-        : 'http://localhost:8082'
-      
-      const response = await this.request<Hook>(`/api/hooks/${namespace}/${name}`, { method: 'GET' }, khookBaseUrl)
-      return response
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    return this.khookRequest<Hook>(`/api/hooks/${namespace}/${name}`, { method: 'GET' })
   }
 
   async createHook(hook: Hook): Promise<Hook> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      const response = await this.request<Hook>('/api/hooks', {
-        method: 'POST',
-        body: JSON.stringify(hook)
-      }, khookBaseUrl)
-      return response
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    return this.khookRequest<Hook>('/api/hooks', {
+      method: 'POST',
+      body: JSON.stringify(hook)
+    })
   }
 
   async updateHook(name: string, namespace: string, hook: Hook): Promise<Hook> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      const response = await this.request<Hook>(`/api/hooks/${namespace}/${name}`, {
-        method: 'PUT',
-        body: JSON.stringify(hook)
-      }, khookBaseUrl)
-      return response
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    return this.khookRequest<Hook>(`/api/hooks/${namespace}/${name}`, {
+      method: 'PUT',
+      body: JSON.stringify(hook)
+    })
   }
 
   async deleteHook(name: string, namespace: string = 'default'): Promise<void> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      await this.request(`/api/hooks/${namespace}/${name}`, { method: 'DELETE' }, khookBaseUrl)
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    await this.khookRequest(`/api/hooks/${namespace}/${name}`, { method: 'DELETE' })
   }
 
   // Alert Management Methods
   async getAlerts(): Promise<Alert[]> {
+    const response = await this.khookRequest<ApiResponse<Alert[]>>('/api/alerts', { method: 'GET' })
+    return response?.data || []
+  }
+
+  // Event types khook can watch. Older khook builds have no such endpoint,
+  // in which case the built-in list is used.
+  async getEventTypes(): Promise<EventTypeDefinition[]> {
     try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      
-      const response = await this.request<ApiResponse<Alert[]>>('/api/alerts', { method: 'GET' }, khookBaseUrl)
-      return response?.data || []
+      const response = await this.khookRequest<unknown>('/api/event-types', { method: 'GET' })
+      return registerEventTypes(normalizeEventTypes(response))
     } catch (error) {
-      throw new Error(`Network error: ${error}`)
+      console.warn('khook did not return event types, using the built-in list:', error)
+      return listEventTypes()
     }
   }
 
   async getAlertSummary(): Promise<AlertSummary> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      
-      const response = await this.request<ApiResponse<AlertSummary>>('/api/alerts/summary', { method: 'GET' }, khookBaseUrl)
-      return response?.data || { 
-        total: 0, 
-        firing: 0, 
-        acknowledged: 0, 
-        resolved: 0, 
-        bySeverity: { critical: 0, high: 0, medium: 0, low: 0 },
-        byEventType: { 'pod-restart': 0, 'pod-pending': 0, 'oom-kill': 0, 'probe-failed': 0 }
-      }
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
+    const response = await this.khookRequest<ApiResponse<AlertSummary>>('/api/alerts/summary', { method: 'GET' })
+    return response?.data || { 
+      total: 0, 
+      firing: 0, 
+      acknowledged: 0, 
+      resolved: 0, 
+      bySeverity: { critical: 0, high: 0, medium: 0, low: 0 },
+      byEventType: {}
     }
   }
 
   async acknowledgeAlert(alertId: string): Promise<void> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      await this.request(`/api/alerts/${alertId}/acknowledge`, { method: 'POST' }, khookBaseUrl)
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    await this.khookRequest(`/api/alerts/${alertId}/acknowledge`, { method: 'POST' })
   }
 
   async resolveAlert(alertId: string): Promise<void> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      await this.request(`/api/alerts/${alertId}/resolve`, { method: 'POST' }, khookBaseUrl)
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
-    }
+    await this.khookRequest(`/api/alerts/${alertId}/resolve`, { method: 'POST' })
   }
 
-  // Real-time Alert Streaming
-  async subscribeToAlerts(onAlert: (alert: Alert) => void, onError?: (error: Error) => void): Promise<EventSource> {
-    try {
-      // Simplified approach - always use absolute URL for khook API
-      const khookBaseUrl = 'http://localhost:8082'
-      
-      const streamUrl = `${khookBaseUrl}/api/alerts/stream`
-      
-      const eventSource = new EventSource(streamUrl)
-      
-      eventSource.addEventListener('alert', (event) => {
+  // Real-time Alert Streaming. Reads the SSE stream with fetch rather than
+  // EventSource so the khook token can be sent, and reconnects with backoff
+  // until closed or the server rejects the credentials.
+  async subscribeToAlerts(
+    onAlert: (alert: Alert) => void,
+    onError?: (error: Error) => void,
+    onOpen?: () => void
+  ): Promise<AlertSubscription> {
+    const controller = new AbortController()
+    const streamUrl = `${this.khookBaseUrl}/api/alerts/stream`
+    const { token, tls } = this.khookConfig
+
+    const run = async () => {
+      let attempt = 0
+      while (!controller.signal.aborted) {
         try {
-          const alert: Alert = JSON.parse(event.data)
-          onAlert(alert)
+          const response = await openEventStream(streamUrl, {
+            'Accept': 'text/event-stream',
+            ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+          }, tls, controller.signal)
+
+          attempt = 0
+          onOpen?.()
+          for await (const event of readSSE(response)) {
+            // Heartbeats only keep the connection open
+            if (event.event === 'heartbeat') continue
+            try {
+              onAlert(JSON.parse(event.data) as Alert)
+            } catch (error) {
+              onError?.(error as Error)
+            }
+          }
+          throw new KagentStreamTruncatedError('The alert stream was closed by the server')
         } catch (error) {
-          onError?.(error as Error)
+          if (controller.signal.aborted) return
+          const streamError = toTransportError(error)
+          onError?.(streamError)
+          if (!streamError.retryable) return
+          await sleep(backoffDelay(attempt++, 1000, 30000), controller.signal).catch(() => undefined)
         }
-      })
-
-      eventSource.addEventListener('heartbeat', () => {
-        // Heartbeat, ignore
-        return
-      })
-
-      eventSource.onerror = (error) => {
-        onError?.(error as any)
       }
-
-      return eventSource
-    } catch (error) {
-      throw new Error(`Network error: ${error}`)
     }
+
+    void run()
+    return { close: () => controller.abort() }
   }
 
   async testConnection(): Promise<boolean> {
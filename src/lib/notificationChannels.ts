@@ -0,0 +1,346 @@
+// Alert routing to Slack, PagerDuty Events v2, Microsoft Teams and generic
+// JSON webhooks. Each channel picks the severities and namespaces it wants
+// and renders its message from an alert template. Definitions live in
+// localStorage; webhook URLs and routing keys are secrets and are kept in
+// the secret store (see ./secrets). Requests go through the Tauri
+// http_request command, so they are not subject to CORS.
+import type { Alert } from './kagent'
+import { alertFingerprint } from './alertGrouping'
+import { alertTemplateValues, renderTemplate, type TemplateValues } from './promptTemplate'
+import { deleteSecret, getSecret, putSecret } from './secrets'
+import { invokeCommand, isTauri } from './tauri'
+
+export type NotificationChannelType = 'slack' | 'pagerduty' | 'teams' | 'webhook'
+
+export interface NotificationDelivery {
+  at: string
+  ok: boolean
+  status?: number
+  error?: string
+}
+
+export interface NotificationChannel {
+  id: string
+  name: string
+  type: NotificationChannelType
+  enabled: boolean
+  // Webhook URL, or the integration's routing key for PagerDuty
+  target: string
+  severities: Alert['severity'][]
+  // Exact names or globs like "prod-*"; empty means every namespace
+  namespaces: string[]
+  // Message text; for generic webhooks the JSON body itself
+  template: string
+  lastDelivery?: NotificationDelivery
+}
+
+export interface ChannelRequest {
+  url: string
+  body: string
+}
+
+const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue'
+const TEXT_TEMPLATE = '[{{severity}}] {{eventLabel}} on {{namespace}}/{{resourceName}} ({{status}})\n{{message}}'
+const WEBHOOK_TEMPLATE = `{
+  "id": "{{id}}",
+  "status": "{{status}}",
+  "severity": "{{severity}}",
+  "namespace": "{{namespace}}",
+  "resource": "{{resourceName}}",
+  "eventType": "{{eventType}}",
+  "hook": "{{hookName}}",
+  "message": "{{message}}",
+  "firstSeen": "{{firstSeen}}",
+  "lastSeen": "{{lastSeen}}"
+}`
+
+export const CHANNEL_TYPES: Array<{ value: NotificationChannelType; label: string; targetLabel: string; defaultTemplate: string }> = [
+  { value: 'slack', label: 'Slack', targetLabel: 'Incoming webhook URL', defaultTemplate: TEXT_TEMPLATE },
+  { value: 'pagerduty', label: 'PagerDuty', targetLabel: 'Events v2 routing key', defaultTemplate: TEXT_TEMPLATE },
+  { value: 'teams', label: 'Microsoft Teams', targetLabel: 'Incoming webhook URL', defaultTemplate: TEXT_TEMPLATE },
+  { value: 'webhook', label: 'Webhook', targetLabel: 'URL', defaultTemplate: WEBHOOK_TEMPLATE }
+]
+
+export const channelType = (type: NotificationChannelType) =>
+  CHANNEL_TYPES.find(option => option.value === type) || CHANNEL_TYPES[0]
+
+const CHANNELS_KEY = 'sre-ide-notification-channels'
+const secretKey = (channelId: string) => `notification-channel/${channelId}/target`
+const SEND_TIMEOUT_MS = 10000
+
+const listeners = new Set<() => void>()
+let channels: NotificationChannel[] = []
+let loading: Promise<void> | null = null
+
+function emit(): void {
+  listeners.forEach(listener => listener())
+}
+
+function readDefinitions(): NotificationChannel[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CHANNELS_KEY) || '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch (error) {
+    console.error('Failed to load notification channels:', error)
+    return []
+  }
+}
+
+function persist(): void {
+  const definitions = channels.map(channel => ({ ...channel, target: '' }))
+  localStorage.setItem(CHANNELS_KEY, JSON.stringify(definitions))
+  emit()
+}
+
+// Loads the channels and their secrets once; later calls wait for the same load
+export function loadNotificationChannels(): Promise<void> {
+  if (!loading) {
+    loading = Promise.all(readDefinitions().map(async channel => {
+      try {
+        return { ...channel, target: (await getSecret(secretKey(channel.id))) ?? '' }
+      } catch (error) {
+        console.warn(`Failed to load the target of notification channel ${channel.name}:`, error)
+        return channel
+      }
+    })).then(loaded => {
+      channels = loaded
+      emit()
+    })
+  }
+  return loading
+}
+
+export function getNotificationChannels(): NotificationChannel[] {
+  return channels
+}
+
+export function subscribeToNotificationChannels(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+// Problems that would stop a channel from being saved
+export function validateChannel(channel: NotificationChannel): string[] {
+  const errors: string[] = []
+  if (!channel.name.trim()) {
+    errors.push('Name is required')
+  }
+  if (!channel.target.trim()) {
+    errors.push(`${channelType(channel.type).targetLabel} is required`)
+  } else if (channel.type !== 'pagerduty' && !/^https?:\/\//.test(channel.target.trim())) {
+    errors.push('The URL must start with http:// or https://')
+  }
+  if (channel.severities.length === 0) {
+    errors.push('Pick at least one severity')
+  }
+  if (channel.type === 'webhook') {
+    try {
+      JSON.parse(renderBody(channel.template, {}, true))
+    } catch {
+      errors.push('The webhook body must be valid JSON')
+    }
+  }
+  return errors
+}
+
+export async function saveNotificationChannel(channel: NotificationChannel): Promise<void> {
+  await loadNotificationChannels()
+  await putSecret(secretKey(channel.id), channel.target.trim() || undefined)
+  const exists = channels.some(existing => existing.id === channel.id)
+  channels = exists
+    ? channels.map(existing => existing.id === channel.id ? channel : existing)
+    : [...channels, channel]
+  persist()
+}
+
+export async function deleteNotificationChannel(id: string): Promise<void> {
+  await loadNotificationChannels()
+  channels = channels.filter(channel => channel.id !== id)
+  persist()
+  await deleteSecret(secretKey(id))
+}
+
+export function newNotificationChannel(type: NotificationChannelType = 'slack'): NotificationChannel {
+  return {
+    id: `channel-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: '',
+    type,
+    enabled: true,
+    target: '',
+    severities: ['critical', 'high'],
+    namespaces: [],
+    template: channelType(type).defaultTemplate
+  }
+}
+
+function namespaceMatches(pattern: string, namespace: string): boolean {
+  if (!pattern.includes('*')) return pattern === namespace
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`^${escaped.join('.*')}$`).test(namespace)
+}
+
+export function channelMatches(channel: NotificationChannel, alert: Alert): boolean {
+  return channel.enabled &&
+    channel.severities.includes(alert.severity) &&
+    (channel.namespaces.length === 0 || channel.namespaces.some(pattern => namespaceMatches(pattern, alert.namespace)))
+}
+
+// Generic webhook bodies are JSON templates, so values are escaped to sit
+// inside JSON strings
+function renderBody(template: string, values: TemplateValues, asJson: boolean): string {
+  if (!asJson) return renderTemplate(template, values)
+  const escaped = Object.fromEntries(Object.entries(values).map(([name, value]) =>
+    [name, JSON.stringify(value === undefined || value === null ? '' : String(value)).slice(1, -1)]
+  ))
+  // Unknown placeholders would break the JSON, so they render empty
+  return renderTemplate(template, escaped).replace(/\{\{\s*\.?[A-Za-z_]\w*\s*\}\}/g, '')
+}
+
+const PAGERDUTY_SEVERITY: Record<Alert['severity'], string> = {
+  critical: 'critical',
+  high: 'error',
+  medium: 'warning',
+  low: 'info'
+}
+
+const TEAMS_COLOR: Record<Alert['severity'], string> = {
+  critical: 'D13438',
+  high: 'FF8C00',
+  medium: '0078D4',
+  low: '107C10'
+}
+
+// The request a channel sends for an alert. url overrides the channel's
+// target, e.g. to send a test to the local mock endpoint.
+export function buildChannelRequest(channel: NotificationChannel, alert: Alert, url?: string): ChannelRequest {
+  const values = alertTemplateValues(alert)
+  const text = renderBody(channel.template, values, channel.type === 'webhook')
+
+  switch (channel.type) {
+    case 'slack':
+      return { url: url || channel.target, body: JSON.stringify({ text }) }
+    case 'teams':
+      return {
+        url: url || channel.target,
+        body: JSON.stringify({
+          '@type': 'MessageCard',
+          '@context': 'https://schema.org/extensions',
+          summary: text.split('\n')[0],
+          themeColor: TEAMS_COLOR[alert.severity],
+          text: text.replace(/\n/g, '<br>')
+        })
+      }
+    case 'pagerduty':
+      // Resolved alerts resolve the incident their trigger opened
+      return {
+        url: url || PAGERDUTY_EVENTS_URL,
+        body: JSON.stringify({
+          routing_key: channel.target,
+          event_action: alert.status === 'resolved' ? 'resolve' : 'trigger',
+          dedup_key: alertFingerprint(alert),
+          payload: {
+            summary: text.slice(0, 1024),
+            source: `${alert.namespace}/${alert.resourceName}`,
+            severity: PAGERDUTY_SEVERITY[alert.severity],
+            timestamp: alert.firstSeen,
+            component: alert.resourceName,
+            group: alert.namespace,
+            class: alert.eventType,
+            custom_details: values
+          }
+        })
+      }
+    default:
+      return { url: url || channel.target, body: text }
+  }
+}
+
+// Result of the Tauri http_request command
+interface HttpResponse {
+  status: number
+  body: string
+}
+
+// POSTs the request and fails on a non-2xx answer
+export async function sendChannelRequest(request: ChannelRequest): Promise<HttpResponse> {
+  let response: HttpResponse
+  if (isTauri()) {
+    try {
+      response = await invokeCommand<HttpResponse>('http_request', {
+        url: request.url,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: request.body,
+        tls: null,
+        timeoutMs: SEND_TIMEOUT_MS
+      })
+    } catch (error) {
+      // http_request rejects with { kind, message } when nothing came back
+      const message = typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : String(error)
+      throw new Error(message)
+    }
+  } else {
+    const reply = await fetch(request.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: request.body,
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+    })
+    response = { status: reply.status, body: await reply.text() }
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`HTTP ${response.status}${response.body ? `: ${response.body.slice(0, 200)}` : ''}`)
+  }
+  return response
+}
+
+function recordDelivery(id: string, delivery: NotificationDelivery): void {
+  channels = channels.map(channel => channel.id === id ? { ...channel, lastDelivery: delivery } : channel)
+  persist()
+}
+
+// Sends one alert to one channel and records the outcome on the channel
+export async function sendToChannel(channel: NotificationChannel, alert: Alert, url?: string): Promise<HttpResponse> {
+  try {
+    const response = await sendChannelRequest(buildChannelRequest(channel, alert, url))
+    recordDelivery(channel.id, { at: new Date().toISOString(), ok: true, status: response.status })
+    return response
+  } catch (error) {
+    recordDelivery(channel.id, { at: new Date().toISOString(), ok: false, error: error instanceof Error ? error.message : String(error) })
+    throw error
+  }
+}
+
+// Routes an alert to every channel that wants it; failures are logged and
+// recorded on the channel, never thrown
+export async function routeAlert(alert: Alert): Promise<void> {
+  await loadNotificationChannels()
+  await Promise.all(channels.filter(channel => channelMatches(channel, alert)).map(channel =>
+    sendToChannel(channel, alert).catch(error => {
+      console.error(`Failed to send alert ${alert.id} to ${channel.name}:`, error)
+    })
+  ))
+}
+
+// A request received by the local mock endpoint
+export interface MockWebhookRequest {
+  method: string
+  path: string
+  headers: Record<string, string>
+  body: string
+  receivedAt: number
+}
+
+// Starts the desktop app's local mock endpoint (once) and returns its URL
+export async function startMockWebhook(): Promise<string> {
+  if (!isTauri()) {
+    throw new Error('The local mock endpoint is only available in the desktop app')
+  }
+  return invokeCommand<string>('mock_webhook_start')
+}
+
+// Requests the mock endpoint received, newest first
+export async function getMockWebhookRequests(): Promise<MockWebhookRequest[]> {
+  return invokeCommand<MockWebhookRequest[]>('mock_webhook_requests')
+}
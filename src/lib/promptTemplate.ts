@@ -0,0 +1,193 @@
+// {{variable}} templates for agent prompts. Hook prompts use the hook
+// variables below; other features (investigation templates) pass their own
+// variable list and values to the same renderer.
+import type { ActiveEventStatus, Alert } from './kagent'
+import { getEventType } from './eventTypes'
+
+export interface TemplateVariable {
+  name: string
+  description: string
+  // khook fills this in itself when a hook fires; the others are only
+  // filled in by SRE IDE (previews, simulations, investigations)
+  khook?: boolean
+}
+
+export type TemplateValues = Record<string, string | number | null | undefined>
+
+// {{name}}, or khook's Go-template form {{.Name}}
+const PLACEHOLDER = /\{\{\s*(\.?)([A-Za-z_]\w*)\s*\}\}/g
+
+// {{.ResourceName}} names the resourceName variable
+const variableName = (dot: string, name: string) =>
+  dot ? name.charAt(0).toLowerCase() + name.slice(1) : name
+
+// How a variable is written: khook only fills in the Go-template form, so its
+// variables use {{.Name}}; SRE IDE's own variables keep {{name}}
+export function variablePlaceholder(variable: TemplateVariable): string {
+  return variable.khook
+    ? `{{.${variable.name.charAt(0).toUpperCase()}${variable.name.slice(1)}}}`
+    : `{{${variable.name}}}`
+}
+
+export interface TemplatePlaceholder {
+  // As written in the template
+  text: string
+  name: string
+  goTemplate: boolean
+}
+
+// Distinct placeholders used by a template, in order of first use
+export function templatePlaceholders(template: string): TemplatePlaceholder[] {
+  const placeholders = new Map<string, TemplatePlaceholder>()
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const text = `{{${match[1]}${match[2]}}}`
+    if (!placeholders.has(text)) {
+      placeholders.set(text, { text, name: variableName(match[1], match[2]), goTemplate: match[1] === '.' })
+    }
+  }
+  return Array.from(placeholders.values())
+}
+
+// Placeholders without a value are left as written so they stand out in previews.
+// Given the variables, a khook variable written as {{name}} is left as written
+// too, the way khook leaves it.
+export function renderTemplate(template: string, values: TemplateValues, variables?: TemplateVariable[]): string {
+  return template.replace(PLACEHOLDER, (placeholder, dot: string, name: string) => {
+    const key = variableName(dot, name)
+    if (!dot && variables?.some(variable => variable.khook && variable.name === key)) return placeholder
+    const value = values[key]
+    return value === undefined || value === null ? placeholder : String(value)
+  })
+}
+
+export interface TemplateCompletion {
+  // Offset of the "{{" being completed
+  from: number
+  query: string
+  options: TemplateVariable[]
+}
+
+// Variables matching an unfinished "{{partial" just before the cursor
+export function completeTemplateVariable(text: string, cursor: number, variables: TemplateVariable[]): TemplateCompletion | null {
+  const match = /\{\{\s*\.?(\w*)$/.exec(text.slice(0, cursor))
+  if (!match) return null
+
+  const query = match[1].toLowerCase()
+  const options = variables.filter(variable => variable.name.toLowerCase().startsWith(query))
+  return options.length > 0 ? { from: match.index, query, options } : null
+}
+
+// Replaces the completion's partial placeholder, closing it if needed
+export function applyTemplateCompletion(text: string, cursor: number, completion: TemplateCompletion, variable: TemplateVariable) {
+  const rest = text.slice(cursor).replace(/^\w*(\s*\}\})?/, '')
+  const inserted = variablePlaceholder(variable)
+  return {
+    text: text.slice(0, completion.from) + inserted + rest,
+    cursor: completion.from + inserted.length
+  }
+}
+
+export const HOOK_PROMPT_VARIABLES: TemplateVariable[] = [
+  { name: 'resourceName', description: 'Name of the resource the event is about', khook: true },
+  { name: 'namespace', description: 'Namespace of the resource', khook: true },
+  { name: 'eventType', description: 'Event type id, e.g. pod-restart', khook: true },
+  { name: 'eventTime', description: 'When khook saw the event', khook: true },
+  { name: 'eventMessage', description: 'Message of the Kubernetes event', khook: true },
+  { name: 'reason', description: 'Reason of the Kubernetes event, e.g. BackOff', khook: true },
+  { name: 'eventLabel', description: 'Readable event type, e.g. Pod Restart' },
+  { name: 'firstSeen', description: 'When the event first fired' },
+  { name: 'lastSeen', description: 'When the event last fired' },
+  { name: 'status', description: 'firing or resolved' },
+  { name: 'restartCount', description: 'Container restarts so far, when known' },
+  { name: 'hookName', description: 'Name of the hook' }
+]
+
+export interface HookEventDetails {
+  hookName: string
+  namespace: string
+  eventMessage?: string
+  reason?: string
+}
+
+export function hookPromptValues(event: ActiveEventStatus, details: HookEventDetails): TemplateValues {
+  return {
+    resourceName: event.resourceName,
+    namespace: details.namespace,
+    eventType: event.eventType,
+    eventTime: event.lastSeen,
+    eventMessage: details.eventMessage,
+    reason: details.reason,
+    eventLabel: getEventType(event.eventType).label,
+    firstSeen: event.firstSeen,
+    lastSeen: event.lastSeen,
+    status: event.status,
+    restartCount: event.restartCount,
+    hookName: details.hookName
+  }
+}
+
+// Stand-in event for previews in the hook editor
+export function sampleActiveEvent(eventType: string): ActiveEventStatus {
+  const lastSeen = new Date()
+  return {
+    eventType,
+    resourceName: 'demo-app-7d9f8b6c5-x2k4q',
+    firstSeen: new Date(lastSeen.getTime() - 15 * 60 * 1000).toISOString(),
+    lastSeen: lastSeen.toISOString(),
+    status: 'firing',
+    restartCount: 5
+  }
+}
+
+// Variables for templates rendered from an alert (notification channels, investigations)
+export const ALERT_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'id', description: 'Alert id' },
+  { name: 'severity', description: 'critical, high, medium or low' },
+  { name: 'status', description: 'firing, acknowledged or resolved' },
+  { name: 'resourceName', description: 'Name of the resource the alert is about' },
+  { name: 'namespace', description: 'Namespace of the resource' },
+  { name: 'eventType', description: 'Event type id, e.g. pod-restart' },
+  { name: 'eventLabel', description: 'Readable event type, e.g. Pod Restart' },
+  { name: 'hookName', description: 'Name of the hook that raised the alert' },
+  { name: 'message', description: 'Alert message' },
+  { name: 'firstSeen', description: 'When the alert first fired' },
+  { name: 'lastSeen', description: 'When the alert last fired' },
+  { name: 'agentId', description: 'Agent that handles the alert' },
+  { name: 'remediationStatus', description: 'Agent remediation status, when there is one' }
+]
+
+export function alertTemplateValues(alert: Alert): TemplateValues {
+  return {
+    id: alert.id,
+    severity: alert.severity,
+    status: alert.status,
+    resourceName: alert.resourceName,
+    namespace: alert.namespace,
+    eventType: alert.eventType,
+    eventLabel: getEventType(alert.eventType).label,
+    hookName: alert.hookName,
+    message: alert.message,
+    firstSeen: alert.firstSeen,
+    lastSeen: alert.lastSeen,
+    agentId: alert.agentId,
+    remediationStatus: alert.remediationStatus
+  }
+}
+
+// Stand-in alert for previews and test notifications
+export function sampleAlert(): Alert {
+  const event = sampleActiveEvent('pod-restart')
+  return {
+    id: 'sample-alert',
+    hookName: 'pod-restart-hook',
+    namespace: 'default',
+    eventType: event.eventType,
+    resourceName: event.resourceName,
+    severity: 'critical',
+    status: 'firing',
+    firstSeen: event.firstSeen,
+    lastSeen: event.lastSeen,
+    message: 'Back-off restarting failed container app in pod demo-app-7d9f8b6c5-x2k4q',
+    agentId: 'kagent/k8s-agent'
+  }
+}
@@ -0,0 +1,287 @@
+// Structured log of KAgent and khook HTTP traffic for the Debug tab.
+// Entries are immutable snapshots so React can read them with useSyncExternalStore.
+
+export type RequestTransport = 'tauri' | 'fetch' | 'sse'
+
+export interface InspectedSSEEvent {
+  // Milliseconds since the request started
+  offsetMs: number
+  event?: string
+  data: string
+}
+
+export interface InspectedRequest {
+  id: string
+  transport: RequestTransport
+  startedAt: string
+  method: string
+  url: string
+  // Secrets in headers and bodies are already redacted
+  requestHeaders: Record<string, string>
+  requestBody?: string
+  status?: number
+  responseHeaders?: Record<string, string>
+  responseBody?: string
+  // Time until the response (or the first byte of a stream) arrived
+  durationMs?: number
+  // Streams only: time until the stream closed
+  streamDurationMs?: number
+  sseEvents?: InspectedSSEEvent[]
+  error?: string
+}
+
+// Handle returned by beginRequest to fill in the entry as the request progresses
+export interface RequestRecorder {
+  complete(response: { status: number; headers?: Record<string, string>; body?: string }): void
+  // status is kept when the failure was an error response
+  fail(error: unknown, status?: number): void
+  addEvent(event: { event?: string; data: string }): void
+  endStream(): void
+}
+
+const MAX_ENTRIES = 200
+const MAX_BODY_LENGTH = 64 * 1024
+const MAX_SSE_EVENTS = 500
+const REDACTED = '[REDACTED]'
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie']
+const SENSITIVE_HEADER_PATTERN = /token|secret|password|api-?key/i
+// Body fields holding credentials: client_secret, refresh_token, idToken, code_verifier...
+// "token$" leaves counters like total_tokens alone
+const SENSITIVE_FIELD_PATTERN = /token$|secret|password|api[-_]?key|assertion|^code$|code_?verifier|device_?code/i
+
+let entries: InspectedRequest[] = []
+const listeners = new Set<() => void>()
+let nextId = 0
+
+function emit(): void {
+  listeners.forEach(listener => listener())
+}
+
+function truncate(body: string | undefined): string | undefined {
+  if (body === undefined || body.length <= MAX_BODY_LENGTH) return body
+  return `${body.slice(0, MAX_BODY_LENGTH)}\n… truncated ${body.length - MAX_BODY_LENGTH} characters`
+}
+
+// Keep the auth scheme ("Bearer", "Basic") visible, hide the credential
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase()
+    if (lower === 'authorization' || lower === 'proxy-authorization') {
+      const scheme = value.split(' ')[0]
+      redacted[name] = value.includes(' ') ? `${scheme} ${REDACTED}` : REDACTED
+    } else if (SENSITIVE_HEADERS.includes(lower) || SENSITIVE_HEADER_PATTERN.test(lower)) {
+      redacted[name] = REDACTED
+    } else {
+      redacted[name] = value
+    }
+  }
+  return redacted
+}
+
+function contentType(headers: Record<string, string> | undefined): string {
+  const entry = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === 'content-type')
+  return entry ? entry[1].toLowerCase() : ''
+}
+
+// Replace string values of credential fields at any depth
+function redactFields(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactFields)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+      key,
+      typeof field === 'string' && SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : redactFields(field)
+    ]))
+  }
+  return value
+}
+
+// Hide credentials in form and JSON bodies, e.g. the client secret and refresh
+// token of an OIDC token request. Bodies without any come back untouched.
+export function redactBody(body: string | undefined, headers?: Record<string, string>): string | undefined {
+  if (!body) return body
+  const type = contentType(headers)
+
+  if (type.includes('application/x-www-form-urlencoded')) {
+    let changed = false
+    const pairs = body.split('&').map(pair => {
+      const name = pair.split('=')[0]
+      let decoded = name
+      try {
+        decoded = decodeURIComponent(name.replace(/\+/g, ' '))
+      } catch {
+        // Keep the raw name when it is not valid percent-encoding
+      }
+      if (!SENSITIVE_FIELD_PATTERN.test(decoded)) return pair
+      changed = true
+      return `${name}=${REDACTED}`
+    })
+    return changed ? pairs.join('&') : body
+  }
+
+  const trimmed = body.trimStart()
+  if (type.includes('json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(body)
+      const redacted = JSON.stringify(redactFields(parsed))
+      return redacted === JSON.stringify(parsed) ? body : redacted
+    } catch {
+      return body
+    }
+  }
+  return body
+}
+
+function update(id: string, changes: (entry: InspectedRequest) => Partial<InspectedRequest>): void {
+  const index = entries.findIndex(entry => entry.id === id)
+  if (index === -1) return
+  const next = entries.slice()
+  next[index] = { ...next[index], ...changes(next[index]) }
+  entries = next
+  emit()
+}
+
+export function beginRequest(request: {
+  transport: RequestTransport
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: string
+}): RequestRecorder {
+  const id = `req-${Date.now()}-${nextId++}`
+  const started = performance.now()
+  const elapsed = () => Math.round(performance.now() - started)
+
+  entries = [{
+    id,
+    transport: request.transport,
+    startedAt: new Date().toISOString(),
+    method: request.method.toUpperCase(),
+    url: request.url,
+    requestHeaders: redactHeaders(request.headers),
+    requestBody: truncate(redactBody(request.body, request.headers))
+  }, ...entries].slice(0, MAX_ENTRIES)
+  emit()
+
+  return {
+    complete: response => update(id, () => ({
+      status: response.status,
+      responseHeaders: response.headers && redactHeaders(response.headers),
+      responseBody: truncate(redactBody(response.body, response.headers)),
+      durationMs: elapsed()
+    })),
+    fail: (error, status) => update(id, entry => ({
+      status: status ?? entry.status,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: entry.durationMs ?? elapsed(),
+      streamDurationMs: entry.transport === 'sse' && entry.status !== undefined ? elapsed() : undefined
+    })),
+    addEvent: event => update(id, entry => ({
+      sseEvents: [...(entry.sseEvents || []), { offsetMs: elapsed(), event: event.event, data: truncate(event.data) as string }]
+        .slice(-MAX_SSE_EVENTS)
+    })),
+    endStream: () => update(id, () => ({ streamDurationMs: elapsed() }))
+  }
+}
+
+export function getRequestLog(): InspectedRequest[] {
+  return entries
+}
+
+export function subscribeToRequestLog(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function clearRequestLog(): void {
+  entries = []
+  emit()
+}
+
+// Response headers of a fetch Response as a plain object
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    record[name] = value
+  })
+  return record
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+
+// Reproduce a request with curl. Redacted credentials must be filled in by hand.
+export function toCurl(entry: InspectedRequest): string {
+  const parts = ['curl', '-X', entry.method, shellQuote(entry.url)]
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push('-H', shellQuote(`${name}: ${value}`))
+  }
+  if (entry.transport === 'sse') {
+    parts.push('-N')
+  }
+  if (entry.requestBody) {
+    parts.push('--data-raw', shellQuote(entry.requestBody))
+  }
+  return parts.join(' ')
+}
+
+function harHeaders(headers: Record<string, string> | undefined) {
+  return Object.entries(headers || {}).map(([name, value]) => ({ name, value }))
+}
+
+function harQuery(url: string) {
+  try {
+    return Array.from(new URL(url, window.location.origin).searchParams.entries()).map(([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+// HAR 1.2 archive; SSE events are appended to the response text as they arrived
+export function toHar(log: InspectedRequest[]): string {
+  const har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'SRE IDE', version: '0.1.0' },
+      entries: log.map(entry => {
+        const responseText = entry.sseEvents
+          ? entry.sseEvents.map(e => `${e.event ? `event: ${e.event}\n` : ''}data: ${e.data}\n`).join('\n')
+          : entry.responseBody || ''
+        const contentType = entry.requestHeaders['Content-Type'] || entry.requestHeaders['content-type'] || 'application/json'
+        return {
+          startedDateTime: entry.startedAt,
+          time: entry.streamDurationMs ?? entry.durationMs ?? 0,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            headers: harHeaders(entry.requestHeaders),
+            queryString: harQuery(entry.url),
+            cookies: [],
+            headersSize: -1,
+            bodySize: entry.requestBody?.length ?? 0,
+            ...(entry.requestBody ? { postData: { mimeType: contentType, text: entry.requestBody } } : {})
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.error || '',
+            httpVersion: 'HTTP/1.1',
+            headers: harHeaders(entry.responseHeaders),
+            cookies: [],
+            content: {
+              size: responseText.length,
+              mimeType: entry.sseEvents ? 'text/event-stream' : entry.responseHeaders?.['content-type'] || 'application/json',
+              text: responseText
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.durationMs ?? 0, receive: (entry.streamDurationMs ?? entry.durationMs ?? 0) - (entry.durationMs ?? 0) },
+          comment: entry.transport
+        }
+      })
+    }
+  }
+  return JSON.stringify(har, null, 2)
+}
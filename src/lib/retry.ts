@@ -0,0 +1,97 @@
+// Retry and timeout helpers shared by the API clients
+import { KagentError } from './errors'
+
+export interface RetryOptions {
+  // Number of additional attempts after the first one
+  retries: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  signal?: AbortSignal
+  shouldRetry?: (error: unknown, attempt: number) => boolean
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+// Only errors flagged as retryable are repeated by default
+const defaultShouldRetry = (error: unknown) => error instanceof KagentError && error.retryable
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, ... capped at maxDelayMs
+export function backoffDelay(attempt: number, baseDelayMs: number = 500, maxDelayMs: number = 10000): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(exponential * (0.5 + Math.random() / 2))
+}
+
+// Wait for ms, rejecting early if the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason)
+    return
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal?.reason)
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const shouldRetry = options.shouldRetry || defaultShouldRetry
+  let attempt = 0
+
+  while (true) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= options.retries || options.signal?.aborted || !shouldRetry(error, attempt)) {
+        throw error
+      }
+      const delayMs = backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs)
+      options.onRetry?.(error, attempt + 1, delayMs)
+      await sleep(delayMs, options.signal)
+      attempt++
+    }
+  }
+}
+
+// Abort controller that fires after a timeout or when the parent signal aborts.
+// `reset` restarts the timer, optionally with a new timeout, which turns it
+// into an idle timeout. A controller that has fired stays aborted.
+export function createTimeoutController(timeoutMs: number, parent?: AbortSignal) {
+  const controller = new AbortController()
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const start = () => {
+    if (timer) clearTimeout(timer)
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeoutMs)
+    }
+  }
+
+  const onParentAbort = () => controller.abort(parent?.reason)
+  if (parent?.aborted) {
+    controller.abort(parent.reason)
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true })
+  }
+  start()
+
+  return {
+    signal: controller.signal,
+    didTimeout: () => timedOut,
+    reset: (nextTimeoutMs: number = timeoutMs) => {
+      timeoutMs = nextTimeoutMs
+      start()
+    },
+    clear: () => {
+      if (timer) clearTimeout(timer)
+      parent?.removeEventListener('abort', onParentAbort)
+    }
+  }
+}
@@ -0,0 +1,60 @@
+// Secret storage for tokens and passwords.
+// The desktop app keeps them in the OS keychain (or an encrypted file when no
+// keychain is available, see src-tauri/src/lib.rs). A plain browser has no safe
+// place for them, so they are only kept in sessionStorage until the tab closes.
+import { invokeCommand, isTauri } from './tauri'
+
+export type SecretBackend = 'keychain' | 'encrypted-file' | 'session'
+
+const SESSION_SECRETS_KEY = 'sre-ide-secrets'
+
+function readSessionSecrets(): Record<string, string> {
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_SECRETS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function writeSessionSecrets(secrets: Record<string, string>): void {
+  sessionStorage.setItem(SESSION_SECRETS_KEY, JSON.stringify(secrets))
+}
+
+export async function getSecret(key: string): Promise<string | null> {
+  if (isTauri()) {
+    return invokeCommand<string | null>('secret_get', { key })
+  }
+  return readSessionSecrets()[key] ?? null
+}
+
+export async function setSecret(key: string, value: string): Promise<void> {
+  if (isTauri()) {
+    await invokeCommand('secret_set', { key, value })
+    return
+  }
+  writeSessionSecrets({ ...readSessionSecrets(), [key]: value })
+}
+
+export async function deleteSecret(key: string): Promise<void> {
+  if (isTauri()) {
+    await invokeCommand('secret_delete', { key })
+    return
+  }
+  const secrets = readSessionSecrets()
+  delete secrets[key]
+  writeSessionSecrets(secrets)
+}
+
+// Store the value, or remove the secret when the value is empty
+export async function putSecret(key: string, value: string | undefined): Promise<void> {
+  if (value) {
+    await setSecret(key, value)
+  } else {
+    await deleteSecret(key)
+  }
+}
+
+export async function getSecretBackend(): Promise<SecretBackend> {
+  if (!isTauri()) return 'session'
+  return invokeCommand<SecretBackend>('secret_backend_name')
+}
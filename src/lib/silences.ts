@@ -0,0 +1,208 @@
+// Alert silences, modelled on Alertmanager's: a set of matchers, a time
+// window, who created it and why. Silenced alerts are hidden on the
+// dashboard, left out of summary counts and do not notify. khook has no
+// silence API, so silences are kept locally.
+import type { Alert, AlertSummary } from './kagent'
+import { WORKLOAD_POD_SUFFIX } from './alertGrouping'
+
+export type SilenceMatcherField = 'namespace' | 'hookName' | 'eventType' | 'resourceName'
+
+export const SILENCE_MATCHER_FIELDS: Array<{ value: SilenceMatcherField; label: string }> = [
+  { value: 'namespace', label: 'Namespace' },
+  { value: 'hookName', label: 'Hook' },
+  { value: 'eventType', label: 'Event Type' },
+  { value: 'resourceName', label: 'Resource' }
+]
+
+export interface SilenceMatcher {
+  field: SilenceMatcherField
+  value: string
+  // Regex matchers are anchored, like Alertmanager's
+  isRegex: boolean
+}
+
+export interface Silence {
+  id: string
+  matchers: SilenceMatcher[]
+  startsAt: string
+  endsAt: string
+  createdBy: string
+  comment: string
+  createdAt: string
+  updatedAt?: string
+}
+
+export type SilenceState = 'pending' | 'active' | 'expired'
+
+const SILENCES_KEY = 'sre-ide-silences'
+// Expired silences stay listed for a while so they can be looked up or recreated
+const EXPIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+// setTimeout fires at once for delays beyond 2^31 - 1 ms
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+const listeners = new Set<() => void>()
+let silences: Silence[] = load()
+let boundaryTimer: ReturnType<typeof setTimeout> | undefined
+scheduleBoundary()
+
+function load(): Silence[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SILENCES_KEY) || '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch (error) {
+    console.error('Failed to load silences:', error)
+    return []
+  }
+}
+
+function persist(next: Silence[]): void {
+  const cutoff = Date.now() - EXPIRED_RETENTION_MS
+  silences = next.filter(silence => new Date(silence.endsAt).getTime() > cutoff)
+  localStorage.setItem(SILENCES_KEY, JSON.stringify(silences))
+  listeners.forEach(listener => listener())
+  scheduleBoundary()
+}
+
+// Silences start and end on their own: notify subscribers when the next one
+// does, with a new list so useSyncExternalStore re-renders
+function scheduleBoundary(): void {
+  clearTimeout(boundaryTimer)
+  const now = Date.now()
+  const next = Math.min(...silences
+    .flatMap(silence => [new Date(silence.startsAt).getTime(), new Date(silence.endsAt).getTime()])
+    .filter(time => time > now))
+  if (!Number.isFinite(next)) return
+  boundaryTimer = setTimeout(() => {
+    if (Date.now() < next) scheduleBoundary()
+    else persist([...silences])
+  }, Math.min(next - now, MAX_TIMER_MS))
+}
+
+export function getSilences(): Silence[] {
+  return silences
+}
+
+export function subscribeToSilences(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function silenceState(silence: Silence, now = Date.now()): SilenceState {
+  if (new Date(silence.endsAt).getTime() <= now) return 'expired'
+  if (new Date(silence.startsAt).getTime() > now) return 'pending'
+  return 'active'
+}
+
+// Problems that would stop a silence from being saved
+export function validateSilence(silence: Pick<Silence, 'matchers' | 'startsAt' | 'endsAt' | 'createdBy'>): string[] {
+  const errors: string[] = []
+  if (silence.matchers.length === 0) {
+    errors.push('Add at least one matcher')
+  }
+  silence.matchers.forEach((matcher, index) => {
+    if (!matcher.value) {
+      errors.push(`Matcher ${index + 1} has no value`)
+    } else if (matcher.isRegex) {
+      try {
+        new RegExp(matcher.value)
+      } catch {
+        errors.push(`Matcher ${index + 1} is not a valid regular expression`)
+      }
+    }
+  })
+  const starts = new Date(silence.startsAt).getTime()
+  const ends = new Date(silence.endsAt).getTime()
+  if (Number.isNaN(starts) || Number.isNaN(ends)) {
+    errors.push('Start and end must be valid times')
+  } else if (ends <= starts) {
+    errors.push('The silence must end after it starts')
+  }
+  if (!silence.createdBy.trim()) {
+    errors.push('Creator is required')
+  }
+  return errors
+}
+
+// Creates the silence, or replaces the one with the same id
+export function saveSilence(silence: Omit<Silence, 'id' | 'createdAt'> & Partial<Pick<Silence, 'id' | 'createdAt'>>): Silence {
+  const now = new Date().toISOString()
+  const saved: Silence = silence.id
+    ? { ...silence, id: silence.id, createdAt: silence.createdAt || now, updatedAt: now }
+    : { ...silence, id: `silence-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now }
+  persist([saved, ...silences.filter(existing => existing.id !== saved.id)])
+  return saved
+}
+
+// Ends the silence now; pending silences end before they start
+export function expireSilence(id: string): void {
+  const now = new Date().toISOString()
+  persist(silences.map(silence => silence.id === id
+    ? { ...silence, endsAt: now, startsAt: silence.startsAt > now ? now : silence.startsAt, updatedAt: now }
+    : silence))
+}
+
+function matches(matcher: SilenceMatcher, value: string): boolean {
+  if (!matcher.isRegex) return value === matcher.value
+  try {
+    return new RegExp(`^(?:${matcher.value})$`).test(value)
+  } catch {
+    return false
+  }
+}
+
+export function silenceMatches(silence: Silence, alert: Alert): boolean {
+  return silence.matchers.every(matcher => matches(matcher, alert[matcher.field]))
+}
+
+// The active silence covering an alert, if any
+export function findSilence(alert: Alert, list: Silence[] = silences, now = Date.now()): Silence | undefined {
+  return list.find(silence => silenceState(silence, now) === 'active' && silenceMatches(silence, alert))
+}
+
+export function isSilenced(alert: Alert, list: Silence[] = silences, now = Date.now()): boolean {
+  return findSilence(alert, list, now) !== undefined
+}
+
+// Summary counts without the silenced alerts among those loaded. khook's
+// summary may count alerts that were not loaded; those cannot be matched.
+export function withoutSilenced(summary: AlertSummary, alerts: Alert[], list: Silence[] = silences): AlertSummary {
+  const silenced = alerts.filter(alert => isSilenced(alert, list))
+  if (silenced.length === 0) return summary
+
+  const minus = (count: number, by: number) => Math.max(0, count - by)
+  const adjusted: AlertSummary = {
+    ...summary,
+    bySeverity: { ...summary.bySeverity },
+    byEventType: { ...summary.byEventType }
+  }
+  for (const alert of silenced) {
+    adjusted.total = minus(adjusted.total, 1)
+    adjusted[alert.status] = minus(adjusted[alert.status], 1)
+    adjusted.bySeverity[alert.severity] = minus(adjusted.bySeverity[alert.severity], 1)
+    if (alert.eventType in adjusted.byEventType) {
+      adjusted.byEventType[alert.eventType] = minus(adjusted.byEventType[alert.eventType], 1)
+    }
+  }
+  return adjusted
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Matchers that silence exactly this alert's problem on this resource
+export function matchersForAlert(alert: Alert): SilenceMatcher[] {
+  return [
+    { field: 'namespace', value: alert.namespace, isRegex: false },
+    { field: 'hookName', value: alert.hookName, isRegex: false },
+    { field: 'eventType', value: alert.eventType, isRegex: false },
+    { field: 'resourceName', value: alert.resourceName, isRegex: false }
+  ]
+}
+
+// Matchers for every pod of a workload: "api" and the pods workloadName folds
+// into it ("api-7d9f8b6c5-x2k4q"), but not those of a workload named "api-gateway"
+export function matchersForWorkload(namespace: string, workload: string): SilenceMatcher[] {
+  return [
+    { field: 'namespace', value: namespace, isRegex: false },
+    { field: 'resourceName', value: `${escapeRegex(workload)}(?:${WORKLOAD_POD_SUFFIX})?`, isRegex: true }
+  ]
+}
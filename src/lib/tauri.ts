@@ -0,0 +1,11 @@
+// Helpers for code that runs both in the Tauri desktop app and a plain browser
+
+export function isTauri(): boolean {
+  return typeof window !== 'undefined' && '__TAURI__' in window
+}
+
+// Call a Rust command; only valid when isTauri() is true
+export async function invokeCommand<T>(command: string, args?: Record<string, unknown>): Promise<T> {
+  const { invoke } = await import('@tauri-apps/api/core')
+  return invoke<T>(command, args)
+}
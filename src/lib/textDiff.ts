@@ -0,0 +1,40 @@
+// Line diff used to preview changes to resources before they are saved
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove'
+  text: string
+}
+
+// Longest-common-subsequence line diff. Inputs are small (single resources),
+// so the quadratic table is fine.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.replace(/\n$/, '').split('\n') : []
+  const b = after ? after.replace(/\n$/, '').split('\n') : []
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'remove', text: a[i++] })
+    } else {
+      lines.push({ type: 'add', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'remove', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'add', text: b[j++] })
+  return lines
+}
+
+export const hasChanges = (lines: DiffLine[]) => lines.some(line => line.type !== 'context')
@@ -0,0 +1,40 @@
+// The desktop app's tray menu (built in src-tauri/src/lib.rs). The web side
+// pushes what the menu shows and handles the actions picked from it.
+import { invokeCommand, isTauri } from './tauri'
+
+export interface TrayAlert {
+  id: string
+  label: string
+}
+
+export interface TrayConnector {
+  id: string
+  name: string
+  active: boolean
+  connected: boolean
+}
+
+export interface TrayState {
+  firing: number
+  // Most recent firing critical alerts
+  critical: TrayAlert[]
+  connectors: TrayConnector[]
+}
+
+export type TrayAction =
+  | { action: 'open-dashboard' }
+  | { action: 'open-alert'; id: string }
+  | { action: 'silence'; id: string }
+  | { action: 'switch-connector'; id: string }
+
+export async function updateTray(state: TrayState): Promise<void> {
+  if (!isTauri()) return
+  await invokeCommand('update_tray', { state })
+}
+
+// Calls the handler for every tray menu action; returns a function that stops listening
+export async function listenForTrayActions(handler: (action: TrayAction) => void): Promise<() => void> {
+  if (!isTauri()) return () => {}
+  const { listen } = await import('@tauri-apps/api/event')
+  return listen<TrayAction>('tray-action', event => handler(event.payload))
+}